@@ -0,0 +1,246 @@
+/**
+ * Cross-source deduplication: fuzzy title similarity, venue matching by distance or name,
+ * a start-time tolerance, and field-level merging with per-field provenance.
+ */
+
+// Two listings are the same event when all three hold
+const TITLE_THRESHOLD = 0.7; // Similarity 0..1, see titleSimilarity
+const VENUE_MAX_DISTANCE_M = 200;
+const VENUE_NAME_THRESHOLD = 0.6;
+const START_TOLERANCE_MS = 90 * 60 * 1000;
+
+// Which source wins a tie for a field (earlier = preferred)
+const SOURCE_PRIORITY = ["linkedevents", "myhelsinki", "eventbrite", "meetup"];
+
+// Fields filled in from other listings when the primary lacks them (or has a worse value)
+const MERGED_FIELDS = ["description", "imageUrl", "url", "ticketUrl", "ticketPrice", "ticketInfo", "endTime"];
+
+// Words that don't distinguish one event from another
+const STOPWORDS = new Set(["the", "at", "and", "in", "of", "a", "ja", "och", "klo", "live"]);
+
+/**
+ * Lowercase, strip accents and punctuation ("Jazz Night – Savoy-teatteri" -> "jazz night savoy teatteri")
+ * @param {string} text
+ * @returns {string}
+ */
+export function normalizeText(text) {
+  return (text || "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // Drop accents: ä -> a
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function tokens(text) {
+  return normalizeText(text).split(" ").filter(t => t && !STOPWORDS.has(t));
+}
+
+function trigrams(text) {
+  const padded = `  ${tokens(text).join(" ")} `;
+  const grams = new Set();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+}
+
+function dice(a, b) {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const x of a) if (b.has(x)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Title similarity 0..1: the better of character-trigram Dice and word overlap.
+ * Word overlap is measured against the shorter title, but only counts from two shared words up,
+ * so "Jazz Night @ Savoy" matches "Jazz Night – Savoy-teatteri" while a lone "Jazz" doesn't match everything.
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+export function titleSimilarity(a, b) {
+  const ta = new Set(tokens(a));
+  const tb = new Set(tokens(b));
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  const overlap = shared >= 2 ? shared / Math.min(ta.size, tb.size) : 0;
+  return Math.max(dice(trigrams(a), trigrams(b)), overlap);
+}
+
+/**
+ * Great-circle distance in meters
+ * @param {{ lat: number, lng: number }} a
+ * @param {{ lat: number, lng: number }} b
+ * @returns {number}
+ */
+export function distanceMeters(a, b) {
+  const R = 6371000;
+  const dLat = (b.lat - a.lat) * Math.PI / 180;
+  const dLng = (b.lng - a.lng) * Math.PI / 180;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Same place: close on the map, or similarly named (MyHelsinki "venues" are street addresses, so geo matters most)
+ */
+function sameVenue(a, b) {
+  if (distanceMeters(a, b) <= VENUE_MAX_DISTANCE_M) return true;
+  const known = v => v && v !== "Unknown Venue";
+  return known(a.venueName) && known(b.venueName) && titleSimilarity(a.venueName, b.venueName) >= VENUE_NAME_THRESHOLD;
+}
+
+// MyHelsinki only knows the day and sends it as midnight UTC
+function isDateOnly(iso) {
+  return /T00:00:00(\.000)?Z$/.test(iso);
+}
+
+function sameStart(a, b) {
+  if (isDateOnly(a.startTime) || isDateOnly(b.startTime)) {
+    return a.startTime.slice(0, 10) === b.startTime.slice(0, 10);
+  }
+  return Math.abs(Date.parse(a.startTime) - Date.parse(b.startTime)) <= START_TOLERANCE_MS;
+}
+
+/**
+ * Whether two listings describe the same event. Within one source only exact repeats
+ * (same title, venue and start) count, so distinct sessions at one venue stay apart.
+ * @param {Object} a
+ * @param {Object} b
+ * @returns {boolean}
+ */
+export function isSameEvent(a, b) {
+  if (a.source === b.source) {
+    return (
+      a.startTime === b.startTime &&
+      normalizeText(a.title) === normalizeText(b.title) &&
+      normalizeText(a.venueName) === normalizeText(b.venueName)
+    );
+  }
+  return sameStart(a, b) && sameVenue(a, b) && titleSimilarity(a.title, b.title) >= TITLE_THRESHOLD;
+}
+
+/**
+ * Overall richness, breaks ties when picking the primary listing
+ */
+function quality(event) {
+  return (
+    (event.url ? 10 : 0) +
+    (event.imageUrl ? 20 : 0) +
+    (event.description ? 5 : 0) +
+    (event.endTime ? 5 : 0) +
+    (event.occurrences ? 5 : 0)
+  );
+}
+
+function priority(source) {
+  const index = SOURCE_PRIORITY.indexOf(source);
+  return index === -1 ? SOURCE_PRIORITY.length : index;
+}
+
+/**
+ * Best value of a field across a group: longest description, otherwise the first present value by source priority.
+ * End times only come from listings with a real start time (a date-only end is "end of day").
+ */
+function bestValue(field, group) {
+  const present = group.filter(e => e[field] && (field !== "endTime" || !isDateOnly(e.startTime)));
+  if (present.length === 0) return null;
+  if (field === "description") {
+    return present.reduce((best, e) => (e.description.length > best.description.length ? e : best));
+  }
+  return present.sort((a, b) => priority(a.source) - priority(b.source))[0];
+}
+
+/**
+ * The listing whose id, title, time and place the merged event keeps:
+ * a real start time beats a bare date, then source priority, then richness
+ */
+function pickPrimary(group) {
+  return [...group].sort((a, b) =>
+    Number(isDateOnly(a.startTime)) - Number(isDateOnly(b.startTime)) ||
+    priority(a.source) - priority(b.source) ||
+    quality(b) - quality(a)
+  )[0];
+}
+
+/**
+ * Merge a duplicate group into its primary listing, keeping the primary's id and recording
+ * which source each merged field came from
+ * @param {Object[]} group - Listings of the same event
+ * @returns {Object}
+ */
+export function mergeGroup(group) {
+  const primary = pickPrimary(group);
+  const ids = [...new Set(group.map(e => e.id))];
+  if (ids.length === 1) return primary; // Exact repeats of one listing
+
+  const merged = { ...primary, provenance: {}, mergedFrom: ids };
+
+  for (const field of MERGED_FIELDS) {
+    const best = bestValue(field, group);
+    if (!best) continue;
+    merged[field] = best[field];
+    merged.provenance[field] = best.source;
+  }
+
+  // Missing translations are filled in per language from the other listings
+  if (group.some(e => e.i18n)) {
+    const i18n = {};
+    for (const key of ["title", "description", "venueName", "url"]) {
+      i18n[key] = Object.assign({}, ...[...group].reverse().map(e => e.i18n?.[key] || {}), primary.i18n?.[key] || {});
+    }
+    merged.i18n = i18n;
+  }
+
+  return merged;
+}
+
+/**
+ * UTC start day (YYYY-MM-DD), or null if the start time doesn't parse
+ */
+function startDay(event) {
+  const ms = Date.parse(event.startTime);
+  return isNaN(ms) ? null : new Date(ms).toISOString().slice(0, 10);
+}
+
+/**
+ * Deduplicate events that appear in multiple sources and merge each duplicate group into one event.
+ * Listings are only compared within the same start day and its neighbours (for the time tolerance).
+ * @param {Object[]} events
+ * @returns {Object[]}
+ */
+export function dedupeEvents(events) {
+  const groups = []; // Listings judged to be the same event, in first-seen order
+  const groupsByDay = new Map();
+
+  for (const event of events) {
+    const day = startDay(event);
+    if (!day) {
+      groups.push([event]);
+      continue;
+    }
+
+    const dayMs = Date.parse(`${day}T00:00:00Z`);
+    const nearby = [-1, 0, 1].flatMap(offset =>
+      groupsByDay.get(new Date(dayMs + offset * 86400000).toISOString().slice(0, 10)) || []
+    );
+    // A group holds at most one listing per source, apart from exact repeats
+    const group = nearby.find(
+      g => g.some(other => isSameEvent(event, other)) &&
+        g.every(other => other.source !== event.source || isSameEvent(event, other))
+    );
+
+    if (group) {
+      group.push(event);
+    } else {
+      const created = [event];
+      groups.push(created);
+      if (!groupsByDay.has(day)) groupsByDay.set(day, []);
+      groupsByDay.get(day).push(created);
+    }
+  }
+
+  return groups.map(group => (group.length > 1 ? mergeGroup(group) : group[0]));
+}
@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import { dedupeEvents, distanceMeters, isSameEvent, mergeGroup, normalizeText, titleSimilarity } from "./dedupe.js";
+
+// Savoy-teatteri
+const SAVOY = { lat: 60.16703, lng: 24.94866 };
+const METERS_PER_DEGREE_LAT = (Math.PI / 180) * 6371000;
+const north = (point, meters) => ({ lat: point.lat + meters / METERS_PER_DEGREE_LAT, lng: point.lng });
+const minutesAfter = (iso, minutes) => new Date(Date.parse(iso) + minutes * 60 * 1000).toISOString();
+
+const START = "2026-06-12T16:00:00.000Z";
+
+function listing(overrides = {}) {
+  return {
+    id: "linkedevents_1",
+    source: "linkedevents",
+    title: "Jazz Night at Savoy",
+    startTime: START,
+    endTime: null,
+    ...SAVOY,
+    venueName: "Savoy-teatteri",
+    description: "",
+    imageUrl: null,
+    url: null,
+    ...overrides
+  };
+}
+
+// The same event as listed by another source
+const other = (overrides = {}) => listing({ id: "eventbrite_1", source: "eventbrite", ...overrides });
+
+describe("normalizeText", () => {
+  it("lowercases and drops accents and punctuation", () => {
+    expect(normalizeText("Jazz Night – Savoy-teatteri!")).toBe("jazz night savoy teatteri");
+    expect(normalizeText("Kesäkonsertti")).toBe("kesakonsertti");
+  });
+});
+
+describe("titleSimilarity", () => {
+  it("matches reworded titles by shared words", () => {
+    expect(titleSimilarity("Jazz Night @ Savoy", "Jazz Night – Savoy-teatteri")).toBe(1);
+    expect(titleSimilarity("Jazz Night at Savoy", "Savoy Night Jazz")).toBe(1);
+  });
+
+  it("matches spelling variants by trigrams", () => {
+    const similarity = titleSimilarity("Lasten satutunti", "Lasten satutunnit");
+    expect(similarity).toBeGreaterThanOrEqual(0.7);
+    expect(similarity).toBeLessThan(1);
+  });
+
+  it("doesn't count a single shared word as overlap", () => {
+    expect(titleSimilarity("Jazz", "Jazz at Savoy")).toBeLessThan(0.7);
+    expect(titleSimilarity("Jazz Night", "Jazz Brunch")).toBeLessThan(0.7);
+  });
+
+  it("ignores stopwords", () => {
+    expect(titleSimilarity("The Jazz Night", "Jazz Night")).toBe(1);
+  });
+
+  it("is 0 for empty titles", () => {
+    expect(titleSimilarity("", "Jazz Night")).toBe(0);
+  });
+});
+
+describe("isSameEvent", () => {
+  it("requires a title similarity of at least 0.7", () => {
+    expect(isSameEvent(listing(), other({ title: "Jazz Night – Savoy-teatteri" }))).toBe(true);
+    expect(isSameEvent(listing({ title: "Lasten satutunti" }), other({ title: "Lasten satutunnit" }))).toBe(true);
+    expect(isSameEvent(listing({ title: "Jazz Night" }), other({ title: "Jazz Brunch" }))).toBe(false);
+  });
+
+  it("matches venues up to 200 m apart", () => {
+    const nearby = { venueName: "Unknown Venue" }; // No name match to fall back on
+    expect(distanceMeters(SAVOY, north(SAVOY, 199))).toBeCloseTo(199, 0);
+    expect(isSameEvent(listing(), other({ ...north(SAVOY, 199), ...nearby }))).toBe(true);
+    expect(isSameEvent(listing(), other({ ...north(SAVOY, 201), ...nearby }))).toBe(false);
+  });
+
+  it("matches venues further apart by a similar name", () => {
+    expect(isSameEvent(listing(), other({ ...north(SAVOY, 500), venueName: "Savoyteatteri" }))).toBe(true);
+    expect(isSameEvent(listing(), other({ ...north(SAVOY, 500), venueName: "Tavastia" }))).toBe(false);
+  });
+
+  it("allows starts up to 90 minutes apart", () => {
+    expect(isSameEvent(listing(), other({ startTime: minutesAfter(START, 90) }))).toBe(true);
+    expect(isSameEvent(listing(), other({ startTime: minutesAfter(START, -90) }))).toBe(true);
+    expect(isSameEvent(listing(), other({ startTime: minutesAfter(START, 91) }))).toBe(false);
+  });
+
+  it("compares date-only listings by day", () => {
+    expect(isSameEvent(listing(), other({ source: "myhelsinki", startTime: "2026-06-12T00:00:00Z" }))).toBe(true);
+    expect(isSameEvent(listing(), other({ source: "myhelsinki", startTime: "2026-06-13T00:00:00Z" }))).toBe(false);
+  });
+
+  it("keeps same-title events at different venues apart", () => {
+    const elsewhere = { lat: 60.17394, lng: 24.93796, venueName: "Oodi" };
+    expect(isSameEvent(listing(), other(elsewhere))).toBe(false);
+  });
+
+  it("keeps same-title events at different times apart", () => {
+    expect(isSameEvent(listing(), other({ startTime: minutesAfter(START, 24 * 60) }))).toBe(false);
+  });
+
+  it("only treats exact repeats within one source as the same", () => {
+    expect(isSameEvent(listing(), listing({ id: "linkedevents_2" }))).toBe(true);
+    expect(isSameEvent(listing(), listing({ id: "linkedevents_2", startTime: minutesAfter(START, 30) }))).toBe(false);
+    expect(isSameEvent(listing(), listing({ id: "linkedevents_2", title: "Jazz Night – Savoy" }))).toBe(false);
+  });
+});
+
+describe("mergeGroup", () => {
+  it("keeps the primary's id, title and time, and records mergedFrom and provenance", () => {
+    const linked = listing({ description: "Short", url: "https://linkedevents.example/1" });
+    const brite = other({
+      title: "Jazz Night – Savoy-teatteri",
+      startTime: minutesAfter(START, 30),
+      description: "A much longer description from Eventbrite",
+      imageUrl: "https://img.example/jazz.jpg",
+      url: "https://eventbrite.example/1",
+      endTime: "2026-06-12T20:00:00.000Z"
+    });
+    const merged = mergeGroup([brite, linked]);
+
+    expect(merged).toMatchObject({ id: "linkedevents_1", title: "Jazz Night at Savoy", startTime: START });
+    expect(merged.mergedFrom).toEqual(["eventbrite_1", "linkedevents_1"]);
+    expect(merged.description).toBe("A much longer description from Eventbrite");
+    expect(merged.url).toBe("https://linkedevents.example/1"); // Source priority
+    expect(merged.imageUrl).toBe("https://img.example/jazz.jpg"); // Only Eventbrite has one
+    expect(merged.provenance).toEqual({
+      description: "eventbrite",
+      imageUrl: "eventbrite",
+      url: "linkedevents",
+      endTime: "eventbrite"
+    });
+  });
+
+  it("prefers a listing with a real start time over a date-only one", () => {
+    const dateOnly = listing({ id: "linkedevents_9", startTime: "2026-06-12T00:00:00Z", endTime: "2026-06-12T23:59:59Z" });
+    const timed = other({ startTime: START });
+    const merged = mergeGroup([dateOnly, timed]);
+
+    expect(merged.id).toBe("eventbrite_1");
+    expect(merged.startTime).toBe(START);
+    expect(merged.endTime).toBeNull(); // A date-only "end of day" isn't a real end time
+    expect(merged.provenance.endTime).toBeUndefined();
+  });
+
+  it("fills missing translations from the other listings, the primary winning", () => {
+    const linked = listing({ i18n: { title: { fi: "Jazz-ilta" } } });
+    const helsinki = other({ source: "myhelsinki", id: "myhelsinki_1", i18n: { title: { fi: "Jazzilta", en: "Jazz Night" } } });
+    const merged = mergeGroup([helsinki, linked]);
+
+    expect(merged.i18n.title).toEqual({ fi: "Jazz-ilta", en: "Jazz Night" });
+  });
+
+  it("returns exact repeats of one listing unchanged", () => {
+    const event = listing();
+    expect(mergeGroup([event, { ...event }])).toBe(event);
+  });
+});
+
+describe("dedupeEvents", () => {
+  it("merges cross-source duplicates and keeps distinct events", () => {
+    const events = [
+      listing(),
+      other({ title: "Jazz Night – Savoy-teatteri", startTime: minutesAfter(START, 60) }),
+      other({ id: "eventbrite_2", lat: 60.17394, lng: 24.93796, venueName: "Oodi" }),
+      listing({ id: "linkedevents_2", startTime: minutesAfter(START, 24 * 60) })
+    ];
+    const result = dedupeEvents(events);
+
+    expect(result.map(e => e.id)).toEqual(["linkedevents_1", "eventbrite_2", "linkedevents_2"]);
+    expect(result[0].mergedFrom).toEqual(["linkedevents_1", "eventbrite_1"]);
+  });
+
+  it("matches across midnight within the time tolerance", () => {
+    const late = "2026-06-12T23:30:00.000Z";
+    const result = dedupeEvents([listing({ startTime: late }), other({ startTime: minutesAfter(late, 60) })]);
+    expect(result).toHaveLength(1);
+  });
+
+  it("keeps two sessions from one source apart", () => {
+    const result = dedupeEvents([listing(), listing({ id: "linkedevents_2", startTime: minutesAfter(START, 60) })]);
+    expect(result).toHaveLength(2);
+  });
+});
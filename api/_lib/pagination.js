@@ -0,0 +1,83 @@
+/**
+ * Pagination helpers for LinkedEvents-style APIs ({ meta: { count, next }, data: [] })
+ */
+
+/**
+ * Pagination summary
+ * @typedef {Object} PaginationInfo
+ * @property {number} pagesFetched - Number of pages actually read
+ * @property {number} fetched - Number of raw items read across all pages
+ * @property {number} total - Total items reported by the API (meta.count)
+ * @property {boolean} truncated - True if the page cap stopped us before meta.next ran out
+ */
+
+/**
+ * Build a LinkedEvents query string for a time window
+ * @param {string} baseUrl - Endpoint, e.g. "https://api.hel.fi/linkedevents/v1/event/"
+ * @param {Object} options
+ * @param {string} options.start - Window start (ISO date/datetime or "today"/"now")
+ * @param {string} [options.end] - Window end (ISO date/datetime)
+ * @param {number} [options.pageSize] - Items per page
+ * @returns {string}
+ */
+export function buildWindowUrl(baseUrl, { start, end, pageSize = 100 }) {
+  const url = new URL(baseUrl);
+  url.searchParams.set("page_size", String(pageSize));
+  url.searchParams.set("start", start);
+  if (end) url.searchParams.set("end", end);
+  url.searchParams.set("include", "location");
+  url.searchParams.set("sort", "start_time");
+  return url.toString();
+}
+
+/**
+ * Follow meta.next until exhausted or the page cap is hit
+ * @param {string} firstUrl - URL of the first page
+ * @param {Object} [options]
+ * @param {number} [options.maxPages] - Hard cap on pages to read
+ * @param {number} [options.timeoutMs] - Per-page request timeout
+ * @param {AbortSignal} [options.signal] - Aborts the whole read (e.g. the adapter's overall timeout)
+ * @returns {Promise<{ items: any[], pagination: PaginationInfo, incomplete: string|null }>}
+ *   incomplete = why the read stopped early with pages already in hand (a later page failed or timed out)
+ */
+export async function fetchAllPages(firstUrl, { maxPages = 10, timeoutMs = 10000, signal } = {}) {
+  const items = [];
+  let next = firstUrl;
+  let pagesFetched = 0;
+  let total = 0;
+  let incomplete = null;
+
+  while (next && pagesFetched < maxPages) {
+    let page;
+    try {
+      const response = await fetch(next, {
+        headers: { Accept: "application/json" },
+        signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]) : AbortSignal.timeout(timeoutMs)
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      page = await response.json();
+    } catch (error) {
+      // Keep whatever we already have if a later page fails or the whole read runs out of time
+      if (pagesFetched === 0) throw error;
+      const reason = error?.name === "TimeoutError" || error?.name === "AbortError" ? "Timed out" : error?.message || String(error);
+      incomplete = `${reason} after ${pagesFetched} page${pagesFetched === 1 ? "" : "s"}`;
+      break;
+    }
+
+    pagesFetched++;
+    total = page.meta?.count ?? total;
+    items.push(...(page.data || []));
+    next = page.meta?.next || null;
+  }
+
+  return {
+    items,
+    pagination: {
+      pagesFetched,
+      fetched: items.length,
+      total: Math.max(total, items.length),
+      truncated: Boolean(next)
+    },
+    incomplete
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Itineraries from an OpenTripPlanner GraphQL endpoint (Digitransit by default, or a local OTP instance)
+ */
+
+// Digitransit's HSL router; ROUTING_GRAPHQL_URL points it elsewhere, e.g. http://localhost:8080/otp/gtfs/v1
+export const ROUTING_GRAPHQL_URL =
+  process.env.ROUTING_GRAPHQL_URL || "https://api.digitransit.fi/routing/v2/hsl/gtfs/v1";
+
+// Digitransit needs a subscription key; a local OTP instance usually doesn't
+const DIGITRANSIT_API_KEY = process.env.DIGITRANSIT_API_KEY;
+
+const TIMEOUT_MS = 10000;
+
+// Leave this much slack before the event starts when arriving by a deadline
+export const ARRIVAL_BUFFER_MS = 5 * 60 * 1000;
+
+const TRANSPORT_MODES = {
+  walk: [{ mode: "WALK" }],
+  transit: [
+    { mode: "BUS" },
+    { mode: "TRAM" },
+    { mode: "SUBWAY" },
+    { mode: "RAIL" },
+    { mode: "FERRY" },
+    { mode: "WALK" }
+  ]
+};
+
+// The legacy `plan` query: served by both OTP 1.x and OTP 2.x GTFS GraphQL APIs
+const QUERY = `
+  query(
+    $fromLat: Float!, $fromLon: Float!, $toLat: Float!, $toLon: Float!,
+    $date: String!, $time: String!, $arriveBy: Boolean!, $modes: [TransportMode], $count: Int!
+  ) {
+    plan(
+      from: {lat: $fromLat, lon: $fromLon}
+      to: {lat: $toLat, lon: $toLon}
+      date: $date
+      time: $time
+      arriveBy: $arriveBy
+      transportModes: $modes
+      numItineraries: $count
+    ) {
+      itineraries {
+        startTime
+        endTime
+        walkDistance
+        legs {
+          mode
+          startTime
+          endTime
+          distance
+          from { name }
+          to { name }
+          route { shortName longName }
+          trip { tripHeadsign }
+          legGeometry { points }
+        }
+      }
+    }
+  }
+`;
+
+const HELSINKI_PARTS = new Intl.DateTimeFormat("en-GB", {
+  timeZone: "Europe/Helsinki",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23"
+});
+
+/**
+ * OTP's date ("YYYY-MM-DD") and time ("HH:mm:ss"), both in the router's Helsinki time
+ */
+function toRouterDateTime(ms) {
+  const parts = Object.fromEntries(HELSINKI_PARTS.formatToParts(new Date(ms)).map(p => [p.type, p.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}:${parts.second}`
+  };
+}
+
+/**
+ * Decode a Google encoded polyline (OTP legGeometry) into [lng, lat] pairs
+ */
+export function decodePolyline(encoded) {
+  const coordinates = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+  while (index < encoded.length) {
+    for (const axis of ["lat", "lng"]) {
+      let result = 0;
+      let shift = 0;
+      let byte;
+      do {
+        byte = encoded.charCodeAt(index++) - 63;
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20);
+      const delta = result & 1 ? ~(result >> 1) : result >> 1;
+      if (axis === "lat") lat += delta;
+      else lng += delta;
+    }
+    coordinates.push([lng / 1e5, lat / 1e5]);
+  }
+  return coordinates;
+}
+
+/**
+ * @typedef {Object} RouteLeg
+ * @property {string} mode - OTP mode, e.g. "WALK", "BUS", "TRAM"
+ * @property {string} departure - ISO time
+ * @property {string} arrival - ISO time
+ * @property {number} distanceMeters
+ * @property {string} from - Stop or place name
+ * @property {string} to
+ * @property {string|null} route - Line number (or name) for transit legs
+ * @property {string|null} headsign
+ * @property {number[][]} coordinates - [lng, lat] pairs
+ */
+
+/**
+ * @typedef {Object} RouteItinerary
+ * @property {string} departure - ISO time
+ * @property {string} arrival - ISO time
+ * @property {number} durationMinutes
+ * @property {number} walkMeters
+ * @property {RouteLeg[]} legs
+ */
+
+function toItinerary(itinerary) {
+  const legs = (itinerary.legs || []).map(leg => ({
+    mode: leg.mode,
+    departure: new Date(leg.startTime).toISOString(),
+    arrival: new Date(leg.endTime).toISOString(),
+    distanceMeters: Math.round(leg.distance || 0),
+    from: leg.from?.name || "",
+    to: leg.to?.name || "",
+    route: leg.route?.shortName || leg.route?.longName || null,
+    headsign: leg.trip?.tripHeadsign || null,
+    coordinates: leg.legGeometry?.points ? decodePolyline(leg.legGeometry.points) : []
+  }));
+  return {
+    departure: new Date(itinerary.startTime).toISOString(),
+    arrival: new Date(itinerary.endTime).toISOString(),
+    durationMinutes: Math.round((itinerary.endTime - itinerary.startTime) / 60000),
+    walkMeters: Math.round(itinerary.walkDistance || 0),
+    legs
+  };
+}
+
+/**
+ * Plan trips from one point to another. With arriveBy (epoch ms) itineraries arrive by then,
+ * otherwise they leave now.
+ * @param {{ from: {lat: number, lng: number}, to: {lat: number, lng: number}, mode: "walk"|"transit", arriveBy?: number|null, count?: number }} options
+ * @returns {Promise<RouteItinerary[]>}
+ */
+export async function planRoute({ from, to, mode, arriveBy = null, count = 3 }) {
+  const { date, time } = toRouterDateTime(arriveBy ?? Date.now());
+  const headers = { "Content-Type": "application/json" };
+  if (DIGITRANSIT_API_KEY) headers["digitransit-subscription-key"] = DIGITRANSIT_API_KEY;
+
+  const response = await fetch(ROUTING_GRAPHQL_URL, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      query: QUERY,
+      variables: {
+        fromLat: from.lat,
+        fromLon: from.lng,
+        toLat: to.lat,
+        toLon: to.lng,
+        date,
+        time,
+        arriveBy: arriveBy !== null,
+        modes: TRANSPORT_MODES[mode],
+        count: mode === "walk" ? 1 : count
+      }
+    }),
+    signal: AbortSignal.timeout(TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`Routing HTTP ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (data.errors?.length) {
+    throw new Error(`Routing error: ${data.errors[0].message}`);
+  }
+  return (data.data?.plan?.itineraries || []).map(toItinerary);
+}
@@ -0,0 +1,105 @@
+/**
+ * Normalisation helpers shared by the source adapters
+ */
+
+/**
+ * @typedef {{ fi?: string, sv?: string, en?: string }} LocalizedText
+ */
+
+/**
+ * Keep only the fi/sv/en string values of a multilingual API field
+ * @returns {LocalizedText}
+ */
+export function pickTranslations(field) {
+  const out = {};
+  if (!field || typeof field !== "object") return out;
+  for (const lang of ["fi", "sv", "en"]) {
+    if (typeof field[lang] === "string" && field[lang].trim()) {
+      out[lang] = field[lang];
+    }
+  }
+  return out;
+}
+
+/**
+ * Normalize category from keywords/tags
+ * @param {string[]} keywords
+ * @returns {string}
+ */
+export function normalizeCategory(keywords) {
+  const text = keywords.join(" ").toLowerCase();
+  
+  if (/(music|musiikki|concert|konsertti|band|dj|live music)/.test(text)) return "music";
+  if (/(food|ruoka|restaurant|ravintola|street food|culinary|cooking)/.test(text)) return "food";
+  if (/(sport|urheilu|game|ottelu|marathon|juoksu|fitness|yoga)/.test(text)) return "sports";
+  if (/(family|perhe|kids|lapset|children|child)/.test(text)) return "family";
+  if (/(art|taide|museum|gallery|exhibition|näyttely|performance)/.test(text)) return "arts";
+  if (/(tech|technology|startup|coding|programming|meetup|hackathon)/.test(text)) return "tech";
+  if (/(night|club|party|dance|nightlife|yö)/.test(text)) return "nightlife";
+  
+  return "other";
+}
+
+const ONLINE_VENUE = ["internet", "online", "verkko", "video", "zoom", "stream", "etä"]; // etä = remote
+const ONLINE_DESCRIPTION = ["online-tapahtuma", "online event", "virtual event", "etätapahtuma", "zoom", "streamattava"];
+const ONLINE_TITLE = ["online", "verkossa", "zoom", "stream"];
+const SENIOR_TEXT = ["eläkeläis", "eläkeläin", "seniorei", "ikäihmis"];
+const SENIOR_TITLE = [...SENIOR_TEXT, "senior"];
+const SENIOR_VENUE = ["eläkeläis", "seniorei"];
+
+/**
+ * True for online/virtual events and events aimed at seniors/retirees, which the map skips
+ * @param {{ title: string, description: string, venueName: string }} text - Lowercased
+ * @returns {boolean}
+ */
+export function isOffTopic({ title, description, venueName }) {
+  const online =
+    ONLINE_VENUE.some(w => venueName.includes(w)) ||
+    ONLINE_DESCRIPTION.some(w => description.includes(w)) ||
+    ONLINE_TITLE.some(w => title.includes(w));
+  const senior =
+    SENIOR_TITLE.some(w => title.includes(w)) ||
+    SENIOR_TEXT.some(w => description.includes(w)) ||
+    SENIOR_VENUE.some(w => venueName.includes(w));
+  return online || senior;
+}
+
+/**
+ * Check a point against [minLng, minLat, maxLng, maxLat]
+ * @param {{ lat: number, lng: number }} point
+ * @param {number[]|null} bounds
+ * @returns {boolean}
+ */
+export function inBounds({ lat, lng }, bounds) {
+  if (!bounds) return true;
+  const [minLng, minLat, maxLng, maxLat] = bounds;
+  return lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat;
+}
+
+/**
+ * Center of the bounds, or Helsinki city center
+ * @param {number[]|null} bounds
+ * @returns {{ lat: number, lng: number }}
+ */
+export function boundsCenter(bounds) {
+  return bounds
+    ? { lat: (bounds[1] + bounds[3]) / 2, lng: (bounds[0] + bounds[2]) / 2 }
+    : { lat: 60.1699, lng: 24.9384 };
+}
+
+/**
+ * fetch + JSON with the adapter's abort signal; non-2xx responses throw so the runner can retry and report them
+ * @param {string} url
+ * @param {RequestInit} [init]
+ * @returns {Promise<any>}
+ */
+export async function fetchJson(url, init = {}) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Accept: "application/json", ...init.headers }
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.json();
+}
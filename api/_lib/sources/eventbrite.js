@@ -0,0 +1,56 @@
+/**
+ * Eventbrite (https://www.eventbrite.com/platform/api), requires EVENTBRITE_API_KEY
+ */
+import { normalizeCategory, boundsCenter, fetchJson } from "./common.js";
+
+/** @type {import('./index.js').SourceAdapter} */
+export default {
+  id: "eventbrite",
+  name: "Eventbrite",
+  attributionUrl: "https://www.eventbrite.com/",
+  requiredEnv: ["EVENTBRITE_API_KEY"],
+  timeoutMs: 10000,
+  retries: 1,
+
+  async fetchItems({ bounds, signal }) {
+    const center = boundsCenter(bounds);
+    const url = new URL("https://www.eventbriteapi.com/v3/events/search/");
+    url.searchParams.append("location.latitude", String(center.lat));
+    url.searchParams.append("location.longitude", String(center.lng));
+    url.searchParams.append("location.within", "25km");
+    url.searchParams.append("start_date.range_start", new Date().toISOString());
+    url.searchParams.append("expand", "venue,category");
+    url.searchParams.append("page_size", "200");
+
+    const data = await fetchJson(url.toString(), {
+      headers: { Authorization: `Bearer ${process.env.EVENTBRITE_API_KEY}` },
+      signal
+    });
+    return { items: data.events || [] };
+  },
+
+  toEvent(item) {
+    if (!item.venue?.latitude || !item.venue?.longitude) return null;
+
+    return {
+      id: `eventbrite_${item.id}`,
+      source: "eventbrite",
+      title: item.name?.text || "Event",
+      description: item.description?.text || "",
+      startTime: item.start?.local || item.start?.utc,
+      endTime: item.end?.local || item.end?.utc || null,
+      lat: parseFloat(item.venue.latitude),
+      lng: parseFloat(item.venue.longitude),
+      venueName: item.venue?.name || "Unknown Venue",
+      venueSourceId: item.venue?.id || null,
+      address: item.venue?.address?.address_1 || null,
+      city: item.venue?.address?.city || "Helsinki",
+      category: item.category?.name ? normalizeCategory([item.category.name]) : "other",
+      priceType: item.is_free ? "free" : "paid",
+      url: item.url || null,
+      imageUrl: item.logo?.url || null,
+      isLiveNow: false,
+      score: 0
+    };
+  }
+};
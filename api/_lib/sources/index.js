@@ -0,0 +1,197 @@
+/**
+ * Event source registry and runner.
+ * Adding a source = one adapter file in this directory + one line in SOURCES.
+ */
+import { inBounds } from "./common.js";
+import { getDateRangeWindow, overlapsWindow } from "../../../shared/helsinkiTime.js";
+import linkedevents from "./linkedevents.js";
+import myhelsinki from "./myhelsinki.js";
+import eventbrite from "./eventbrite.js";
+import meetup from "./meetup.js";
+
+/**
+ * @typedef {Object} SourceContext
+ * @property {number[]|null} bounds - [minLng, minLat, maxLng, maxLat]
+ * @property {{ start: string, end: string }|null} dateWindow - Planning window (YYYY-MM-DD, Helsinki days, inclusive), null = upcoming
+ * @property {AbortSignal} signal - Aborts when the adapter's timeout is hit
+ * @property {number} now
+ */
+
+/**
+ * @typedef {Object} SourceAdapter
+ * @property {string} id - Also the event id prefix and `source` value
+ * @property {string} name - Human-readable name for attribution
+ * @property {string} [attributionUrl]
+ * @property {string[]} [requiredEnv] - Env vars (API keys) the source can't run without
+ * @property {number} [timeoutMs] - Per attempt, default 10s. timeoutMs × (retries + 1) must fit in
+ *   FUNCTION_BUDGET_MS, since events-lite waits for every source
+ * @property {number} [retries] - Extra attempts after a failure, default 0
+ * @property {boolean} [filtersDates] - The API honours dateWindow itself; otherwise events are clipped to it
+ * @property {(ctx: SourceContext) => Promise<{ items: any[], pagination?: Object, incomplete?: string|null }>} fetchItems
+ *   Raw API items; `incomplete` says why only part of them could be read (the source is reported degraded)
+ * @property {(item: any) => Object|null} toEvent - Pure mapping to a HotspotEvent, null to skip the item
+ * @property {(events: Object[], ctx: SourceContext) => Object[]} [finalize] - Post-processing, e.g. series grouping
+ */
+
+/**
+ * @typedef {Object} SourceHealth
+ * @property {string} id
+ * @property {string} name
+ * @property {string|null} url - Attribution link
+ * @property {"ok"|"degraded"|"error"|"disabled"} status - degraded = only part of the events could be read
+ * @property {number} count - Events contributed
+ * @property {number|null} latencyMs - Time spent including retries
+ * @property {number} attempts
+ * @property {string|null} error - Failure, degraded or disabled reason
+ * @property {string|null} [lastSuccessAt] - ISO time of the last successful fetch, carried across rebuilds
+ */
+
+/** @type {SourceAdapter[]} */
+export const SOURCES = [linkedevents, myhelsinki, eventbrite, meetup];
+
+const DEFAULT_TIMEOUT_MS = 10000;
+// Time the sources get within events-lite's maxDuration (vercel.json), leaving room for KV and the response
+export const FUNCTION_BUDGET_MS = 25000;
+const RETRY_DELAY_MS = 500;
+
+/**
+ * Why a source won't run, or null if enabled.
+ * SOURCE_<ID>=false (e.g. SOURCE_MYHELSINKI=false) switches a source off.
+ * @param {SourceAdapter} adapter
+ * @returns {string|null}
+ */
+export function sourceDisabledReason(adapter) {
+  if (process.env[`SOURCE_${adapter.id.toUpperCase()}`] === "false") {
+    return `Disabled by SOURCE_${adapter.id.toUpperCase()}`;
+  }
+  const missing = (adapter.requiredEnv || []).filter(name => !process.env[name]);
+  return missing.length ? `Missing ${missing.join(", ")}` : null;
+}
+
+/**
+ * Map raw items to events, applying the bounds, the date window and the adapter's post-processing.
+ * Pure, so recorded API responses can be replayed through an adapter without the network.
+ * @param {SourceAdapter} adapter
+ * @param {any[]} items
+ * @param {Omit<SourceContext, "signal">} ctx
+ * @returns {Object[]}
+ */
+export function normalizeItems(adapter, items, ctx) {
+  let events = [];
+  for (const item of items) {
+    const event = adapter.toEvent(item);
+    if (event && inBounds(event, ctx.bounds)) events.push(event);
+  }
+  // Helsinki day bounds, the same window the client filters with
+  if (ctx.dateWindow && !adapter.filtersDates) {
+    const window = getDateRangeWindow(ctx.dateWindow);
+    events = events.filter(e => overlapsWindow(e, window));
+  }
+  return adapter.finalize ? adapter.finalize(events, ctx) : events;
+}
+
+/**
+ * Fetch one source with timeout and retries; never throws
+ * @param {SourceAdapter} adapter
+ * @param {Omit<SourceContext, "signal">} ctx
+ * @returns {Promise<{ events: Object[], pagination: Object|null, health: SourceHealth }>}
+ */
+export async function runSource(adapter, ctx) {
+  const health = {
+    id: adapter.id,
+    name: adapter.name,
+    url: adapter.attributionUrl || null,
+    status: "ok",
+    count: 0,
+    latencyMs: null,
+    attempts: 0,
+    error: null
+  };
+
+  const disabledReason = sourceDisabledReason(adapter);
+  if (disabledReason) {
+    return { events: [], pagination: null, health: { ...health, status: "disabled", error: disabledReason } };
+  }
+
+  const started = Date.now();
+  const maxAttempts = 1 + (adapter.retries || 0);
+  let lastError = null;
+
+  while (health.attempts < maxAttempts) {
+    health.attempts++;
+    try {
+      const signal = AbortSignal.timeout(adapter.timeoutMs || DEFAULT_TIMEOUT_MS);
+      const { items, pagination = null, incomplete = null } = await adapter.fetchItems({ ...ctx, signal });
+      const events = normalizeItems(adapter, items, ctx);
+      if (incomplete) console.warn(`${adapter.name} incomplete:`, incomplete);
+      return {
+        events,
+        pagination,
+        health: {
+          ...health,
+          status: incomplete ? "degraded" : "ok",
+          count: events.length,
+          latencyMs: Date.now() - started,
+          error: incomplete
+        }
+      };
+    } catch (error) {
+      lastError = error;
+      if (health.attempts < maxAttempts) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * health.attempts));
+      }
+    }
+  }
+
+  const message = lastError?.name === "TimeoutError" ? "Timed out" : lastError?.message || String(lastError);
+  console.error(`${adapter.name} fetch error:`, message);
+  return { events: [], pagination: null, health: { ...health, status: "error", latencyMs: Date.now() - started, error: message } };
+}
+
+/**
+ * Fetch all enabled sources in parallel
+ * @param {Omit<SourceContext, "signal">} ctx
+ * @returns {Promise<{ events: Object[], pagination: Object<string, Object>, health: SourceHealth[] }>}
+ */
+export async function fetchAllSources(ctx) {
+  const results = await Promise.all(SOURCES.map(adapter => runSource(adapter, ctx)));
+
+  const pagination = {};
+  for (const { pagination: info, health } of results) {
+    if (info) pagination[health.id] = info;
+  }
+
+  return {
+    events: results.flatMap(r => r.events),
+    pagination,
+    health: results.map(r => r.health)
+  };
+}
+
+/**
+ * Stamp lastSuccessAt: now for sources that just returned events (fully or degraded), carried over from the previous report otherwise
+ * @param {SourceHealth[]} health
+ * @param {SourceHealth[]|null} previous
+ * @param {number} at
+ * @returns {SourceHealth[]}
+ */
+export function withLastSuccess(health, previous, at) {
+  return health.map(h => ({
+    ...h,
+    lastSuccessAt: h.status === "ok" || h.status === "degraded"
+      ? new Date(at).toISOString()
+      : previous?.find(p => p.id === h.id)?.lastSuccessAt || null
+  }));
+}
+
+/**
+ * Overall status: "ok" if every enabled source works fully, "down" if none works, "degraded" in between
+ * @param {SourceHealth[]} health
+ * @returns {"ok"|"degraded"|"down"}
+ */
+export function overallStatus(health) {
+  const enabled = health.filter(h => h.status !== "disabled");
+  const failing = enabled.filter(h => h.status === "error");
+  if (failing.length === 0) return enabled.some(h => h.status === "degraded") ? "degraded" : "ok";
+  return failing.length === enabled.length ? "down" : "degraded";
+}
@@ -0,0 +1,95 @@
+/**
+ * City of Helsinki LinkedEvents (https://api.hel.fi/linkedevents/v1/)
+ */
+import { buildWindowUrl, fetchAllPages } from "../pagination.js";
+import { groupSeries, linkedEventsRefId } from "../../../shared/eventSeries.js";
+import { getHelsinkiDate } from "../../../shared/helsinkiTime.js";
+import { pickTranslations, normalizeCategory, isOffTopic } from "./common.js";
+
+// 100 per page (API maximum), capped to keep cold fetches bounded
+const LINKEDEVENTS_URL = "https://api.hel.fi/linkedevents/v1/event/";
+const LINKEDEVENTS_MAX_PAGES = Number(process.env.LINKEDEVENTS_MAX_PAGES) || 10;
+
+/** @type {import('./index.js').SourceAdapter} */
+export default {
+  id: "linkedevents",
+  name: "Helsinki LinkedEvents",
+  attributionUrl: "https://api.hel.fi/linkedevents/v1/",
+  timeoutMs: 12000, // Whole paginated read; pages read by then are kept (see fetchAllPages)
+  retries: 1,
+  filtersDates: true,
+
+  async fetchItems({ dateWindow, signal }) {
+    const today = getHelsinkiDate();
+    const url = buildWindowUrl(LINKEDEVENTS_URL, { start: dateWindow?.start || today, end: dateWindow?.end });
+    const { items, pagination, incomplete } = await fetchAllPages(url, { maxPages: LINKEDEVENTS_MAX_PAGES, timeoutMs: 8000, signal });
+
+    if (pagination.truncated) {
+      console.log(`LinkedEvents truncated: read ${pagination.fetched} of ${pagination.total} (${pagination.pagesFetched} pages)`);
+    }
+    return { items, pagination, incomplete };
+  },
+
+  toEvent(item) {
+    // Must have location with coordinates
+    if (!item.location?.position?.coordinates) return null;
+    const [lng, lat] = item.location.position.coordinates;
+
+    const title = item.name?.fi || item.name?.en || item.name?.sv || "";
+    const description = item.description?.fi || item.description?.en || "";
+    const venueName = item.location?.name?.fi || item.location?.name?.en || "";
+    if (isOffTopic({ title: title.toLowerCase(), description: description.toLowerCase(), venueName: venueName.toLowerCase() })) {
+      return null;
+    }
+
+    const keywords = (item.keywords || []).map(k => k.name?.fi || k.name?.en || "");
+    const offers = item.offers || [];
+    const priceType = offers.some(o => o.is_free) ? "free" : "paid";
+
+    // Ticket information from the first offer
+    const offer = offers[0];
+    const ticketUrl = offer?.info_url?.fi || offer?.info_url?.en || null;
+    const ticketPrice = offer?.price?.fi || offer?.price?.en || null;
+    const ticketInfo = offer?.description?.fi || offer?.description?.en || null;
+    const registrationUrl = item.registration?.signup_url || null;
+    const infoUrl = item.info_url?.fi || item.info_url?.en || null;
+
+    return {
+      id: `linkedevents_${item.id}`,
+      source: "linkedevents",
+      title: title || "Event",
+      description,
+      startTime: item.start_time,
+      endTime: item.end_time || null,
+      lat,
+      lng,
+      venueName: venueName || "Unknown Venue",
+      venueSourceId: item.location?.id || null, // Service map place, e.g. "tprek:7254"
+      address: item.location?.street_address?.fi || item.location?.street_address?.sv || null,
+      city: "Helsinki",
+      category: normalizeCategory(keywords),
+      priceType,
+      url: infoUrl || ticketUrl,
+      imageUrl: item.images?.[0]?.url || null,
+      isLiveNow: false, // Computed by the aggregator
+      score: 0, // Computed by the aggregator
+      ticketUrl: ticketUrl || registrationUrl || infoUrl,
+      ticketPrice,
+      ticketInfo,
+      maxAttendees: item.maximum_attendee_capacity || null,
+      currentAttendees: item.enrolment_count || null,
+      i18n: {
+        title: pickTranslations(item.name),
+        description: pickTranslations(item.description),
+        venueName: pickTranslations(item.location?.name),
+        url: pickTranslations(item.info_url)
+      },
+      seriesId: linkedEventsRefId(item.super_event) || undefined
+    };
+  },
+
+  // Fold weekly series into one pin per series
+  finalize(events, { now }) {
+    return groupSeries(events, now);
+  }
+};
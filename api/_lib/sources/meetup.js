@@ -0,0 +1,84 @@
+/**
+ * Meetup GraphQL API (https://www.meetup.com/api/), requires MEETUP_API_KEY
+ */
+import { boundsCenter, fetchJson } from "./common.js";
+
+const QUERY = `
+  query($lat: Float!, $lon: Float!, $radius: Int!) {
+    rankedEvents(input: {lat: $lat, lon: $lon, radius: $radius, first: 200}) {
+      edges {
+        node {
+          id
+          title
+          description
+          dateTime
+          endTime
+          eventUrl
+          images {
+            baseUrl
+          }
+          venue {
+            id
+            name
+            address
+            lat
+            lng
+            city
+          }
+        }
+      }
+    }
+  }
+`;
+
+/** @type {import('./index.js').SourceAdapter} */
+export default {
+  id: "meetup",
+  name: "Meetup",
+  attributionUrl: "https://www.meetup.com/",
+  requiredEnv: ["MEETUP_API_KEY"],
+  timeoutMs: 10000,
+  retries: 1,
+
+  async fetchItems({ bounds, signal }) {
+    const center = boundsCenter(bounds);
+    const data = await fetchJson("https://api.meetup.com/gql", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.MEETUP_API_KEY}`
+      },
+      body: JSON.stringify({
+        query: QUERY,
+        variables: { lat: center.lat, lon: center.lng, radius: 25 }
+      }),
+      signal
+    });
+    return { items: (data.data?.rankedEvents?.edges || []).map(edge => edge.node) };
+  },
+
+  toEvent(item) {
+    if (!item.venue?.lat || !item.venue?.lng) return null;
+
+    return {
+      id: `meetup_${item.id}`,
+      source: "meetup",
+      title: item.title || "Meetup",
+      description: item.description || "",
+      startTime: item.dateTime,
+      endTime: item.endTime || null,
+      lat: item.venue.lat,
+      lng: item.venue.lng,
+      venueName: item.venue.name || "Unknown Venue",
+      venueSourceId: item.venue.id || null,
+      address: item.venue.address || null,
+      city: item.venue.city || "Helsinki",
+      category: "tech", // Meetup events are typically tech/networking
+      priceType: "free", // Most meetups are free
+      url: item.eventUrl || null,
+      imageUrl: item.images?.[0]?.baseUrl || null,
+      isLiveNow: false,
+      score: 0
+    };
+  }
+};
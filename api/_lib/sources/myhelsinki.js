@@ -0,0 +1,75 @@
+/**
+ * MyHelsinki Open API (https://open-api.myhelsinki.fi/), supplementary tourism and city events
+ */
+import { pickTranslations, normalizeCategory, isOffTopic, fetchJson } from "./common.js";
+import { addDays, helsinkiTimeOn } from "../../../shared/helsinkiTime.js";
+
+// Last second of a Helsinki calendar day
+const endOfHelsinkiDay = date => new Date(helsinkiTimeOn(addDays(date, 1)) - 1000).toISOString();
+
+/** @type {import('./index.js').SourceAdapter} */
+export default {
+  id: "myhelsinki",
+  name: "MyHelsinki",
+  attributionUrl: "https://open-api.myhelsinki.fi/",
+  timeoutMs: 10000,
+  retries: 1,
+
+  async fetchItems({ signal }) {
+    const data = await fetchJson("https://open-api.myhelsinki.fi/v2/events/?limit=500", { signal });
+    return { items: data.data || [] };
+  },
+
+  toEvent(item) {
+    const loc = item.location || {};
+    if (!loc.lat || !loc.lon) return null;
+
+    const address = loc.address?.street_address || "";
+    const title = item.name?.fi || item.name?.en || "";
+    const description = item.description?.fi || item.description?.en || "";
+    if (isOffTopic({ title: title.toLowerCase(), description: description.toLowerCase(), venueName: address.toLowerCase() })) {
+      return null;
+    }
+
+    // Skip if no start date
+    const startDay = item.event_dates?.starting_day;
+    if (!startDay) return null;
+
+    const tags = (item.tags || []).map(t => t.name || "");
+    const offers = item.offers || [];
+    const offer = offers[0];
+    const ticketUrl = offer?.url || null;
+
+    return {
+      id: `myhelsinki_${item.id}`,
+      source: "myhelsinki",
+      title: title || "Event",
+      description,
+      startTime: `${startDay}T00:00:00Z`, // MyHelsinki only provides date, not time
+      endTime: item.event_dates?.ending_day ? endOfHelsinkiDay(item.event_dates.ending_day) : null,
+      lat: loc.lat,
+      lng: loc.lon,
+      venueName: address || "Unknown Venue",
+      venueSourceId: loc.id ? String(loc.id) : null,
+      address: address || null,
+      city: loc.address?.locality || "Helsinki",
+      category: normalizeCategory(tags),
+      priceType: offers.some(o => o.is_free) ? "free" : "paid",
+      url: item.info_url || ticketUrl || null,
+      imageUrl: item.description?.images?.[0]?.url || null,
+      isLiveNow: false,
+      score: 0,
+      ticketUrl: ticketUrl || item.info_url || null,
+      ticketPrice: offer?.price || null,
+      ticketInfo: offer?.description || null,
+      maxAttendees: null,
+      currentAttendees: null,
+      i18n: {
+        title: pickTranslations(item.name),
+        description: pickTranslations(item.description),
+        venueName: {},
+        url: item.info_url ? { fi: item.info_url } : {}
+      }
+    };
+  }
+};
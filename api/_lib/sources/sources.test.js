@@ -0,0 +1,271 @@
+import { readFileSync } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FUNCTION_BUDGET_MS, SOURCES, normalizeItems, runSource } from "./index.js";
+import linkedevents from "./linkedevents.js";
+import myhelsinki from "./myhelsinki.js";
+import eventbrite from "./eventbrite.js";
+import meetup from "./meetup.js";
+
+// Recorded API responses (trimmed to a few items each)
+const fixture = name => JSON.parse(readFileSync(new URL(`./__fixtures__/${name}.json`, import.meta.url), "utf8"));
+
+const NOW = Date.parse("2026-06-12T12:00:00Z");
+const CTX = { bounds: null, dateWindow: null, now: NOW };
+const RETRY_DELAY_MS = 500;
+
+const json = (data, status = 200) =>
+  new Response(JSON.stringify(data), { status, headers: { "Content-Type": "application/json" } });
+
+// A request that only ends when its signal aborts
+const hang = (url, init) =>
+  new Promise((_, reject) => init.signal.addEventListener("abort", () => reject(init.signal.reason)));
+
+/**
+ * Stub fetch with a handler per request, in order; extra requests fail the test
+ */
+function mockFetch(...handlers) {
+  const fetch = vi.fn(async (url, init) => {
+    const handler = handlers[fetch.mock.calls.length - 1];
+    if (!handler) throw new Error(`Unexpected request: ${url}`);
+    return typeof handler === "function" ? handler(String(url), init) : handler;
+  });
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+}
+
+async function replay(adapter) {
+  const { items } = await adapter.fetchItems({ ...CTX, signal: AbortSignal.timeout(1000) });
+  return normalizeItems(adapter, items, CTX);
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {}); // Failures are logged by the runner
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.stubEnv("EVENTBRITE_API_KEY", "eventbrite-test-key");
+  vi.stubEnv("MEETUP_API_KEY", "meetup-test-key");
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("linkedevents", () => {
+  it("follows meta.next through every page", async () => {
+    const fetch = mockFetch(json(fixture("linkedevents-page1")), json(fixture("linkedevents-page2")));
+    const result = await linkedevents.fetchItems({ ...CTX, signal: AbortSignal.timeout(1000) });
+
+    expect(result.items).toHaveLength(5);
+    expect(result.pagination).toEqual({ pagesFetched: 2, fetched: 5, total: 5, truncated: false });
+    expect(result.incomplete).toBeNull();
+    expect(fetch.mock.calls[1][0]).toBe(fixture("linkedevents-page1").meta.next);
+  });
+
+  it("normalises events, skipping online and unplaced ones and folding series", async () => {
+    mockFetch(json(fixture("linkedevents-page1")), json(fixture("linkedevents-page2")));
+    const events = await replay(linkedevents);
+
+    expect(events.map(e => e.id)).toEqual(["linkedevents_helsinki:agggfz5ewe", "linkedevents_kulke:61200"]);
+
+    const [jazz, series] = events;
+    expect(jazz).toMatchObject({
+      source: "linkedevents",
+      title: "Jazz-ilta Savoyssa",
+      startTime: "2026-06-12T16:00:00Z",
+      endTime: "2026-06-12T19:00:00Z",
+      lat: 60.16703,
+      lng: 24.94866,
+      venueName: "Savoy-teatteri",
+      venueSourceId: "tprek:7254",
+      address: "Kasarmikatu 46-48",
+      category: "music",
+      priceType: "paid",
+      url: "https://www.savoyteatteri.fi/jazz",
+      ticketUrl: "https://www.lippu.fi/savoy-jazz",
+      ticketPrice: "25 €",
+      maxAttendees: 700
+    });
+    expect(jazz.i18n.title).toEqual({ fi: "Jazz-ilta Savoyssa", sv: "Jazzkväll på Savoy", en: "Jazz Night at Savoy" });
+
+    expect(series).toMatchObject({ category: "family", priceType: "free", startTime: "2026-06-13T07:00:00Z" });
+    expect(series.occurrences.map(o => o.id)).toEqual(["linkedevents_kulke:61234", "linkedevents_kulke:61235"]);
+  });
+
+  it("keeps the pages read so far when the read times out, and reports the source degraded", async () => {
+    mockFetch(json(fixture("linkedevents-page1")), hang);
+    const { events, pagination, health } = await runSource({ ...linkedevents, timeoutMs: 50 }, CTX);
+
+    expect(events.map(e => e.id)).toEqual(["linkedevents_helsinki:agggfz5ewe"]);
+    expect(pagination).toMatchObject({ pagesFetched: 1, truncated: true });
+    expect(health).toMatchObject({ status: "degraded", count: 1, attempts: 1, error: "Timed out after 1 page" });
+  });
+
+  it("keeps the pages read so far when a later page fails", async () => {
+    mockFetch(json(fixture("linkedevents-page1")), json({ detail: "Server error" }, 502));
+    const { health } = await runSource(linkedevents, CTX);
+
+    expect(health).toMatchObject({ status: "degraded", count: 1, error: "HTTP 502 after 1 page" });
+  });
+
+  it("retries once when the first page fails", async () => {
+    const fetch = mockFetch(json({}, 503), json({}, 503));
+    const { events, health } = await runSource(linkedevents, CTX);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(events).toEqual([]);
+    expect(health).toMatchObject({ status: "error", attempts: 2, error: "HTTP 503" });
+  });
+});
+
+describe("myhelsinki", () => {
+  it("normalises date-only events and skips senior and unplaced ones", async () => {
+    mockFetch(json(fixture("myhelsinki")));
+    const events = await replay(myhelsinki);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      id: "myhelsinki_helsinki_myhelsinki_7112",
+      source: "myhelsinki",
+      title: "Helsingin Sirkusfestivaali",
+      startTime: "2026-06-12T00:00:00Z",
+      endTime: "2026-06-14T20:59:59.000Z", // End of the day in Helsinki
+      lat: 60.17512,
+      lng: 24.94583,
+      venueName: "Kaisaniemenranta 1",
+      venueSourceId: "4021",
+      city: "Helsinki",
+      category: "arts",
+      priceType: "paid",
+      url: "https://www.myhelsinki.fi/events/circus",
+      ticketUrl: "https://www.tiketti.fi/circus",
+      ticketPrice: "15–30 €",
+      imageUrl: "https://edit.myhelsinki.fi/sites/default/files/circus.jpg"
+    });
+    expect(events[0].i18n.title).toEqual({ fi: "Helsingin Sirkusfestivaali", en: "Helsinki Circus Festival" });
+  });
+
+  it("clips to the date window, which the API doesn't filter by", () => {
+    const items = fixture("myhelsinki").data;
+    const ctx = { ...CTX, dateWindow: { start: "2026-06-15", end: "2026-06-16" } };
+    expect(normalizeItems(myhelsinki, items, ctx)).toEqual([]);
+  });
+});
+
+describe("eventbrite", () => {
+  it("queries around the bounds centre with the API key", async () => {
+    const fetch = mockFetch(json(fixture("eventbrite")));
+    await eventbrite.fetchItems({ ...CTX, bounds: [24.8, 60.1, 25.0, 60.3], signal: AbortSignal.timeout(1000) });
+
+    const [url, init] = fetch.mock.calls[0];
+    const params = new URL(url).searchParams;
+    expect(Number(params.get("location.latitude"))).toBeCloseTo(60.2);
+    expect(Number(params.get("location.longitude"))).toBeCloseTo(24.9);
+    expect(init.headers.Authorization).toBe("Bearer eventbrite-test-key");
+  });
+
+  it("normalises events with a venue and skips the rest", async () => {
+    mockFetch(json(fixture("eventbrite")));
+    const events = await replay(eventbrite);
+
+    expect(events).toEqual([
+      {
+        id: "eventbrite_912345678901",
+        source: "eventbrite",
+        title: "Startup Sauna Demo Day",
+        description: "Pitches from the spring batch.",
+        startTime: "2026-06-12T17:00:00",
+        endTime: "2026-06-12T20:00:00",
+        lat: 60.1842,
+        lng: 24.8266,
+        venueName: "A Grid",
+        venueSourceId: "55501",
+        address: "Otaniementie 14",
+        city: "Espoo",
+        category: "tech",
+        priceType: "free",
+        url: "https://www.eventbrite.com/e/startup-sauna-demo-day-tickets-912345678901",
+        imageUrl: "https://img.evbuc.com/demo-day.png",
+        isLiveNow: false,
+        score: 0
+      }
+    ]);
+  });
+
+  it("is disabled without an API key", async () => {
+    vi.stubEnv("EVENTBRITE_API_KEY", "");
+    const fetch = mockFetch();
+    const { health } = await runSource(eventbrite, CTX);
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(health).toMatchObject({ status: "disabled", error: "Missing EVENTBRITE_API_KEY" });
+  });
+});
+
+describe("normalizeItems", () => {
+  it("clips to Helsinki days, not UTC days", () => {
+    // 01:30 on 13 June in Helsinki, still 12 June in UTC
+    const [item] = fixture("meetup").data.rankedEvents.edges.map(edge => edge.node);
+    const late = { ...item, dateTime: "2026-06-12T22:30:00Z", endTime: "2026-06-12T23:30:00Z" };
+    const on = day => normalizeItems(meetup, [late], { ...CTX, dateWindow: { start: day, end: day } });
+
+    expect(on("2026-06-13")).toHaveLength(1);
+    expect(on("2026-06-12")).toEqual([]);
+  });
+});
+
+describe("meetup", () => {
+  it("posts the GraphQL query around the bounds centre", async () => {
+    const fetch = mockFetch(json(fixture("meetup")));
+    await meetup.fetchItems({ ...CTX, signal: AbortSignal.timeout(1000) });
+
+    const [, init] = fetch.mock.calls[0];
+    expect(init.method).toBe("POST");
+    expect(init.headers.Authorization).toBe("Bearer meetup-test-key");
+    expect(JSON.parse(init.body).variables).toEqual({ lat: 60.1699, lon: 24.9384, radius: 25 });
+  });
+
+  it("normalises events with coordinates and skips online ones", async () => {
+    mockFetch(json(fixture("meetup")));
+    const events = await replay(meetup);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      id: "meetup_301234567",
+      source: "meetup",
+      title: "Helsinki JS: June meetup",
+      startTime: "2026-06-12T18:00+03:00",
+      endTime: "2026-06-12T21:00+03:00",
+      lat: 60.16689,
+      lng: 24.92166,
+      venueName: "Maria 01",
+      category: "tech",
+      priceType: "free",
+      imageUrl: "https://secure.meetupstatic.com/photos/event/helsinkijs.jpeg"
+    });
+  });
+});
+
+describe.each(SOURCES.map(adapter => [adapter.id, adapter]))("%s failures", (id, adapter) => {
+  it("reports an HTTP error without throwing", async () => {
+    mockFetch(json({ error: "unavailable" }, 500));
+    const { events, health } = await runSource({ ...adapter, retries: 0 }, CTX);
+
+    expect(events).toEqual([]);
+    expect(health).toMatchObject({ id, status: "error", attempts: 1, error: "HTTP 500" });
+  });
+
+  it("gives up when an attempt times out", async () => {
+    mockFetch(hang);
+    const { events, health } = await runSource({ ...adapter, retries: 0, timeoutMs: 30 }, CTX);
+
+    expect(events).toEqual([]);
+    expect(health).toMatchObject({ id, status: "error", attempts: 1, error: "Timed out" });
+  });
+
+  it("fits every attempt within the function budget", () => {
+    const attempts = 1 + (adapter.retries || 0);
+    const worstCase = attempts * (adapter.timeoutMs || 10000) + RETRY_DELAY_MS * (attempts - 1) * attempts / 2;
+    expect(worstCase).toBeLessThanOrEqual(FUNCTION_BUDGET_MS);
+  });
+});
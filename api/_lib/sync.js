@@ -0,0 +1,126 @@
+/**
+ * Delta sync bookkeeping for aggregated event payloads.
+ * Each rebuild carries forward a manifest (per-event revision, first-seen and modified times,
+ * plus tombstones for removed ids) so clients can ask for "what changed since updatedAt".
+ */
+import { createHash } from "crypto";
+
+// How long removed ids are remembered; clients older than this get a full resync
+export const TOMBSTONE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * @typedef {Object} ManifestEntry
+ * @property {string} rev - Content hash of the event
+ * @property {number} firstSeenAt - When the id first appeared (ms)
+ * @property {number} modifiedAt - When the content last changed (ms)
+ */
+
+/**
+ * @typedef {Object} SyncManifest
+ * @property {number} trackedSince - Deltas are exact for `since` at or after this (ms)
+ * @property {Object<string, ManifestEntry>} entries - Keyed by event id
+ * @property {Object<string, number>} removed - Tombstones: id -> removedAt (ms)
+ */
+
+function sha1(value) {
+  return createHash("sha1").update(value).digest("hex");
+}
+
+/**
+ * Content revision of an event; computed fields (score, isLiveNow) change every rebuild and are ignored
+ * @param {Object} event
+ * @returns {string}
+ */
+export function eventRevision(event) {
+  const { score, isLiveNow, ...content } = event;
+  return sha1(JSON.stringify(content)).slice(0, 16);
+}
+
+/**
+ * Manifest for a freshly aggregated event list, carrying times forward from the previous one
+ * @param {Object[]} events
+ * @param {SyncManifest|null} previous
+ * @param {number} now
+ * @returns {SyncManifest}
+ */
+export function buildSyncManifest(events, previous, now) {
+  const entries = {};
+  for (const event of events) {
+    const rev = eventRevision(event);
+    const prev = previous?.entries[event.id];
+    entries[event.id] = prev
+      ? { rev, firstSeenAt: prev.firstSeenAt, modifiedAt: prev.rev === rev ? prev.modifiedAt : now }
+      : { rev, firstSeenAt: now, modifiedAt: now };
+  }
+
+  const removed = {};
+  if (previous) {
+    for (const [id, removedAt] of Object.entries(previous.removed)) {
+      if (!entries[id] && now - removedAt < TOMBSTONE_TTL_MS) removed[id] = removedAt;
+    }
+    for (const id of Object.keys(previous.entries)) {
+      if (!entries[id]) removed[id] = now;
+    }
+  }
+
+  // Without a previous manifest we can't know what disappeared before now
+  const trackedSince = previous ? Math.max(previous.trackedSince, now - TOMBSTONE_TTL_MS) : now;
+  return { trackedSince, entries, removed };
+}
+
+/**
+ * Changes since a client's last sync to the top `limit` events, the same set a full response returns.
+ * `ids` lists that whole set, so the client can drop events that fell out of it and resync if it lacks some.
+ * Null if the client must resync: the manifest can't answer exactly (cursor older than the tombstone
+ * retention) or more than `limit` events changed.
+ * @param {Object[]} events - Current events, already filtered and ranked for the request
+ * @param {SyncManifest|undefined} manifest
+ * @param {number} since - The client's previous updatedAt (ms)
+ * @param {Object} [options]
+ * @param {number} [options.limit] - The request's limit
+ * @param {number} [options.now]
+ * @returns {{ added: Object[], changed: Object[], removed: string[], ids: string[] } | null}
+ */
+export function buildDelta(events, manifest, since, { limit = Infinity, now = Date.now() } = {}) {
+  if (!manifest || since < manifest.trackedSince || since < now - TOMBSTONE_TTL_MS) return null;
+
+  const top = events.slice(0, limit);
+  const added = [];
+  const changed = [];
+  for (const event of top) {
+    const entry = manifest.entries[event.id];
+    if (!entry || entry.firstSeenAt > since) added.push(event);
+    else if (entry.modifiedAt > since) changed.push(event);
+  }
+
+  // Events that changed and now fall outside the client's result are gone from its point of view
+  const ids = top.map(e => e.id);
+  const visible = new Set(ids);
+  const removed = Object.keys(manifest.entries).filter(
+    id => manifest.entries[id].modifiedAt > since && manifest.entries[id].firstSeenAt <= since && !visible.has(id)
+  );
+  for (const [id, removedAt] of Object.entries(manifest.removed)) {
+    if (removedAt > since) removed.push(id);
+  }
+
+  // A full (limited) response is smaller than a delta this big
+  if (added.length + changed.length + removed.length > limit) return null;
+
+  return { added, changed, removed, ids };
+}
+
+/**
+ * Weak ETag for a query at an aggregate version. `since` is left out: a client that
+ * already holds this version of the query is up to date whatever it last synced from.
+ * @param {string} updatedAt
+ * @param {URLSearchParams} params
+ * @returns {string}
+ */
+export function computeEtag(updatedAt, params) {
+  const query = [...params.entries()]
+    .filter(([k]) => k !== "since")
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${k}=${v}`)
+    .join("&");
+  return `W/"${sha1(`${updatedAt}?${query}`).slice(0, 20)}"`;
+}
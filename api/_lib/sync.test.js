@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { TOMBSTONE_TTL_MS, buildDelta, buildSyncManifest } from "./sync.js";
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.parse("2026-06-12T12:00:00Z");
+
+const event = (id, title = `Event ${id}`) => ({ id, title, score: 1, isLiveNow: false });
+
+describe("buildDelta", () => {
+  const first = [event("a"), event("b"), event("c")];
+  const v1 = buildSyncManifest(first, null, T0);
+  const second = [event("a"), event("b", "Renamed"), event("d")];
+  const v2 = buildSyncManifest(second, v1, T0 + HOUR);
+
+  it("reports added, changed and removed events since the cursor", () => {
+    const delta = buildDelta(second, v2, T0, { now: T0 + HOUR });
+    expect(delta.added.map(e => e.id)).toEqual(["d"]);
+    expect(delta.changed.map(e => e.id)).toEqual(["b"]);
+    expect(delta.removed).toEqual(["c"]);
+  });
+
+  it("is empty for a client already at the latest version", () => {
+    expect(buildDelta(second, v2, T0 + HOUR, { now: T0 + HOUR })).toEqual({ added: [], changed: [], removed: [], ids: ["a", "b", "d"] });
+  });
+
+  it("forces a resync for cursors from before tracking started", () => {
+    expect(buildDelta(second, v2, T0 - 1, { now: T0 + HOUR })).toBeNull();
+    expect(buildDelta(second, undefined, T0, { now: T0 + HOUR })).toBeNull();
+  });
+
+  it("forces a resync for cursors older than the tombstone retention", () => {
+    expect(buildDelta(second, v2, T0, { now: T0 + TOMBSTONE_TTL_MS + 1 })).toBeNull();
+  });
+
+  it("only covers the top `limit` events a full response would return", () => {
+    const ranked = ["e", "f", "g", "h"].map(id => event(id));
+    const current = buildSyncManifest([...second, ...ranked], v2, T0 + 2 * HOUR);
+    const delta = buildDelta(ranked, current, T0 + HOUR, { limit: 2, now: T0 + 2 * HOUR });
+    expect(delta.added.map(e => e.id)).toEqual(["e", "f"]);
+    expect(delta.ids).toEqual(["e", "f"]);
+  });
+
+  it("lists the result ids so events ranked out of the top `limit` can be dropped", () => {
+    const delta = buildDelta(second, v2, T0 + HOUR, { limit: 2, now: T0 + HOUR });
+    expect(delta).toEqual({ added: [], changed: [], removed: [], ids: ["a", "b"] });
+  });
+
+  it("forces a resync when the delta is bigger than the limit", () => {
+    expect(buildDelta(second, v2, T0, { limit: 3, now: T0 + HOUR })).not.toBeNull();
+    const tombstones = buildSyncManifest([], v2, T0 + 2 * HOUR);
+    expect(buildDelta([], tombstones, T0 + HOUR, { limit: 2, now: T0 + 2 * HOUR })).toBeNull();
+  });
+});
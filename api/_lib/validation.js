@@ -64,6 +64,16 @@ export function validatePlaceId(value) {
   return value;
 }
 
+/**
+ * Validate venue ID format (see _lib/venues.js)
+ */
+export function validateVenueId(value) {
+  if (typeof value !== 'string' || !/^venue_[0-9a-f]{12}$/.test(value)) {
+    throw new Error('Invalid venue ID format');
+  }
+  return value;
+}
+
 /**
  * Validate photo reference format
  */
@@ -141,3 +151,54 @@ export function validateBbox(value) {
   
   return [minLng, minLat, maxLng, maxLat];
 }
+
+/**
+ * Validate calendar date format (YYYY-MM-DD)
+ */
+export function validateDate(value) {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error(`Invalid date: ${value} (expected YYYY-MM-DD)`);
+  }
+  
+  const date = new Date(`${value}T00:00:00Z`);
+  if (isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  
+  return value;
+}
+
+/**
+ * Validate a date window (start/end inclusive, YYYY-MM-DD) with a maximum span
+ */
+export function validateDateRange(start, end, maxDays = 31) {
+  const startDate = validateDate(start);
+  const endDate = end ? validateDate(end) : startDate;
+  
+  const spanDays = (Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000);
+  
+  if (spanDays < 0) {
+    throw new Error('Invalid date range: end must not be before start');
+  }
+  if (spanDays > maxDays) {
+    throw new Error(`Invalid date range: at most ${maxDays} days`);
+  }
+  
+  return { start: startDate, end: endDate };
+}
+
+/**
+ * Validate an ISO 8601 timestamp (e.g. a previous response's updatedAt), returns epoch ms
+ */
+export function validateTimestamp(value) {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}T[\d:.]+(Z|[+-]\d{2}:\d{2})$/.test(value)) {
+    throw new Error(`Invalid timestamp: ${value} (expected ISO 8601)`);
+  }
+  
+  const ms = Date.parse(value);
+  if (isNaN(ms)) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  
+  return ms;
+}
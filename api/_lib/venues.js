@@ -0,0 +1,132 @@
+/**
+ * Venue entities built during aggregation: listings are grouped by their source's place id
+ * (LinkedEvents service map places, Eventbrite/Meetup venue ids), then matched across sources
+ * by distance and name, so every event carries one shared `venue`.
+ */
+import { createHash } from "crypto";
+import { normalizeText, titleSimilarity, distanceMeters } from "./dedupe.js";
+
+// Vercel KV hash of Google place ids by venue id, filled in by /api/google-places searches that match the venue (see matchesVenue)
+export const GOOGLE_PLACE_IDS_KV_KEY = "venues:google-place-ids:v1";
+
+// Two sources' places are the same venue when this close and similarly named (or at the same address)
+const VENUE_MERGE_DISTANCE_M = 75;
+const VENUE_NAME_THRESHOLD = 0.6;
+
+// Which source's name, address and position a venue keeps (earlier = preferred)
+const SOURCE_PRIORITY = ["linkedevents", "eventbrite", "meetup", "myhelsinki"];
+
+/**
+ * @typedef {Object} Venue
+ * @property {string} id - Stable id ("venue_" + hash of the preferred source's place key)
+ * @property {string} name
+ * @property {{ fi?: string, sv?: string, en?: string }} names - Translated names where the source has them
+ * @property {string|null} address - Street address
+ * @property {string} city
+ * @property {number} lat
+ * @property {number} lng
+ * @property {Object<string, string>} sourceIds - Place id per source, e.g. { linkedevents: "tprek:7254" }
+ * @property {string|null} googlePlaceId - Resolved Google Places id, once known
+ */
+
+function priority(source) {
+  const index = SOURCE_PRIORITY.indexOf(source);
+  return index === -1 ? SOURCE_PRIORITY.length : index;
+}
+
+const isKnownName = name => Boolean(name) && name !== "Unknown Venue";
+
+/**
+ * One source's place: its id if the source has one, otherwise position plus name
+ */
+function placeKey(event) {
+  if (event.venueSourceId) return `${event.source}:${event.venueSourceId}`;
+  return `${event.source}:geo:${event.lat.toFixed(4)},${event.lng.toFixed(4)}:${normalizeText(event.venueName)}`;
+}
+
+/**
+ * Same venue across sources: close by, and the names match or one source names the place by its address
+ */
+function samePlace(a, b) {
+  if (distanceMeters(a, b) > VENUE_MERGE_DISTANCE_M) return false;
+  const sameAddress = a.address && b.address && normalizeText(a.address) === normalizeText(b.address);
+  const named = (x, y) => isKnownName(x.name) && isKnownName(y.name) && titleSimilarity(x.name, y.name) >= VENUE_NAME_THRESHOLD;
+  const nameIsAddress = (x, y) => y.address && normalizeText(x.name) === normalizeText(y.address);
+  return sameAddress || named(a, b) || nameIsAddress(a, b) || nameIsAddress(b, a);
+}
+
+/**
+ * Whether a place search was made for this venue: its name (in any language) near its position.
+ * /api/google-places only remembers a search result for a venue when this holds, so a client can't
+ * attach an arbitrary place to a real venue for everyone.
+ * @param {Venue} venue
+ * @param {{ name: string, lat: number, lng: number }} search
+ * @returns {boolean}
+ */
+export function matchesVenue(venue, { name, lat, lng }) {
+  const names = [venue.name, ...Object.values(venue.names || {})].filter(isKnownName).map(normalizeText);
+  return names.includes(normalizeText(name)) && distanceMeters(venue, { lat, lng }) <= VENUE_MERGE_DISTANCE_M;
+}
+
+/**
+ * Group events into venues and attach each event's `venue` (source place fields are folded into it)
+ * @param {Object[]} events - Aggregated, deduplicated events
+ * @param {Object<string, string>} [googlePlaceIds] - Known Google place ids by venue id
+ * @returns {Object[]} Events with `venue`
+ */
+export function buildVenues(events, googlePlaceIds = {}) {
+  // Places per source, preferred sources first so they found the venues
+  const places = new Map();
+  for (const event of events) {
+    const key = placeKey(event);
+    if (!places.has(key)) {
+      places.set(key, {
+        key,
+        source: event.source,
+        sourceId: event.venueSourceId || null,
+        name: event.venueName,
+        names: event.i18n?.venueName || {},
+        address: event.address || null,
+        city: event.city,
+        lat: event.lat,
+        lng: event.lng
+      });
+    }
+  }
+  const ordered = [...places.values()].sort((a, b) => priority(a.source) - priority(b.source));
+
+  const venueByKey = new Map();
+  const venues = [];
+  const venueSources = new Map(); // venue -> sources whose places it holds
+  for (const place of ordered) {
+    // A source's own places stay apart; only other sources' places are matched in
+    let venue = venues.find(v => !venueSources.get(v).has(place.source) && samePlace(v, place));
+    if (!venue) {
+      const id = `venue_${createHash("sha1").update(place.key).digest("hex").slice(0, 12)}`;
+      venue = {
+        id,
+        name: isKnownName(place.name) ? place.name : place.address || place.name,
+        names: { ...place.names },
+        address: place.address,
+        city: place.city,
+        lat: place.lat,
+        lng: place.lng,
+        sourceIds: {},
+        googlePlaceId: googlePlaceIds[id] || null
+      };
+      venues.push(venue);
+      venueSources.set(venue, new Set());
+    } else {
+      venue.names = { ...place.names, ...venue.names };
+      venue.address = venue.address || place.address;
+    }
+    venueSources.get(venue).add(place.source);
+    if (place.sourceId) venue.sourceIds[place.source] = place.sourceId;
+    venueByKey.set(place.key, venue);
+  }
+
+  return events.map(event => {
+    const { venueSourceId, address, ...rest } = event;
+    return { ...rest, venue: venueByKey.get(placeKey(event)) };
+  });
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { buildVenues, matchesVenue } from "./venues.js";
+
+function event(overrides = {}) {
+  return {
+    id: "linkedevents_1",
+    source: "linkedevents",
+    title: "Jazz Night",
+    startTime: "2026-06-12T16:00:00Z",
+    lat: 60.16703,
+    lng: 24.94866,
+    venueName: "Savoy-teatteri",
+    venueSourceId: "tprek:7254",
+    address: "Kasarmikatu 46-48",
+    city: "Helsinki",
+    i18n: { venueName: { fi: "Savoy-teatteri", sv: "Savoy-teatern" } },
+    ...overrides
+  };
+}
+
+describe("buildVenues", () => {
+  it("attaches known Google place ids by venue id", () => {
+    const [first] = buildVenues([event()]);
+    const [again] = buildVenues([event()], { [first.venue.id]: "ChIJ-savoy" });
+    expect(again.venue).toMatchObject({ id: first.venue.id, googlePlaceId: "ChIJ-savoy" });
+  });
+});
+
+describe("matchesVenue", () => {
+  const [{ venue }] = buildVenues([event()]);
+
+  it("accepts the venue's name in any language at its position", () => {
+    expect(matchesVenue(venue, { name: "Savoy-teatteri", lat: 60.16703, lng: 24.94866 })).toBe(true);
+    expect(matchesVenue(venue, { name: "savoy teatern", lat: 60.1673, lng: 24.9489 })).toBe(true);
+  });
+
+  it("rejects another name", () => {
+    expect(matchesVenue(venue, { name: "Tavastia", lat: 60.16703, lng: 24.94866 })).toBe(false);
+  });
+
+  it("rejects a search far from the venue", () => {
+    expect(matchesVenue(venue, { name: "Savoy-teatteri", lat: 60.1699, lng: 24.9384 })).toBe(false);
+  });
+});
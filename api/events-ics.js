@@ -0,0 +1,82 @@
+// Subscribable iCalendar feed for a saved filter set, built from the events-lite aggregate (same KV cache and dedupe)
+import { createRateLimiter, addRateLimitHeaders } from './_lib/rateLimiter.js';
+import { validateString, validateCategory, validateBbox, validateNumber } from './_lib/validation.js';
+import { buildIcs } from '../shared/ics.js';
+import { hasEnded } from '../shared/eventTime.js';
+import { getEventsPayload, filterEvents } from './events-lite.js';
+
+// Calendar apps poll on their own schedule; this is generous for a whole team subscribing
+const rateLimiter = createRateLimiter({ maxRequests: 60, windowMs: 15 * 60 * 1000 });
+
+// Suggested polling interval for subscribers (REFRESH-INTERVAL / X-PUBLISHED-TTL)
+const REFRESH_MINUTES = 60;
+
+/**
+ * Calendar name describing the filter set, e.g. "Helsinki Hotspots – music, food · free"
+ */
+function describeFeed({ categories, freeOnly, q }) {
+  const parts = [];
+  if (categories.length) parts.push(categories.join(", "));
+  if (freeOnly) parts.push("free");
+  if (q) parts.push(`"${q}"`);
+  return parts.length ? `Helsinki Hotspots – ${parts.join(" · ")}` : "Helsinki Hotspots";
+}
+
+export default async function handler(req, res) {
+  try {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.setHeader("Allow", "GET, HEAD");
+      return res.status(405).end();
+    }
+
+    // Rate limiting
+    const limitResult = rateLimiter(req);
+    addRateLimitHeaders(res, limitResult);
+
+    if (!limitResult.allowed) {
+      return res.status(429).json({
+        error: "Too many requests",
+        retryAfter: limitResult.resetTime
+      });
+    }
+
+    // Parse and validate query parameters (same meaning as /api/events-lite; category may list several)
+    const url = new URL(req.url, "https://dummy.local");
+    let filters;
+    let limit;
+    try {
+      const categoryParam = url.searchParams.get("category");
+      const qParam = url.searchParams.get("q");
+      const bboxParam = url.searchParams.get("bbox");
+      filters = {
+        categories: categoryParam ? categoryParam.split(",").map(c => validateCategory(c.trim())) : [],
+        freeOnly: url.searchParams.get("freeOnly") === "true",
+        q: qParam ? validateString(qParam, 200).toLowerCase() : "",
+        bounds: bboxParam ? validateBbox(bboxParam) : null
+      };
+      limit = validateNumber(url.searchParams.get("limit") || "500", 1, 1000);
+    } catch (err) {
+      return res.status(400).json({ error: "Invalid parameters", message: err.message });
+    }
+
+    // Upcoming events from today; no bounds here so we share the default aggregate cache
+    const now = Date.now();
+    const payload = await getEventsPayload({ now });
+    const events = filterEvents(payload.data, filters)
+      .filter(e => !hasEnded(e, now))
+      .sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime))
+      .slice(0, limit);
+
+    const ics = buildIcs(events, { calendarName: describeFeed(filters), refreshMinutes: REFRESH_MINUTES });
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", 'inline; filename="helsinki-hotspots.ics"');
+    res.setHeader("Cache-Control", "public, s-maxage=300, stale-while-revalidate=600");
+    return res.status(200).send(req.method === "HEAD" ? "" : ics);
+  } catch (err) {
+    console.error("ICS feed error:", err);
+    return res
+      .status(500)
+      .json({ error: "events-ics failed", message: err?.message || String(err) });
+  }
+}
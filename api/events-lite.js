@@ -8,14 +8,32 @@ import {
   validateString,
   validateCategory,
   validateNumber,
-  validateBbox
+  validateBbox,
+  validateDateRange,
+  validateTimestamp
 } from './_lib/validation.js';
+import { buildSyncManifest, buildDelta, computeEtag, TOMBSTONE_TTL_MS } from './_lib/sync.js';
+import { isLiveNow } from '../shared/eventTime.js';
+import { fetchAllSources, withLastSuccess } from './_lib/sources/index.js';
+import { dedupeEvents } from './_lib/dedupe.js';
+import { buildVenues, GOOGLE_PLACE_IDS_KV_KEY } from './_lib/venues.js';
+import { buildSearchIndex, searchIndex, buildSnippets } from '../shared/search.js';
 
-const KV_KEY = "events:aggregated:v3";
+const KV_KEY = "events:aggregated:v9";
 const KV_TTL_SEC = 300; // 5 minutes
 
-let CACHE = { at: 0, json: null }; // in-memory micro-cache per running instance
+// Latest per-source health (any window), kept long enough to remember when a source last worked
+const SOURCES_KV_KEY = "events:sources:v1";
+const SOURCES_KV_TTL_SEC = 7 * 24 * 60 * 60;
+let lastSourceHealth = null;
+
+// In-memory micro-cache per running instance, keyed by date window ("" = upcoming from today)
+const CACHE = new Map();
 const TTL_MS = 90 * 1000; // 90 seconds
+const MAX_CACHED_WINDOWS = 20;
+
+// Full-text index per aggregated event list, built when a payload is cached
+const SEARCH_INDEXES = new WeakMap();
 
 // Rate limiter: 50 requests per 15 minutes per IP (lower than google-places since this is heavier)
 const rateLimiter = createRateLimiter({ maxRequests: 50, windowMs: 15 * 60 * 1000 });
@@ -55,43 +73,35 @@ const isVercelPreview = (origin) => {
  * @property {string|null} imageUrl - Event image URL
  * @property {boolean} isLiveNow - Computed: true if currently happening
  * @property {number} score - Computed: ranking score based on distance, live status, etc.
+ * @property {EventTranslations} [i18n] - All available fi/sv/en translations (title etc. hold the Finnish-first default)
+ * @property {string} [seriesId] - LinkedEvents super_event id for recurring series
+ * @property {EventOccurrence[]} [occurrences] - All dates of a grouped series (startTime/endTime hold the next one)
+ * @property {string[]} [mergedFrom] - Ids of the cross-source listings merged into this event (the richest one keeps its id)
+ * @property {Object<string, string>} [provenance] - Source each merged field was taken from, e.g. { imageUrl: "myhelsinki" }
+ * @property {import('./_lib/venues.js').Venue} venue - Shared venue entity (id, names, address, source place ids)
+ * @property {{ score: number, snippets: Object }} [match] - Search relevance and highlighted snippets (only with `q`)
  */
 
-// ==================== HELPER FUNCTIONS ====================
+/**
+ * @typedef {Object} EventOccurrence
+ * @property {string} id - Source-prefixed id of the individual occurrence
+ * @property {string} startTime - ISO 8601 datetime
+ * @property {string|null} endTime - ISO 8601 datetime
+ */
 
 /**
- * Normalize category from keywords/tags
+ * @typedef {Object} EventTranslations
+ * @property {LocalizedText} title
+ * @property {LocalizedText} description
+ * @property {LocalizedText} venueName
+ * @property {LocalizedText} url
  */
-function normalizeCategory(keywords) {
-  const text = keywords.join(" ").toLowerCase();
-  
-  if (/(music|musiikki|concert|konsertti|band|dj|live music)/.test(text)) return "music";
-  if (/(food|ruoka|restaurant|ravintola|street food|culinary|cooking)/.test(text)) return "food";
-  if (/(sport|urheilu|game|ottelu|marathon|juoksu|fitness|yoga)/.test(text)) return "sports";
-  if (/(family|perhe|kids|lapset|children|child)/.test(text)) return "family";
-  if (/(art|taide|museum|gallery|exhibition|näyttely|performance)/.test(text)) return "arts";
-  if (/(tech|technology|startup|coding|programming|meetup|hackathon)/.test(text)) return "tech";
-  if (/(night|club|party|dance|nightlife|yö)/.test(text)) return "nightlife";
-  
-  return "other";
-}
 
 /**
- * Calculate if event is currently live
+ * @typedef {{ fi?: string, sv?: string, en?: string }} LocalizedText
  */
-function isLiveNow(event) {
-  const now = Date.now();
-  const start = new Date(event.startTime).getTime();
-  
-  if (event.endTime) {
-    const end = new Date(event.endTime).getTime();
-    return now >= start && now <= end;
-  }
-  
-  // If no end time, assume 2-hour duration
-  const assumedEnd = start + (2 * 60 * 60 * 1000);
-  return now >= start && now <= assumedEnd;
-}
+
+// ==================== HELPER FUNCTIONS ====================
 
 /**
  * Calculate distance between two coordinates (Haversine formula)
@@ -156,485 +166,235 @@ function scoreEvent(event, userLat, userLng, now) {
 }
 
 /**
- * Deduplicate events that appear in multiple sources
+ * Search index for an aggregated event list, built on first use
+ * @param {HotspotEvent[]} events
+ * @returns {import('../shared/search.js').SearchIndex}
  */
-function dedupeEvents(events) {
-  const seen = new Map();
-  
-  for (const event of events) {
-    // Create a fuzzy key: normalize title + venue + start time (to nearest hour)
-    const normalizedTitle = event.title.toLowerCase().trim().replace(/[^\w\s]/g, '');
-    const startHour = new Date(event.startTime).toISOString().slice(0, 13); // YYYY-MM-DDTHH
-    const key = `${normalizedTitle}_${event.venueName.toLowerCase()}_${startHour}`;
-    
-    if (!seen.has(key)) {
-      seen.set(key, event);
-    } else {
-      // Keep the "better" event (prefer one with more data)
-      const existing = seen.get(key);
-      const existingQuality = 
-        (existing.url ? 10 : 0) + 
-        (existing.imageUrl ? 20 : 0) + 
-        (existing.description ? 5 : 0) +
-        (existing.endTime ? 5 : 0);
-      const newQuality = 
-        (event.url ? 10 : 0) + 
-        (event.imageUrl ? 20 : 0) + 
-        (event.description ? 5 : 0) +
-        (event.endTime ? 5 : 0);
-      
-      if (newQuality > existingQuality) {
-        seen.set(key, event);
-      }
-    }
+function getSearchIndex(events) {
+  let index = SEARCH_INDEXES.get(events);
+  if (!index) {
+    index = buildSearchIndex(events);
+    SEARCH_INDEXES.set(events, index);
+  }
+  return index;
+}
+
+/**
+ * Store a payload in the in-memory cache (indexing it for search), evicting the oldest window when full
+ */
+function setCached(windowKey, json, at) {
+  getSearchIndex(json.data);
+  CACHE.delete(windowKey);
+  CACHE.set(windowKey, { at, json });
+  if (CACHE.size > MAX_CACHED_WINDOWS) {
+    CACHE.delete(CACHE.keys().next().value);
   }
-  
-  return Array.from(seen.values());
 }
 
-// ==================== DATA SOURCE ADAPTERS ====================
+// ==================== AGGREGATION ====================
 
 /**
- * Fetch events from Helsinki LinkedEvents API
+ * Read bookkeeping that outlives the payload (sync manifest, source health); null if KV is unavailable
+ * @param {string} key
+ * @returns {Promise<any>}
  */
-async function fetchLinkedEvents(bounds) {
+async function getKvState(key) {
   try {
-    const now = new Date().toISOString().split('T')[0];
-    const url = `https://api.hel.fi/linkedevents/v1/event/?page_size=500&start=${now}&include=location&sort=start_time`;
-    
-    const response = await fetch(url, { 
-      headers: { Accept: "application/json" },
-      signal: AbortSignal.timeout(10000) // 10s timeout
-    });
-    
-    if (!response.ok) return [];
-    
-    const data = await response.json();
-    const events = [];
-    
-    for (const item of data.data || []) {
-      // Must have location with coordinates
-      if (!item.location?.position?.coordinates) continue;
-      
-      const [lng, lat] = item.location.position.coordinates;
-      
-      // Skip online/virtual events (check venue name and description)
-      const venueName = (item.location?.name?.fi || item.location?.name?.en || "").toLowerCase();
-      const description = (item.description?.fi || item.description?.en || "").toLowerCase();
-      const title = (item.name?.fi || item.name?.en || item.name?.sv || "").toLowerCase();
-      
-      if (
-        venueName.includes("internet") ||
-        venueName.includes("online") ||
-        venueName.includes("verkko") ||
-        venueName.includes("video") ||
-        venueName.includes("zoom") ||
-        venueName.includes("stream") ||
-        venueName.includes("etä") || // remote in Finnish
-        description.includes("online-tapahtuma") ||
-        description.includes("online event") ||
-        description.includes("virtual event") ||
-        description.includes("etätapahtuma") ||
-        description.includes("zoom") ||
-        description.includes("streamattava") ||
-        description.includes("streamattava") ||
-        title.includes("online") ||
-        title.includes("verkossa") ||
-        title.includes("zoom") ||
-        title.includes("stream")
-      ) {
-        continue;
-      }
-      
-      // Skip events for seniors/retirees
-      if (
-        title.includes("eläkeläis") ||
-        title.includes("eläkeläin") ||
-        title.includes("seniorei") ||
-        title.includes("ikäihmis") ||
-        title.includes("senior") ||
-        description.includes("eläkeläis") ||
-        description.includes("eläkeläin") ||
-        description.includes("seniorei") ||
-        description.includes("ikäihmis") ||
-        venueName.includes("eläkeläis") ||
-        venueName.includes("seniorei")
-      ) {
-        continue;
-      }
-      
-      // Filter by bounds if provided
-      if (bounds) {
-        const [minLng, minLat, maxLng, maxLat] = bounds;
-        if (lng < minLng || lng > maxLng || lat < minLat || lat > maxLat) continue;
-      }
-      
-      const eventTitle = item.name?.fi || item.name?.en || item.name?.sv || "Event";
-      const eventDescription = item.description?.fi || item.description?.en || "";
-      const keywords = (item.keywords || []).map(k => k.name?.fi || k.name?.en || "");
-      const offers = item.offers || [];
-      const priceType = offers.some(o => o.is_free) ? "free" : "paid";
-      
-      // Extract ticket information from offers
-      let ticketUrl = null;
-      let ticketPrice = null;
-      let ticketInfo = null;
-      
-      if (offers.length > 0) {
-        const offer = offers[0];
-        ticketUrl = offer.info_url?.fi || offer.info_url?.en || null;
-        
-        // Get price information
-        if (offer.price?.fi) {
-          ticketPrice = offer.price.fi;
-        } else if (offer.price?.en) {
-          ticketPrice = offer.price.en;
-        }
-        
-        // Get additional info
-        if (offer.description?.fi) {
-          ticketInfo = offer.description.fi;
-        } else if (offer.description?.en) {
-          ticketInfo = offer.description.en;
-        }
-      }
-      
-      // Try to get registration info for attendee count
-      const audienceMaxSize = item.audience_max_age || null;
-      const registrationUrl = item.registration?.signup_url || null;
-      
-      events.push({
-        id: `linkedevents_${item.id}`,
-        source: "linkedevents",
-        title: eventTitle,
-        description: eventDescription,
-        startTime: item.start_time,
-        endTime: item.end_time || null,
-        lat,
-        lng,
-        venueName: item.location?.name?.fi || item.location?.name?.en || "Unknown Venue",
-        city: "Helsinki",
-        category: normalizeCategory(keywords),
-        priceType,
-        url: item.info_url?.fi || item.info_url?.en || ticketUrl || null,
-        imageUrl: item.images?.[0]?.url || null,
-        isLiveNow: false, // Will be computed later
-        score: 0, // Will be computed later
-        ticketUrl: ticketUrl || registrationUrl || item.info_url?.fi || item.info_url?.en || null,
-        ticketPrice: ticketPrice,
-        ticketInfo: ticketInfo,
-        maxAttendees: item.maximum_attendee_capacity || null,
-        currentAttendees: item.enrolment_count || null
-      });
+    if (process.env.KV_REST_API_URL) {
+      return await kv.get(key);
     }
-    
-    return events;
-  } catch (error) {
-    console.error("LinkedEvents fetch error:", error);
-    return [];
+  } catch (e) {
+    // KV not available, start fresh
   }
+  return null;
 }
 
 /**
- * Fetch events from MyHelsinki API (fallback/supplementary)
+ * Google place ids resolved so far, by venue id (empty if KV is unavailable)
+ * @returns {Promise<Object<string, string>>}
  */
-async function fetchMyHelsinkiEvents(bounds) {
+async function getGooglePlaceIds() {
   try {
-    const url = "https://open-api.myhelsinki.fi/v2/events/?limit=500";
-    
-    const response = await fetch(url, { 
-      headers: { Accept: "application/json" },
-      signal: AbortSignal.timeout(10000)
-    });
-    
-    if (!response.ok) return [];
-    
-    const data = await response.json();
-    const events = [];
-    
-    for (const item of data.data || []) {
-      const loc = item.location || {};
-      if (!loc.lat || !loc.lon) continue;
+    if (process.env.KV_REST_API_URL) {
+      return (await kv.hgetall(GOOGLE_PLACE_IDS_KV_KEY)) || {};
+    }
+  } catch (e) {
+    // KV not available, venues go without place ids
+  }
+  return {};
+}
+
+/**
+ * A venue from the aggregated events this instance or KV already has, without rebuilding; null if unknown.
+ * Used by /api/google-places to check a search against the venue before remembering its place id.
+ * @param {string} venueId
+ * @returns {Promise<import('./_lib/venues.js').Venue|null>}
+ */
+export async function findVenue(venueId) {
+  const payloads = [...CACHE.values()].map(entry => entry.json);
+  const kvPayload = await getKvState(KV_KEY);
+  if (kvPayload) payloads.push(kvPayload);
+
+  for (const payload of payloads) {
+    const event = payload.data?.find(e => e.venue?.id === venueId);
+    if (event) return event.venue;
+  }
+  return null;
+}
+
+/**
+ * Latest per-source health report from any window's rebuild, rebuilding the default window if there is none yet.
+ * Used by /api/health.
+ * @returns {Promise<{ updatedAt: string|null, sources: import('./_lib/sources/index.js').SourceHealth[] }>}
+ */
+export async function getSourceHealth() {
+  const state = (await getKvState(SOURCES_KV_KEY)) || lastSourceHealth;
+  if (state) return state;
+
+  const payload = await getEventsPayload();
+  return { updatedAt: payload.updatedAt, sources: payload.sources || [] };
+}
+
+/**
+ * Aggregated, deduplicated and scored events for a date window, served from the
+ * in-memory micro-cache or Vercel KV when fresh. Shared with /api/events-ics.
+ * @param {Object} [options]
+ * @param {{ start: string, end: string }|null} [options.dateWindow] - Planning window, null = upcoming from today
+ * @param {number[]|null} [options.bounds] - [minLng, minLat, maxLng, maxLat] passed to the source fetches
+ * @param {number} [options.lat] - Latitude for distance scoring
+ * @param {number} [options.lng] - Longitude for distance scoring
+ * @param {number} [options.now]
+ * @returns {Promise<{ updatedAt: string, count: number, pagination: Object, sources: import('./_lib/sources/index.js').SourceHealth[], data: HotspotEvent[], sync: import('./_lib/sync.js').SyncManifest }>}
+ */
+export async function getEventsPayload({ dateWindow = null, bounds = null, lat = 60.1699, lng = 24.9384, now = Date.now() } = {}) {
+  const windowKey = dateWindow ? `${dateWindow.start}:${dateWindow.end}` : "";
+  const kvKey = dateWindow ? `${KV_KEY}:${windowKey}` : KV_KEY;
+
+  let payload;
+  const cached = CACHE.get(windowKey);
+  
+  // Fast path: in-memory cache (90s micro-TTL)
+  if (cached && now - cached.at < TTL_MS) {
+    payload = cached.json;
+  } else {
+    // Try Vercel KV cache (5m TTL)
+    let kvPayload = null;
+    try {
+      if (process.env.KV_REST_API_URL) {
+        kvPayload = await kv.get(kvKey);
+      }
+    } catch (e) {
+      // KV not available or failed, continue to fetch
+    }
+
+    if (kvPayload && kvPayload.updatedAt) {
+      // KV hit - use cached data
+      payload = kvPayload;
+      setCached(windowKey, payload, now);
+    } else {
+      // KV miss or unavailable - fetch from all enabled sources in parallel
+      console.log("Fetching from all event sources...");
       
-      // Skip online/virtual events
-      const venueName = (loc.address?.street_address || "").toLowerCase();
-      const description = (item.description?.fi || item.description?.en || "").toLowerCase();
-      const title = (item.name?.fi || item.name?.en || "").toLowerCase();
+      const fetched = await fetchAllSources({ bounds, dateWindow, now });
+      console.log(`Fetched: ${fetched.health.map(h => `${h.id}=${h.status === "ok" ? h.count : h.status === "degraded" ? `${h.count} (degraded)` : h.status}`).join(", ")}`);
       
-      if (
-        venueName.includes("internet") ||
-        venueName.includes("online") ||
-        venueName.includes("verkko") ||
-        venueName.includes("video") ||
-        venueName.includes("zoom") ||
-        venueName.includes("stream") ||
-        venueName.includes("etä") || // remote in Finnish
-        description.includes("online-tapahtuma") ||
-        description.includes("online event") ||
-        description.includes("virtual event") ||
-        description.includes("etätapahtuma") ||
-        description.includes("zoom") ||
-        description.includes("streamattava") ||
-        title.includes("online") ||
-        title.includes("verkossa") ||
-        title.includes("zoom") ||
-        title.includes("stream")
-      ) {
-        continue;
-      }
+      // Merge all events
+      let allEvents = fetched.events;
       
-      // Skip events for seniors/retirees
-      if (
-        title.includes("eläkeläis") ||
-        title.includes("eläkeläin") ||
-        title.includes("seniorei") ||
-        title.includes("ikäihmis") ||
-        title.includes("senior") ||
-        description.includes("eläkeläis") ||
-        description.includes("eläkeläin") ||
-        description.includes("seniorei") ||
-        description.includes("ikäihmis") ||
-        venueName.includes("eläkeläis") ||
-        venueName.includes("seniorei")
-      ) {
-        continue;
-      }
+      // Deduplicate events
+      allEvents = dedupeEvents(allEvents);
+      console.log(`After deduplication: ${allEvents.length} events`);
       
-      // Filter by bounds if provided
-      if (bounds) {
-        const [minLng, minLat, maxLng, maxLat] = bounds;
-        if (loc.lon < minLng || loc.lon > maxLng || loc.lat < minLat || loc.lat > maxLat) continue;
+      // Group into venues
+      allEvents = buildVenues(allEvents, await getGooglePlaceIds());
+      
+      // Compute isLiveNow and score for each event
+      for (const event of allEvents) {
+        event.isLiveNow = isLiveNow(event, now);
+        event.score = scoreEvent(event, lat, lng, now);
       }
       
-      const eventTitle = item.name?.fi || item.name?.en || "Event";
-      const eventDescription = item.description?.fi || item.description?.en || "";
-      const tags = (item.tags || []).map(t => t.name || "");
-      const offers = item.offers || [];
-      const priceType = offers.some(o => o.is_free) ? "free" : "paid";
-      const startDay = item.event_dates?.starting_day;
+      // Carry per-event revisions forward so clients can sync deltas
+      const builtAt = Date.now();
+      const previousSync = cached?.json.sync || await getKvState(`${kvKey}:sync`);
+      const sync = buildSyncManifest(allEvents, previousSync, builtAt);
       
-      // Skip if no start date
-      if (!startDay) continue;
+      // Per-source health; lastSuccessAt survives failed rebuilds
+      const previousHealth = (await getKvState(SOURCES_KV_KEY)) || lastSourceHealth;
+      const sources = withLastSuccess(fetched.health, previousHealth?.sources || null, builtAt);
+      const updatedAt = new Date(builtAt).toISOString();
+      lastSourceHealth = { updatedAt, sources };
       
-      // Extract ticket information
-      let ticketUrl = null;
-      let ticketPrice = null;
-      let ticketInfo = null;
+      payload = { 
+        updatedAt, 
+        count: allEvents.length, 
+        pagination: fetched.pagination,
+        sources,
+        data: allEvents,
+        sync
+      };
       
-      if (offers.length > 0) {
-        const offer = offers[0];
-        ticketUrl = offer.url || null;
-        ticketPrice = offer.price || null;
-        ticketInfo = offer.description || null;
-      }
+      setCached(windowKey, payload, now);
       
-      events.push({
-        id: `myhelsinki_${item.id}`,
-        source: "myhelsinki",
-        title: eventTitle,
-        description: eventDescription,
-        startTime: `${startDay}T00:00:00Z`, // MyHelsinki only provides date, not time
-        endTime: item.event_dates?.ending_day ? `${item.event_dates.ending_day}T23:59:59Z` : null,
-        lat: loc.lat,
-        lng: loc.lon,
-        venueName: loc.address?.street_address || "Unknown Venue",
-        city: loc.address?.locality || "Helsinki",
-        category: normalizeCategory(tags),
-        priceType,
-        url: item.info_url || ticketUrl || null,
-        imageUrl: item.description?.images?.[0]?.url || null,
-        isLiveNow: false,
-        score: 0,
-        ticketUrl: ticketUrl || item.info_url || null,
-        ticketPrice: ticketPrice,
-        ticketInfo: ticketInfo,
-        maxAttendees: null,
-        currentAttendees: null
-      });
+      // Store in KV with 5m TTL, manifest for as long as tombstones live (fire and forget)
+      try {
+        if (process.env.KV_REST_API_URL) {
+          kv.set(kvKey, payload, { ex: KV_TTL_SEC }).catch(() => {});
+          kv.set(`${kvKey}:sync`, sync, { ex: TOMBSTONE_TTL_MS / 1000 }).catch(() => {});
+          kv.set(SOURCES_KV_KEY, lastSourceHealth, { ex: SOURCES_KV_TTL_SEC }).catch(() => {});
+        }
+      } catch (e) {
+        // Silently ignore KV errors
+      }
     }
-    
-    return events;
-  } catch (error) {
-    console.error("MyHelsinki fetch error:", error);
-    return [];
   }
+
+  return payload;
 }
 
 /**
- * Fetch events from Eventbrite API
- * Requires EVENTBRITE_API_KEY environment variable
+ * Apply query filters to aggregated events. With a search query only matching events are kept,
+ * as copies carrying `match: { score, snippets }`.
+ * @param {HotspotEvent[]} events - An aggregated list (payload.data), so its search index can be reused
+ * @param {Object} filters
+ * @param {string} [filters.q] - Search text (title, venue, category, description; stemmed and typo-tolerant)
+ * @param {string[]} [filters.categories] - Keep events in any of these categories
+ * @param {boolean} [filters.freeOnly]
+ * @param {boolean} [filters.liveOnly]
+ * @param {number[]|null} [filters.bounds] - [minLng, minLat, maxLng, maxLat]
+ * @returns {HotspotEvent[]}
  */
-async function fetchEventbriteEvents(bounds) {
-  const apiKey = process.env.EVENTBRITE_API_KEY;
-  if (!apiKey) {
-    console.log("Eventbrite API key not configured, skipping");
-    return [];
-  }
+export function filterEvents(events, { q = "", categories = [], freeOnly = false, liveOnly = false, bounds = null } = {}) {
+  let out = events;
   
-  try {
-    // Default to Helsinki coordinates if no bounds provided
-    const centerLat = bounds ? (bounds[1] + bounds[3]) / 2 : 60.1699;
-    const centerLng = bounds ? (bounds[0] + bounds[2]) / 2 : 24.9384;
-    
-    const now = new Date().toISOString();
-    const url = new URL("https://www.eventbriteapi.com/v3/events/search/");
-    url.searchParams.append("location.latitude", centerLat);
-    url.searchParams.append("location.longitude", centerLng);
-    url.searchParams.append("location.within", "25km");
-    url.searchParams.append("start_date.range_start", now);
-    url.searchParams.append("expand", "venue,category");
-    url.searchParams.append("page_size", "200");
-    
-    const response = await fetch(url.toString(), {
-      headers: { Authorization: `Bearer ${apiKey}` },
-      signal: AbortSignal.timeout(10000)
-    });
-    
-    if (!response.ok) return [];
-    
-    const data = await response.json();
-    const events = [];
-    
-    for (const item of data.events || []) {
-      if (!item.venue?.latitude || !item.venue?.longitude) continue;
-      
-      const lat = parseFloat(item.venue.latitude);
-      const lng = parseFloat(item.venue.longitude);
-      
-      // Filter by bounds if provided
-      if (bounds) {
-        const [minLng, minLat, maxLng, maxLat] = bounds;
-        if (lng < minLng || lng > maxLng || lat < minLat || lat > maxLat) continue;
-      }
-      
-      events.push({
-        id: `eventbrite_${item.id}`,
-        source: "eventbrite",
-        title: item.name?.text || "Event",
-        description: item.description?.text || "",
-        startTime: item.start?.local || item.start?.utc,
-        endTime: item.end?.local || item.end?.utc || null,
-        lat,
-        lng,
-        venueName: item.venue?.name || "Unknown Venue",
-        city: item.venue?.address?.city || "Helsinki",
-        category: item.category?.name ? normalizeCategory([item.category.name]) : "other",
-        priceType: item.is_free ? "free" : "paid",
-        url: item.url || null,
-        imageUrl: item.logo?.url || null,
-        isLiveNow: false,
-        score: 0
+  if (q) {
+    const hits = new Map(searchIndex(getSearchIndex(events), q).map(hit => [hit.id, hit]));
+    out = out
+      .filter(e => hits.has(e.id))
+      .map(e => {
+        const hit = hits.get(e.id);
+        return { ...e, match: { score: hit.score, snippets: buildSnippets(e, hit.terms) } };
       });
-    }
-    
-    return events;
-  } catch (error) {
-    console.error("Eventbrite fetch error:", error);
-    return [];
   }
-}
-
-/**
- * Fetch events from Meetup API
- * Requires MEETUP_API_KEY environment variable
- */
-async function fetchMeetupEvents(bounds) {
-  const apiKey = process.env.MEETUP_API_KEY;
-  if (!apiKey) {
-    console.log("Meetup API key not configured, skipping");
-    return [];
+  
+  if (categories.length > 0) {
+    out = out.filter(e => categories.includes(e.category));
   }
   
-  try {
-    // Meetup GraphQL API endpoint
-    const centerLat = bounds ? (bounds[1] + bounds[3]) / 2 : 60.1699;
-    const centerLng = bounds ? (bounds[0] + bounds[2]) / 2 : 24.9384;
-    
-    const query = `
-      query($lat: Float!, $lon: Float!, $radius: Int!) {
-        rankedEvents(input: {lat: $lat, lon: $lon, radius: $radius, first: 200}) {
-          edges {
-            node {
-              id
-              title
-              description
-              dateTime
-              endTime
-              eventUrl
-              images {
-                baseUrl
-              }
-              venue {
-                name
-                lat
-                lng
-                city
-              }
-              isFree: going {
-                totalCount
-              }
-            }
-          }
-        }
-      }
-    `;
-    
-    const response = await fetch("https://api.meetup.com/gql", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        query,
-        variables: { lat: centerLat, lon: centerLng, radius: 25 }
-      }),
-      signal: AbortSignal.timeout(10000)
-    });
-    
-    if (!response.ok) return [];
-    
-    const data = await response.json();
-    const events = [];
-    
-    for (const edge of data.data?.rankedEvents?.edges || []) {
-      const item = edge.node;
-      if (!item.venue?.lat || !item.venue?.lng) continue;
-      
-      const lat = item.venue.lat;
-      const lng = item.venue.lng;
-      
-      // Filter by bounds if provided
-      if (bounds) {
-        const [minLng, minLat, maxLng, maxLat] = bounds;
-        if (lng < minLng || lng > maxLng || lat < minLat || lat > maxLat) continue;
-      }
-      
-      events.push({
-        id: `meetup_${item.id}`,
-        source: "meetup",
-        title: item.title || "Meetup",
-        description: item.description || "",
-        startTime: item.dateTime,
-        endTime: item.endTime || null,
-        lat,
-        lng,
-        venueName: item.venue.name || "Unknown Venue",
-        city: item.venue.city || "Helsinki",
-        category: "tech", // Meetup events are typically tech/networking
-        priceType: "free", // Most meetups are free
-        url: item.eventUrl || null,
-        imageUrl: item.images?.[0]?.baseUrl || null,
-        isLiveNow: false,
-        score: 0
-      });
-    }
-    
-    return events;
-  } catch (error) {
-    console.error("Meetup fetch error:", error);
-    return [];
+  if (freeOnly) {
+    out = out.filter(e => e.priceType === "free");
   }
+  
+  if (liveOnly) {
+    out = out.filter(e => e.isLiveNow);
+  }
+  
+  if (bounds) {
+    const [minLng, minLat, maxLng, maxLat] = bounds;
+    out = out.filter(e => e.lng >= minLng && e.lng <= maxLng && e.lat >= minLat && e.lat <= maxLat);
+  }
+  
+  return out;
 }
 
 // ==================== MAIN HANDLER ====================
@@ -651,8 +411,9 @@ export default async function handler(req, res) {
       res.setHeader("Access-Control-Allow-Origin", origin);
     }
     
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, If-None-Match");
     res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+    res.setHeader("Access-Control-Expose-Headers", "ETag");
     
     if (req.method === "OPTIONS") return res.status(204).end();
     
@@ -668,7 +429,6 @@ export default async function handler(req, res) {
     }
 
     const now = Date.now();
-    const isFresh = CACHE.json && now - CACHE.at < TTL_MS;
 
     // Parse and validate query parameters
     const url = new URL(req.url, "https://dummy.local");
@@ -689,7 +449,7 @@ export default async function handler(req, res) {
     
     // Validate search query
     const qParam = url.searchParams.get("q");
-    const q = qParam ? validateString(qParam, 200).toLowerCase() : "";
+    const q = qParam ? validateString(qParam, 200) : "";
     
     // Validate category
     const categoryParam = url.searchParams.get("category");
@@ -702,94 +462,26 @@ export default async function handler(req, res) {
     const bboxParam = url.searchParams.get("bbox");
     const bounds = bboxParam ? validateBbox(bboxParam) : null;
     const hasBBox = bounds !== null;
-
-    let payload;
     
-    // Fast path: in-memory cache (90s micro-TTL)
-    if (isFresh) {
-      payload = CACHE.json;
-    } else {
-      // Try Vercel KV cache (5m TTL)
-      let kvPayload = null;
-      try {
-        if (process.env.KV_REST_API_URL) {
-          kvPayload = await kv.get(KV_KEY);
-        }
-      } catch (e) {
-        // KV not available or failed, continue to fetch
-      }
+    // Validate date window if provided (planning mode: start/end as YYYY-MM-DD, inclusive)
+    const startParam = url.searchParams.get("start");
+    const endParam = url.searchParams.get("end");
+    const dateWindow = startParam ? validateDateRange(startParam, endParam) : null;
+    
+    // Delta sync: changes since a previous response's updatedAt
+    const sinceParam = url.searchParams.get("since");
+    const since = sinceParam ? validateTimestamp(sinceParam) : null;
 
-      if (kvPayload && kvPayload.updatedAt) {
-        // KV hit - use cached data
-        payload = kvPayload;
-        CACHE = { at: now, json: payload };
-      } else {
-        // KV miss or unavailable - fetch from all sources in parallel
-        console.log("Fetching from all event sources...");
-        
-        const fetchBounds = hasBBox ? bounds : null;
-        
-        const [linkedEvents, myHelsinkiEvents] = await Promise.all([
-          fetchLinkedEvents(fetchBounds),
-          fetchMyHelsinkiEvents(fetchBounds)
-        ]);
-        
-        console.log(`Fetched: LinkedEvents=${linkedEvents.length}, MyHelsinki=${myHelsinkiEvents.length}`);
-        
-        // Merge all events
-        let allEvents = [...linkedEvents, ...myHelsinkiEvents];
-        
-        // Deduplicate events
-        allEvents = dedupeEvents(allEvents);
-        console.log(`After deduplication: ${allEvents.length} events`);
-        
-        // Compute isLiveNow and score for each event
-        for (const event of allEvents) {
-          event.isLiveNow = isLiveNow(event);
-          event.score = scoreEvent(event, lat, lng, now);
-        }
-        
-        payload = { 
-          updatedAt: new Date().toISOString(), 
-          count: allEvents.length, 
-          data: allEvents 
-        };
-        
-        CACHE = { at: now, json: payload };
-        
-        // Store in KV with 5m TTL (fire and forget)
-        try {
-          if (process.env.KV_REST_API_URL) {
-            kv.set(KV_KEY, payload, { ex: KV_TTL_SEC }).catch(() => {});
-          }
-        } catch (e) {
-          // Silently ignore KV errors
-        }
-      }
-    }
+    const payload = await getEventsPayload({ dateWindow, bounds, lat, lng, now });
 
     // Apply filters
-    let out = payload.data;
-    
-    if (q) {
-      out = out.filter(e => 
-        e.title.toLowerCase().includes(q) || 
-        e.description.toLowerCase().includes(q) ||
-        e.venueName.toLowerCase().includes(q)
-      );
-    }
-    
-    if (category) {
-      out = out.filter(e => e.category === category);
-    }
-    
-    if (freeOnly) {
-      out = out.filter(e => e.priceType === "free");
-    }
-    
-    if (liveOnly) {
-      out = out.filter(e => e.isLiveNow);
-    }
+    let out = filterEvents(payload.data, {
+      q,
+      categories: category ? [category] : [],
+      freeOnly,
+      liveOnly,
+      bounds
+    });
     
     // Distance filter (if not using bbox)
     if (!hasBBox && radiusKm < 50) {
@@ -799,13 +491,42 @@ export default async function handler(req, res) {
       });
     }
     
-    // Sort by score (descending) and limit
-    out = out.sort((a, b) => b.score - a.score).slice(0, limit);
-
     res.setHeader("Cache-Control", "public, s-maxage=60, stale-while-revalidate=120");
+    
+    // Same aggregate version and query means the same body
+    const etag = computeEtag(payload.updatedAt, url.searchParams);
+    res.setHeader("ETag", etag);
+    if (req.headers["if-none-match"] === etag) {
+      return res.status(304).end();
+    }
+    
+    // Sort by search relevance when searching, otherwise by score (descending)
+    out = q
+      ? out.sort((a, b) => b.match.score - a.match.score || b.score - a.score)
+      : out.sort((a, b) => b.score - a.score);
+
+    // Delta: changes to the same top `limit` a full response has; one bigger than `limit` falls back to a full response
+    const delta = since !== null ? buildDelta(out, payload.sync, since, { limit, now }) : null;
+    if (delta) {
+      return res.status(200).json({
+        updatedAt: payload.updatedAt,
+        window: dateWindow,
+        delta: true,
+        since: sinceParam,
+        pagination: payload.pagination || null,
+        sources: payload.sources || [],
+        ...delta
+      });
+    }
+    
+    out = out.slice(0, limit);
+
     return res.status(200).json({ 
       updatedAt: payload.updatedAt, 
+      window: dateWindow,
       count: out.length, 
+      pagination: payload.pagination || null,
+      sources: payload.sources || [],
       data: out 
     });
   } catch (err) {
@@ -3,6 +3,7 @@
  * Server-side endpoint to protect API key
  */
 
+import { kv } from "@vercel/kv";
 import { createRateLimiter, addRateLimitHeaders } from './_lib/rateLimiter.js';
 import {
   validateLatitude,
@@ -11,8 +12,11 @@ import {
   validateString,
   validatePhotoReference,
   validateNumber,
-  validateAction
+  validateAction,
+  validateVenueId
 } from './_lib/validation.js';
+import { GOOGLE_PLACE_IDS_KV_KEY, matchesVenue } from './_lib/venues.js';
+import { findVenue } from './events-lite.js';
 
 const GOOGLE_API_KEY = process.env.GOOGLE_PLACES_API_KEY;
 
@@ -71,14 +75,14 @@ export default async function handler(req, res) {
     const action = req.query.action;
     validateAction(action, ['details', 'search', 'nearby', 'photo']);
     
-    const { placeId, query, lat, lng, radius, type, photoReference, maxWidth } = req.query;
+    const { placeId, query, lat, lng, radius, type, photoReference, maxWidth, venueId } = req.query;
 
     switch (action) {
       case "details":
         return await handlePlaceDetails(req, res, placeId);
       
       case "search":
-        return await handleSearch(req, res, query, lat, lng);
+        return await handleSearch(req, res, query, lat, lng, venueId);
       
       case "nearby":
         return await handleNearby(req, res, lat, lng, radius, type);
@@ -137,7 +141,7 @@ async function handlePlaceDetails(req, res, placeId) {
   return res.status(200).json(data.result);
 }
 
-async function handleSearch(req, res, query, lat, lng) {
+async function handleSearch(req, res, query, lat, lng, venueId) {
   if (!query || !lat || !lng) {
     return res.status(400).json({ error: "query, lat, and lng are required" });
   }
@@ -146,6 +150,7 @@ async function handleSearch(req, res, query, lat, lng) {
   const validQuery = validateString(query, 200);
   const validLat = validateLatitude(lat);
   const validLng = validateLongitude(lng);
+  const validVenueId = venueId ? validateVenueId(venueId) : null;
 
   const url = `https://maps.googleapis.com/maps/api/place/nearbysearch/json?location=${validLat},${validLng}&radius=100&keyword=${encodeURIComponent(validQuery)}&key=${GOOGLE_API_KEY}`;
   
@@ -156,9 +161,19 @@ async function handleSearch(req, res, query, lat, lng) {
     return res.status(404).json({ error: "No places found" });
   }
 
+  // Remember the match so the next aggregation carries the venue's place id, but only for a search
+  // of that venue's own name at its position; the first match stays (place ids are shared by all users)
+  const placeId = data.results[0].place_id;
+  if (validVenueId && process.env.KV_REST_API_URL) {
+    const venue = await findVenue(validVenueId).catch(() => null);
+    if (venue && matchesVenue(venue, { name: validQuery, lat: validLat, lng: validLng })) {
+      kv.hsetnx(GOOGLE_PLACE_IDS_KV_KEY, validVenueId, placeId).catch(() => {});
+    }
+  }
+
   // Return the place_id of the best match, then client can fetch details
   res.setHeader("Cache-Control", "public, s-maxage=3600, stale-while-revalidate=7200");
-  return res.status(200).json({ placeId: data.results[0].place_id });
+  return res.status(200).json({ placeId });
 }
 
 async function handleNearby(req, res, lat, lng, radius = 500, type = "restaurant") {
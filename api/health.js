@@ -0,0 +1,39 @@
+// Event source health: the per-source report from the latest events-lite aggregation
+import { createRateLimiter, addRateLimitHeaders } from './_lib/rateLimiter.js';
+import { overallStatus } from './_lib/sources/index.js';
+import { getSourceHealth } from './events-lite.js';
+
+// Monitors poll this; a cold check can trigger a full aggregation, so keep it bounded
+const rateLimiter = createRateLimiter({ maxRequests: 120, windowMs: 15 * 60 * 1000 });
+
+export default async function handler(req, res) {
+  try {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.setHeader("Allow", "GET, HEAD");
+      return res.status(405).end();
+    }
+
+    // Rate limiting
+    const limitResult = rateLimiter(req);
+    addRateLimitHeaders(res, limitResult);
+
+    if (!limitResult.allowed) {
+      return res.status(429).json({
+        error: "Too many requests",
+        retryAfter: limitResult.resetTime
+      });
+    }
+
+    const { updatedAt, sources } = await getSourceHealth();
+    const status = overallStatus(sources);
+
+    res.setHeader("Cache-Control", "no-store");
+    // 503 only when every enabled source is failing, so uptime checks page on real outages
+    return res.status(status === "down" ? 503 : 200).json({ status, updatedAt, sources });
+  } catch (err) {
+    console.error("Health check error:", err);
+    return res
+      .status(500)
+      .json({ status: "error", error: "health failed", message: err?.message || String(err) });
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Route planning proxy: walking or public transport itineraries to an event
+ * Server-side so the Digitransit subscription key stays private
+ */
+
+import { createRateLimiter, addRateLimitHeaders } from './_lib/rateLimiter.js';
+import { validateLatitude, validateLongitude, validateAction, validateTimestamp } from './_lib/validation.js';
+import { planRoute, ARRIVAL_BUFFER_MS } from './_lib/routing.js';
+
+// Every request is a routing query upstream, so keep it tighter than the events API
+const rateLimiter = createRateLimiter({ maxRequests: 60, windowMs: 15 * 60 * 1000 });
+
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).end();
+  }
+
+  // Rate limiting
+  const limitResult = rateLimiter(req);
+  addRateLimitHeaders(res, limitResult);
+
+  if (!limitResult.allowed) {
+    return res.status(429).json({
+      error: "Too many requests",
+      retryAfter: limitResult.resetTime
+    });
+  }
+
+  let options;
+  try {
+    const { fromLat, fromLng, toLat, toLng, mode = "transit", startTime } = req.query;
+    if (!fromLat || !fromLng || !toLat || !toLng) {
+      return res.status(400).json({ error: "fromLat, fromLng, toLat and toLng are required" });
+    }
+
+    // Arrive a little before a future start; for events already under way, leave now
+    const start = startTime ? validateTimestamp(startTime) : null;
+    const arriveBy = start !== null && start - ARRIVAL_BUFFER_MS > Date.now() ? start - ARRIVAL_BUFFER_MS : null;
+
+    options = {
+      from: { lat: validateLatitude(fromLat), lng: validateLongitude(fromLng) },
+      to: { lat: validateLatitude(toLat), lng: validateLongitude(toLng) },
+      mode: validateAction(mode, ["walk", "transit"]),
+      arriveBy
+    };
+  } catch (err) {
+    return res.status(400).json({ error: err.message });
+  }
+
+  try {
+    const itineraries = await planRoute(options);
+    // Itineraries depend on the current time; let the browser reuse them only briefly
+    res.setHeader("Cache-Control", "private, max-age=60");
+    return res.status(200).json({
+      mode: options.mode,
+      arriveBy: options.arriveBy !== null ? new Date(options.arriveBy).toISOString() : null,
+      itineraries
+    });
+  } catch (err) {
+    console.error("Route planning error:", err);
+    return res.status(502).json({ error: "Route planning failed", message: err?.message || String(err) });
+  }
+}
@@ -1,6 +1,40 @@
 import React from "react";
+import type { SourceHealth } from "../src/types";
+import { HELSINKI_TZ } from "../src/utils/helsinkiTime";
+
+interface DataAttributionProps {
+  sources?: SourceHealth[] | null; // From the aggregator; LinkedEvents is assumed until the first response
+}
+
+const FALLBACK_SOURCES: Pick<SourceHealth, "id" | "name" | "url">[] = [
+  { id: "linkedevents", name: "Helsinki LinkedEvents", url: "https://api.hel.fi/linkedevents/v1/" },
+];
+
+const linkStyle: React.CSSProperties = {
+  color: "#667eea",
+  textDecoration: "none",
+  fontWeight: 600,
+};
+
+function formatLastSuccess(iso: string | null): string {
+  if (!iso) return "no successful fetch yet";
+  const time = new Date(iso).toLocaleString("en-GB", {
+    timeZone: HELSINKI_TZ,
+    day: "numeric",
+    month: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return `last worked ${time}`;
+}
+
+export default function DataAttribution({ sources }: DataAttributionProps) {
+  // Credit sources that contributed events; flag enabled ones that failed
+  const contributing = sources
+    ? sources.filter(s => (s.status === "ok" || s.status === "degraded") && s.count > 0)
+    : FALLBACK_SOURCES;
+  const degraded = sources?.filter(s => s.status === "error" || s.status === "degraded") ?? [];
 
-export default function DataAttribution() {
   return (
     <div
       style={{
@@ -17,6 +51,7 @@ export default function DataAttribution() {
         zIndex: 100,
         display: "flex",
         alignItems: "center",
+        flexWrap: "wrap",
         gap: 6,
         maxWidth: "calc(100% - 16px)",
       }}
@@ -24,32 +59,42 @@ export default function DataAttribution() {
       <span style={{ opacity: 0.7 }}>ℹ️</span>
       <span>
         Data from{" "}
+        {contributing.map(source => (
+          <React.Fragment key={source.id}>
+            {source.url ? (
+              <a href={source.url} target="_blank" rel="noopener noreferrer" style={linkStyle}>
+                {source.name}
+              </a>
+            ) : (
+              <span style={{ fontWeight: 600 }}>{source.name}</span>
+            )}
+            {" · "}
+          </React.Fragment>
+        ))}
         <a
-          href="https://api.hel.fi/linkedevents/v1/"
+          href="https://www.openstreetmap.org/copyright"
           target="_blank"
           rel="noopener noreferrer"
-          style={{
-            color: "#667eea",
-            textDecoration: "none",
-            fontWeight: 600,
-          }}
+          style={linkStyle}
         >
-          Helsinki LinkedEvents
+          OpenStreetMap
         </a>
-        {" · "}
-        <a
-          href="https://www.openstreetmap.org/copyright"
-          target="_blank"
-          rel="noopener noreferrer"
+      </span>
+      {degraded.map(source => (
+        <span
+          key={source.id}
+          title={`${source.error ?? "Unavailable"} · ${formatLastSuccess(source.lastSuccessAt)}`}
           style={{
-            color: "#667eea",
-            textDecoration: "none",
+            color: "#b45309",
+            background: "#fef3c7",
+            borderRadius: 6,
+            padding: "1px 6px",
             fontWeight: 600,
           }}
         >
-          OpenStreetMap
-        </a>
-      </span>
+          ⚠️ {source.name} {source.status === "degraded" ? "incomplete" : "unavailable"}
+        </span>
+      ))}
     </div>
   );
 }
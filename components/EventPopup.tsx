@@ -0,0 +1,296 @@
+import React, { useState } from "react";
+import { VenueDetails } from "./VenueDetails";
+import { downloadIcs, icsFileName, googleCalendarUrl, outlookCalendarUrl } from "../src/utils/calendar";
+import { safeExternalUrl } from "../src/utils/safeUrl";
+import type { HotspotEvent, MapEventProperties } from "../src/types";
+
+interface EventPopupProps {
+  properties: MapEventProperties;
+  coords: [number, number];
+  event?: HotspotEvent; // Full event, for calendar links and the venue's place id
+  onPlanRoute?: (id: string) => void;
+}
+
+const BADGE_STYLE: React.CSSProperties = {
+  color: "#fff",
+  borderRadius: 8,
+  padding: "2px 6px",
+  fontSize: 11,
+  marginLeft: 6,
+  fontWeight: 600,
+};
+
+const URGENCY_STYLE: React.CSSProperties = {
+  color: "#fff",
+  borderRadius: 6,
+  padding: "2px 6px",
+  fontSize: 10,
+  marginLeft: 6,
+  fontWeight: 600,
+};
+
+const LINK_STYLE: React.CSSProperties = {
+  color: "#667eea",
+  fontSize: 12,
+  fontWeight: 600,
+  textDecoration: "none",
+  marginLeft: 8,
+};
+
+function StatusBadge({ properties }: { properties: MapEventProperties }) {
+  if (properties.isLive) return <span style={{ ...BADGE_STYLE, background: "#ff3b3b" }}>LIVE NOW</span>;
+  if (properties.isOpenNow) return <span style={{ ...BADGE_STYLE, background: "#2e7d32" }}>OPEN NOW</span>;
+  if (properties.isStartingSoon) return <span style={{ ...BADGE_STYLE, background: "#ff9800" }}>STARTING SOON</span>;
+  if (properties.isTonight) return <span style={{ ...BADGE_STYLE, background: "#764ba2" }}>TONIGHT</span>;
+  return null;
+}
+
+/**
+ * Attendance against capacity: count, urgency badge and a fill bar
+ */
+function CapacityBar({ current, max }: { current: number; max: number }) {
+  const percentage = Math.round((current / max) * 100);
+  const spotsLeft = max - current;
+
+  let color = "#4CAF50"; // green
+  let text = `${current} / ${max} attendees`;
+  let urgency: { label: string; background: string } | null = null;
+  if (percentage >= 100) {
+    color = "#f44336"; // red
+    text = "Sold Out";
+    urgency = { label: "FULL", background: "#f44336" };
+  } else if (percentage >= 90) {
+    color = "#ff9800"; // orange
+    text = `Only ${spotsLeft} spots left!`;
+    urgency = { label: "ALMOST FULL", background: "#ff9800" };
+  } else if (percentage >= 75) {
+    color = "#ff9800"; // orange
+    text = `${spotsLeft} spots available`;
+    urgency = { label: "SELLING FAST", background: "#ffa726" };
+  }
+
+  return (
+    <div style={{ marginTop: 8, padding: 6, background: "#f5f5f5", borderRadius: 6, fontSize: 12 }}>
+      <span style={{ color, fontWeight: 600 }}>👥 {text}</span>
+      {urgency && <span style={{ ...URGENCY_STYLE, background: urgency.background }}>{urgency.label}</span>}
+      <div
+        role="progressbar"
+        aria-label="Attendance"
+        aria-valuemin={0}
+        aria-valuemax={max}
+        aria-valuenow={Math.min(current, max)}
+        style={{ marginTop: 6, height: 4, borderRadius: 2, background: "#e0e0e0", overflow: "hidden" }}
+      >
+        <div style={{ width: `${Math.min(percentage, 100)}%`, height: "100%", background: color }} />
+      </div>
+    </div>
+  );
+}
+
+export default function EventPopup({ properties, coords, event, onPlanRoute }: EventPopupProps) {
+  const [venueOpen, setVenueOpen] = useState(false);
+  const [venueLoaded, setVenueLoaded] = useState(false); // Keep VenueDetails mounted once fetched
+  const [titleHover, setTitleHover] = useState(false);
+
+  const title = properties.title || "Event";
+  const website = safeExternalUrl(properties.website);
+  const ticketUrl = safeExternalUrl(properties.ticketUrl);
+  const maxAttendees = Number(properties.maxAttendees) || 0;
+  const currentAttendees = Number(properties.currentAttendees) || 0;
+  const isSoldOut = maxAttendees > 0 && currentAttendees >= maxAttendees;
+  const google = event ? safeExternalUrl(googleCalendarUrl(event)) : null;
+  const outlook = event ? safeExternalUrl(outlookCalendarUrl(event)) : null;
+
+  const meta = [properties.category, properties.price, properties.time].filter(Boolean).join(" • ")
+    + ((properties.occurrenceCount ?? 0) > 1 ? ` • 🔁 ${properties.occurrenceCount} dates` : "");
+
+  return (
+    <div style={{ minWidth: 220 }}>
+      <div>
+        {website ? (
+          <a
+            href={website}
+            target="_blank"
+            rel="noreferrer"
+            onMouseEnter={() => setTitleHover(true)}
+            onMouseLeave={() => setTitleHover(false)}
+            style={{
+              color: titleHover ? "#667eea" : "inherit",
+              textDecoration: "none",
+              borderBottom: "2px solid #667eea",
+              transition: "color 0.2s",
+            }}
+          >
+            <strong>{title}</strong>
+          </a>
+        ) : (
+          <strong>{title}</strong>
+        )}
+        <StatusBadge properties={properties} />
+        <div style={{ fontSize: 12, color: "#666", marginTop: 4 }}>{meta}</div>
+
+        {maxAttendees > 0 && <CapacityBar current={currentAttendees} max={maxAttendees} />}
+
+        {properties.ticketPrice && (
+          <div style={{ marginTop: 6, fontSize: 13, color: "#333" }}>
+            <strong>💳 {properties.ticketPrice}</strong>
+          </div>
+        )}
+
+        {ticketUrl && (
+          <a
+            href={ticketUrl}
+            target="_blank"
+            rel="noreferrer"
+            style={{
+              display: "inline-block",
+              marginTop: 8,
+              padding: "8px 16px",
+              borderRadius: 8,
+              textDecoration: "none",
+              fontSize: 13,
+              fontWeight: 600,
+              color: "#fff",
+              ...(isSoldOut
+                ? { background: "#9e9e9e", cursor: "not-allowed" }
+                : {
+                    background: "linear-gradient(135deg,#667eea 0%,#764ba2 100%)",
+                    boxShadow: "0 2px 8px rgba(102,126,234,0.3)",
+                  }),
+            }}
+          >
+            {isSoldOut ? "View Event (Sold Out)" : "🎟️ Buy Tickets"}
+          </a>
+        )}
+
+        {properties.ticketInfo && (
+          <div style={{ marginTop: 6, fontSize: 11, color: "#666", fontStyle: "italic" }}>{properties.ticketInfo}</div>
+        )}
+
+        {event && (
+          <div style={{ marginTop: 8, fontSize: 12, color: "#666" }}>
+            📅{" "}
+            <button
+              onClick={() => downloadIcs([event], icsFileName(event.title), event.title)}
+              style={{
+                background: "none",
+                border: "none",
+                padding: 0,
+                color: "#667eea",
+                fontSize: 12,
+                fontWeight: 600,
+                cursor: "pointer",
+              }}
+            >
+              Add to calendar
+            </button>
+            {google && (
+              <a href={google} target="_blank" rel="noreferrer" style={LINK_STYLE}>
+                Google
+              </a>
+            )}
+            {outlook && (
+              <a href={outlook} target="_blank" rel="noreferrer" style={LINK_STYLE}>
+                Outlook
+              </a>
+            )}
+          </div>
+        )}
+
+        {properties.id && onPlanRoute && (
+          <button
+            onClick={() => onPlanRoute(String(properties.id))}
+            style={{
+              marginTop: 10,
+              padding: "6px 12px",
+              background: "#f0f4ff",
+              border: "1px solid #667eea",
+              borderRadius: 6,
+              cursor: "pointer",
+              fontSize: 12,
+              fontWeight: 600,
+              color: "#667eea",
+              width: "100%",
+              textAlign: "left",
+            }}
+          >
+            🧭 How to get there
+          </button>
+        )}
+
+        <button
+          aria-expanded={venueOpen}
+          onClick={() => {
+            setVenueOpen(!venueOpen);
+            setVenueLoaded(true);
+          }}
+          onMouseEnter={(e) => (e.currentTarget.style.background = "#ebebeb")}
+          onMouseLeave={(e) => (e.currentTarget.style.background = "#f5f5f5")}
+          style={{
+            marginTop: 10,
+            padding: "6px 12px",
+            background: "#f5f5f5",
+            border: "1px solid #ddd",
+            borderRadius: 6,
+            cursor: "pointer",
+            fontSize: 12,
+            width: "100%",
+            textAlign: "left",
+            transition: "background 0.2s",
+          }}
+        >
+          {venueOpen ? "▼ Venue Details" : "▶ View Venue Details"}
+        </button>
+      </div>
+
+      {venueLoaded && coords[1] && coords[0] && (
+        <div style={{ display: venueOpen ? "block" : "none" }}>
+          <VenueDetails
+            venueName={properties.venueName || title}
+            lat={coords[1]}
+            lng={coords[0]}
+            venue={event?.venue}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * List of the events stacked on one point, for stacks too big to spiderfy
+ */
+export function EventStackList({ stack, onSelect }: { stack: MapEventProperties[]; onSelect: (properties: MapEventProperties) => void }) {
+  return (
+    <div style={{ minWidth: 220 }}>
+      <div style={{ fontWeight: 600, fontSize: 13, marginBottom: 6 }}>📍 {stack.length} events here</div>
+      <ul style={{ listStyle: "none", padding: 0, margin: 0, maxHeight: 260, overflowY: "auto", display: "grid", gap: 2 }}>
+        {stack.map((properties, index) => (
+          <li key={properties.id ?? index}>
+            <button
+              onClick={() => onSelect(properties)}
+              onMouseEnter={(e) => (e.currentTarget.style.background = "#f0f4ff")}
+              onMouseLeave={(e) => (e.currentTarget.style.background = "none")}
+              style={{
+                display: "block",
+                width: "100%",
+                textAlign: "left",
+                background: "none",
+                border: "none",
+                borderRadius: 6,
+                padding: 6,
+                cursor: "pointer",
+              }}
+            >
+              <span style={{ display: "block", fontSize: 13, fontWeight: 600, color: "#1a1a1a" }}>
+                {properties.isLive ? "🔴 " : ""}
+                {properties.title || "Event"}
+              </span>
+              <span style={{ display: "block", fontSize: 11, color: "#888" }}>{properties.time}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
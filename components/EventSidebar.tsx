@@ -1,30 +1,29 @@
 import React, { useRef, useEffect, useState } from "react";
 import { SkeletonLoader } from "./SkeletonLoader";
+import SearchAutocomplete from "./SearchAutocomplete";
+import VenuePage from "./VenuePage";
 import { isEventLiked, toggleLikeEvent, getSmartSuggestions, getLikedEvents } from "../src/utils/personalization";
-
-type EventLite = {
-  id: string;
-  title: string;
-  start: string;
-  end?: string;
-  lat: number;
-  lng: number;
-  category: string;
-  price: "free" | "paid";
-  time?: string;
-  website?: string;
-};
+import { saveEvent, unsaveEvent } from "../src/utils/eventStore";
+import { formatEventTime } from "../src/utils/formatEvent";
+import { LANGUAGES, getLocale } from "../src/utils/i18n";
+import { getEventStatus } from "../shared/eventTime";
+import { downloadIcs, icsFileName, googleCalendarUrl, outlookCalendarUrl } from "../src/utils/calendar";
+import { getEventVenue, VenueGroup } from "../src/utils/venues";
+import type { HotspotEvent, Language, SearchSnippets, SnippetPart } from "../src/types";
 
 interface EventSidebarProps {
   isOpen: boolean;
   view: "events" | "settings" | "profile";
   onClose: () => void;
-  events: EventLite[];
+  events: HotspotEvent[];
   selectedId?: string;
   onEventClick: (id: string) => void;
   // Filters
   query: string;
   onQueryChange: (query: string) => void;
+  onQueryCommit?: (query: string) => void; // Search submitted or a suggestion picked
+  suggestionEvents?: HotspotEvent[]; // Unfiltered events for search suggestions (defaults to events)
+  snippets?: Record<string, SearchSnippets>; // Highlighted matches per event id while searching
   price: "" | "free" | "paid";
   onPriceChange: (price: "" | "free" | "paid") => void;
   onlyLive: boolean;
@@ -32,17 +31,32 @@ interface EventSidebarProps {
   onReset: () => void;
   activeFilters: Set<string>;
   onShowInterests: () => void;
-  isLiveNow: (event: EventLite) => boolean;
+  isLiveNow: (event: HotspotEvent) => boolean;
+  onOccurrenceSelect?: (eventId: string, occurrenceId: string) => void;
+  onShareEvent?: (event: HotspotEvent) => Promise<"shared" | "copied" | "failed">;
+  venuePage?: VenueGroup | null; // Venue shown instead of the event list
+  onVenueSelect?: (venueId: string) => void;
+  onVenueClose?: () => void;
+  routePanel?: React.ReactNode; // Route planner shown instead of the event list
+  onPlanRoute?: (id: string) => void;
+  onExportCalendar?: () => Promise<{ exported: number; skipped: number }>; // Bulk .ics export of liked events, shown in the header when provided
+  calendarFeedUrl?: string; // webcal:// feed for the current filters, offered when there's no bulk export
   // Settings
   onEnableCompass?: () => void;
   themeOverride?: "light" | "dark" | undefined;
   onThemeChange: (theme: "light" | "dark" | undefined) => void;
   heatmapMode: boolean;
   onHeatmapModeChange: (enabled: boolean) => void;
+  districtMode: boolean;
+  onDistrictModeChange?: (enabled: boolean) => void; // Omitted until the district boundaries load
   show3DBuildings: boolean;
   onShow3DBuildingsChange: (enabled: boolean) => void;
+  groupByVenue: boolean;
+  onGroupByVenueChange: (enabled: boolean) => void;
   distanceUnit: "km" | "miles";
   onDistanceUnitChange: (unit: "km" | "miles") => void;
+  language: Language;
+  onLanguageChange: (language: Language) => void;
   onApplyPreset: (preset: "tonight" | "weekend" | "free" | "near-me") => void;
   loading?: boolean;
   error?: string | null;
@@ -58,6 +72,9 @@ export default function EventSidebar({
   onEventClick,
   query,
   onQueryChange,
+  onQueryCommit,
+  suggestionEvents,
+  snippets,
   price,
   onPriceChange,
   onlyLive,
@@ -66,15 +83,30 @@ export default function EventSidebar({
   activeFilters,
   onShowInterests,
   isLiveNow,
+  onOccurrenceSelect,
+  onShareEvent,
+  venuePage,
+  onVenueSelect,
+  onVenueClose,
+  routePanel,
+  onPlanRoute,
+  onExportCalendar,
+  calendarFeedUrl,
   onEnableCompass,
   themeOverride,
   onThemeChange,
   heatmapMode,
   onHeatmapModeChange,
+  districtMode,
+  onDistrictModeChange,
   show3DBuildings,
   onShow3DBuildingsChange,
+  groupByVenue,
+  onGroupByVenueChange,
   distanceUnit,
   onDistanceUnitChange,
+  language,
+  onLanguageChange,
   onApplyPreset,
   loading = false,
   error = null,
@@ -88,6 +120,18 @@ export default function EventSidebar({
     return new Set(liked.map((e: any) => e.id));
   });
 
+  // Event whose link was just copied, for the ✓ feedback
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  // Result of the last bulk export, e.g. "2 saved events skipped"
+  const [exportNote, setExportNote] = useState<string | null>(null);
+
+  // Event whose "Add to calendar" options are open
+  const [calendarMenuId, setCalendarMenuId] = useState<string | null>(null);
+
+  // Recurring series whose occurrence list is expanded
+  const [expandedSeries, setExpandedSeries] = useState<string | null>(null);
+
   // Scroll to selected card
   useEffect(() => {
     if (selectedId && cardRefs.current[selectedId]) {
@@ -152,6 +196,56 @@ export default function EventSidebar({
           <h2 style={{ margin: 0, fontSize: "20px", fontWeight: 700, color: "#1a1a1a" }}>
             {view === "events" ? `Events (${events.length})` : view === "settings" ? "Settings" : "Profile"}
           </h2>
+          {view === "events" && onExportCalendar && exportNote && (
+            <span style={{ marginLeft: "auto", fontSize: 12, color: "#b45309" }}>{exportNote}</span>
+          )}
+          {view === "events" && onExportCalendar && likedEvents.size > 0 && (
+            <button
+              onClick={async () => {
+                const { exported, skipped } = await onExportCalendar();
+                if (skipped === 0) return;
+                setExportNote(exported === 0
+                  ? "Saved events couldn't be found, nothing exported"
+                  : `${skipped} saved event${skipped === 1 ? "" : "s"} couldn't be found and ${skipped === 1 ? "was" : "were"} skipped`);
+                setTimeout(() => setExportNote(null), 4000);
+              }}
+              style={{
+                marginLeft: exportNote ? 8 : "auto",
+                marginRight: 8,
+                padding: "8px 12px",
+                borderRadius: 8,
+                border: "1px solid #667eea",
+                background: "#fff",
+                color: "#667eea",
+                cursor: "pointer",
+                fontSize: "13px",
+                fontWeight: 600,
+              }}
+              title="Download all saved events as an .ics calendar file"
+            >
+              📅 Export .ics
+            </button>
+          )}
+          {view === "events" && !onExportCalendar && calendarFeedUrl && (
+            <a
+              href={calendarFeedUrl}
+              style={{
+                marginLeft: "auto",
+                marginRight: 8,
+                padding: "8px 12px",
+                borderRadius: 8,
+                border: "1px solid #667eea",
+                background: "#fff",
+                color: "#667eea",
+                fontSize: "13px",
+                fontWeight: 600,
+                textDecoration: "none",
+              }}
+              title="Subscribe to events matching these filters in your calendar app"
+            >
+              📆 Subscribe
+            </a>
+          )}
           <button
             onClick={onClose}
             style={{
@@ -181,7 +275,19 @@ export default function EventSidebar({
           </button>
         </div>
 
-        {view === "events" ? (
+        {view === "events" && routePanel ? (
+          routePanel
+        ) : view === "events" && venuePage ? (
+          <VenuePage
+            venue={venuePage.venue}
+            events={venuePage.events}
+            language={language}
+            selectedId={selectedId}
+            isLiveNow={isLiveNow}
+            onEventClick={onEventClick}
+            onBack={() => onVenueClose?.()}
+          />
+        ) : view === "events" ? (
           <>
             {/* Filters */}
         <div
@@ -194,26 +300,12 @@ export default function EventSidebar({
             backgroundColor: "#fafafa",
           }}
         >
-          <input
-            placeholder="🔍 Search events…"
+          <SearchAutocomplete
             value={query}
-            onChange={(e) => onQueryChange(e.target.value)}
-            style={{
-              padding: "12px 16px",
-              borderRadius: 12,
-              border: "1px solid #e0e0e0",
-              fontSize: "14px",
-              outline: "none",
-              transition: "all 0.2s ease",
-            }}
-            onFocus={(e) => {
-              e.currentTarget.style.borderColor = "#667eea";
-              e.currentTarget.style.boxShadow = "0 0 0 3px rgba(102, 126, 234, 0.1)";
-            }}
-            onBlur={(e) => {
-              e.currentTarget.style.borderColor = "#e0e0e0";
-              e.currentTarget.style.boxShadow = "none";
-            }}
+            onChange={onQueryChange}
+            onCommit={(q) => onQueryCommit?.(q)}
+            onSelectEvent={onEventClick}
+            events={suggestionEvents ?? events}
           />
 
           <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
@@ -387,7 +479,10 @@ export default function EventSidebar({
               {/* OPTIMIZATION: Render first 50 events for better performance */}
               {events.slice(0, 50).map((ev, index) => {
               const live = isLiveNow(ev);
+              const openNow = !live && getEventStatus(ev) === "ongoing";
               const isSelected = selectedId === ev.id;
+              const occurrences = ev.occurrences ?? [];
+              const isExpanded = expandedSeries === ev.id;
               return (
                 <li
                   key={ev.id}
@@ -423,9 +518,46 @@ export default function EventSidebar({
                   }}
                 >
                   <div style={{ display: "flex", alignItems: "flex-start", gap: 8, marginBottom: 8 }}>
-                    <strong style={{ fontSize: "15px", flex: 1, lineHeight: 1.4, color: "#1a1a1a" }}>
-                      {ev.title}
-                    </strong>
+                    {ev.imageUrl && (
+                      <img
+                        src={ev.imageUrl}
+                        alt=""
+                        loading="lazy"
+                        style={{
+                          width: 48,
+                          height: 48,
+                          objectFit: "cover",
+                          borderRadius: 10,
+                          flexShrink: 0,
+                        }}
+                      />
+                    )}
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <strong style={{ fontSize: "15px", lineHeight: 1.4, color: "#1a1a1a", display: "block" }}>
+                        <Highlighted parts={snippets?.[ev.id]?.title} text={ev.title} />
+                      </strong>
+                      {ev.venueName && (
+                        <div style={{ fontSize: 12, color: "#888", marginTop: 2 }}>
+                          📍{" "}
+                          <span
+                            role={onVenueSelect ? "link" : undefined}
+                            onClick={onVenueSelect ? (e) => {
+                              e.stopPropagation();
+                              onVenueSelect(getEventVenue(ev).id);
+                            } : undefined}
+                            style={onVenueSelect ? { cursor: "pointer", textDecoration: "underline dotted" } : undefined}
+                            title={onVenueSelect ? "All events at this venue" : undefined}
+                          >
+                            <Highlighted parts={snippets?.[ev.id]?.venueName} text={ev.venueName} />
+                          </span>
+                        </div>
+                      )}
+                      {snippets?.[ev.id]?.description && (
+                        <div style={{ fontSize: 12, color: "#555", marginTop: 4, lineHeight: 1.4 }}>
+                          <Highlighted parts={snippets[ev.id].description} text="" />
+                        </div>
+                      )}
+                    </div>
                     <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
                       {/* Like button */}
                       <button
@@ -436,6 +568,9 @@ export default function EventSidebar({
                             title: ev.title,
                             category: ev.category
                           });
+                          // Keep a copy so the Saved export works outside the loaded events
+                          if (nowLiked) saveEvent(ev);
+                          else unsaveEvent(ev.id);
                           // Force re-render by updating a state
                           setLikedEvents(prev => {
                             const next = new Set(prev);
@@ -467,6 +602,70 @@ export default function EventSidebar({
                       >
                         {likedEvents.has(ev.id) ? "❤️" : "🤍"}
                       </button>
+                      {/* Add to calendar button */}
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setCalendarMenuId(calendarMenuId === ev.id ? null : ev.id);
+                        }}
+                        style={{
+                          background: "none",
+                          border: "none",
+                          cursor: "pointer",
+                          fontSize: 16,
+                          padding: 4,
+                          display: "flex",
+                          alignItems: "center",
+                        }}
+                        title="Add to calendar"
+                      >
+                        📅
+                      </button>
+                      {/* Directions button */}
+                      {onPlanRoute && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onPlanRoute(ev.id);
+                          }}
+                          style={{
+                            background: "none",
+                            border: "none",
+                            cursor: "pointer",
+                            fontSize: 16,
+                            padding: 4,
+                            display: "flex",
+                            alignItems: "center",
+                          }}
+                          title="How to get there"
+                        >
+                          🧭
+                        </button>
+                      )}
+                      {/* Share button */}
+                      {onShareEvent && (
+                        <button
+                          onClick={async (e) => {
+                            e.stopPropagation();
+                            if (await onShareEvent(ev) === "copied") {
+                              setCopiedId(ev.id);
+                              setTimeout(() => setCopiedId(prev => (prev === ev.id ? null : prev)), 2000);
+                            }
+                          }}
+                          style={{
+                            background: "none",
+                            border: "none",
+                            cursor: "pointer",
+                            fontSize: 16,
+                            padding: 4,
+                            display: "flex",
+                            alignItems: "center",
+                          }}
+                          title={copiedId === ev.id ? "Link copied" : "Share event"}
+                        >
+                          {copiedId === ev.id ? "✓" : "🔗"}
+                        </button>
+                      )}
                       {live && (
                         <span
                           style={{
@@ -483,6 +682,21 @@ export default function EventSidebar({
                           🔴 LIVE
                         </span>
                       )}
+                      {openNow && (
+                        <span
+                          style={{
+                            background: "#e8f5e9",
+                            color: "#2e7d32",
+                            borderRadius: 8,
+                            padding: "4px 8px",
+                            fontSize: 11,
+                            fontWeight: 700,
+                            letterSpacing: "0.5px",
+                          }}
+                        >
+                          OPEN
+                        </span>
+                      )}
                     </div>
                   </div>
                   <div style={{ 
@@ -504,24 +718,119 @@ export default function EventSidebar({
                       {ev.category}
                     </span>
                     <span style={{ 
-                      background: ev.price === "free" ? "#e8f5e9" : "#fff3e0", 
-                      color: ev.price === "free" ? "#2e7d32" : "#e65100",
+                      background: ev.priceType === "free" ? "#e8f5e9" : "#fff3e0", 
+                      color: ev.priceType === "free" ? "#2e7d32" : "#e65100",
                       padding: "4px 8px", 
                       borderRadius: 6,
                       fontSize: 12,
                       fontWeight: 600
                     }}>
-                      {ev.price === "free" ? "FREE" : "PAID"}
+                      {ev.priceType === "free" ? "FREE" : "PAID"}
                     </span>
-                    {ev.time && (
+                    {ev.startTime && (
                       <span style={{ fontSize: 12, color: "#999" }}>
-                        {String(ev.time).slice(0, 16)}
+                        {formatEventTime(ev, language)}
                       </span>
                     )}
+                    {occurrences.length > 1 && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setExpandedSeries(isExpanded ? null : ev.id);
+                        }}
+                        style={{
+                          background: isExpanded ? "#667eea" : "#f0f4ff",
+                          color: isExpanded ? "#fff" : "#667eea",
+                          border: "none",
+                          padding: "4px 8px",
+                          borderRadius: 6,
+                          fontSize: 12,
+                          fontWeight: 600,
+                          cursor: "pointer",
+                        }}
+                      >
+                        🔁 {occurrences.length} dates
+                      </button>
+                    )}
                   </div>
-                  {ev.website && (
+                  {calendarMenuId === ev.id && (
+                    <div
+                      onClick={(e) => e.stopPropagation()}
+                      style={{ display: "flex", gap: 6, marginBottom: 8, flexWrap: "wrap" }}
+                    >
+                      <button
+                        onClick={() => {
+                          downloadIcs([ev], icsFileName(ev.title), ev.title);
+                          setCalendarMenuId(null);
+                        }}
+                        style={calendarOptionStyle}
+                      >
+                        ⬇️ .ics file
+                      </button>
+                      {[
+                        { label: "Google", href: googleCalendarUrl(ev) },
+                        { label: "Outlook", href: outlookCalendarUrl(ev) },
+                      ].map(({ label, href }) => href && (
+                        <a
+                          key={label}
+                          href={href}
+                          target="_blank"
+                          rel="noreferrer"
+                          onClick={() => setCalendarMenuId(null)}
+                          style={{ ...calendarOptionStyle, textDecoration: "none" }}
+                        >
+                          {label}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  {isExpanded && (
+                    <div
+                      style={{
+                        display: "flex",
+                        flexWrap: "wrap",
+                        gap: 6,
+                        marginBottom: 8,
+                        maxHeight: 120,
+                        overflowY: "auto",
+                      }}
+                    >
+                      {occurrences.map((occ) => {
+                        const isCurrent = occ.startTime === ev.startTime;
+                        return (
+                          <button
+                            key={occ.id}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onOccurrenceSelect?.(ev.id, occ.id);
+                            }}
+                            style={{
+                              padding: "4px 8px",
+                              borderRadius: 6,
+                              border: isCurrent ? "1px solid #667eea" : "1px solid #e0e0e0",
+                              background: isCurrent ? "#f0f4ff" : "#fff",
+                              color: isCurrent ? "#667eea" : "#666",
+                              fontSize: 12,
+                              fontWeight: isCurrent ? 600 : 400,
+                              cursor: "pointer",
+                            }}
+                          >
+                            {new Date(occ.startTime).toLocaleString(getLocale(language), {
+                              timeZone: "Europe/Helsinki",
+                              weekday: "short",
+                              day: "numeric",
+                              month: "numeric",
+                              hour: "2-digit",
+                              minute: "2-digit",
+                            })}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                  {ev.url && (
                     <a
-                      href={ev.website}
+                      href={ev.url}
                       target="_blank"
                       rel="noreferrer"
                       onClick={(e) => e.stopPropagation()}
@@ -624,6 +933,60 @@ export default function EventSidebar({
               </div>
             </div>
 
+            {/* District Map Toggle */}
+            {onDistrictModeChange && (
+              <div>
+                <label style={{ fontSize: "12px", color: "#666", marginBottom: "6px", display: "block", fontWeight: 600 }}>
+                  District Map
+                </label>
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", padding: "10px 12px", background: "#f9f9f9", borderRadius: 8 }}>
+                  <span style={{ fontSize: "14px", color: "#333" }}>🗺️ Colour districts by events</span>
+                  <button
+                    onClick={() => onDistrictModeChange(!districtMode)}
+                    style={{
+                      padding: "6px 16px",
+                      borderRadius: 6,
+                      border: "none",
+                      background: districtMode ? "#764ba2" : "#ddd",
+                      color: districtMode ? "#fff" : "#666",
+                      cursor: "pointer",
+                      fontSize: "13px",
+                      fontWeight: 600,
+                      transition: "all 0.2s",
+                    }}
+                  >
+                    {districtMode ? "ON" : "OFF"}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Venue Pins Toggle */}
+            <div>
+              <label style={{ fontSize: "12px", color: "#666", marginBottom: "6px", display: "block", fontWeight: 600 }}>
+                Venue Pins
+              </label>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", padding: "10px 12px", background: "#f9f9f9", borderRadius: 8 }}>
+                <span style={{ fontSize: "14px", color: "#333" }}>📍 One pin per venue</span>
+                <button
+                  onClick={() => onGroupByVenueChange(!groupByVenue)}
+                  style={{
+                    padding: "6px 16px",
+                    borderRadius: 6,
+                    border: "none",
+                    background: groupByVenue ? "#667eea" : "#ddd",
+                    color: groupByVenue ? "#fff" : "#666",
+                    cursor: "pointer",
+                    fontSize: "13px",
+                    fontWeight: 600,
+                    transition: "all 0.2s",
+                  }}
+                >
+                  {groupByVenue ? "ON" : "OFF"}
+                </button>
+              </div>
+            </div>
+
             {/* 3D Buildings Toggle */}
             <div>
               <label style={{ fontSize: "12px", color: "#666", marginBottom: "6px", display: "block", fontWeight: 600 }}>
@@ -673,6 +1036,33 @@ export default function EventSidebar({
               </select>
             </div>
 
+            {/* Event Language */}
+            <div>
+              <label style={{ fontSize: "12px", color: "#666", marginBottom: "6px", display: "block", fontWeight: 600 }}>
+                Event Language
+              </label>
+              <select
+                value={language}
+                onChange={(e) => onLanguageChange(e.target.value as Language)}
+                style={{
+                  padding: "10px 12px",
+                  borderRadius: 8,
+                  border: "1px solid #ddd",
+                  fontSize: "14px",
+                  background: "#fff",
+                  width: "100%",
+                  cursor: "pointer",
+                }}
+              >
+                {LANGUAGES.map((lang) => (
+                  <option key={lang.id} value={lang.id}>{lang.label}</option>
+                ))}
+              </select>
+              <div style={{ fontSize: 11, color: "#999", marginTop: 4 }}>
+                Titles and descriptions fall back to another language when a translation is missing.
+              </div>
+            </div>
+
             {/* Compass Mode */}
             {onEnableCompass && (
               <div>
@@ -957,3 +1347,34 @@ export default function EventSidebar({
     </>
   );
 }
+
+/**
+ * Text with search matches marked, or the plain text when nothing matched
+ */
+function Highlighted({ parts, text }: { parts?: SnippetPart[]; text: string }) {
+  if (!parts) return <>{text}</>;
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.match ? (
+          <mark key={i} style={{ background: "#fef08a", color: "inherit", borderRadius: 2, padding: 0 }}>
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{part.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+const calendarOptionStyle: React.CSSProperties = {
+  padding: "4px 10px",
+  borderRadius: 6,
+  border: "1px solid #e0e0e0",
+  background: "#fff",
+  color: "#667eea",
+  fontSize: 12,
+  fontWeight: 600,
+  cursor: "pointer",
+};
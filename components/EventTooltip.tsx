@@ -0,0 +1,39 @@
+import React from "react";
+import type { MapEventProperties } from "../src/types";
+
+/**
+ * Hover preview for a map pin: title, time and price, with the venue's count on grouped pins
+ */
+export default function EventTooltip({ properties }: { properties: MapEventProperties }) {
+  return (
+    <div style={{ fontSize: 13, maxWidth: 200 }}>
+      {(properties.venueEventCount ?? 0) > 1 && (
+        <div style={{ color: "#667eea", fontSize: 11, marginBottom: 2 }}>
+          📍 {properties.venueName} · {properties.venueEventCount} events
+        </div>
+      )}
+      <div style={{ fontWeight: 600, marginBottom: 4, display: "flex", alignItems: "center", gap: 4 }}>
+        {properties.title || "Event"}
+        {properties.isLive && (
+          <span
+            style={{
+              background: "#ff3b3b",
+              color: "#fff",
+              padding: "2px 6px",
+              borderRadius: 4,
+              fontSize: 10,
+              fontWeight: 600,
+              marginLeft: 4,
+            }}
+          >
+            LIVE
+          </span>
+        )}
+      </div>
+      <div style={{ color: "#666", fontSize: 11 }}>
+        {properties.time || properties.category} {properties.price === "free" ? "🆓" : "💳"}
+      </div>
+      <div style={{ color: "#999", fontSize: 10, marginTop: 4, fontStyle: "italic" }}>Tap for details</div>
+    </div>
+  );
+}
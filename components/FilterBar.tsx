@@ -1,4 +1,6 @@
 import React, { useState } from "react";
+import type { DateRange, DistrictSummary } from "../src/types";
+import { getHelsinkiDate } from "../src/utils/helsinkiTime";
 
 export type QuickFilter = "now" | "tonight" | "weekend" | "free" | "popular";
 
@@ -9,7 +11,12 @@ interface FilterBarProps {
   onCategoryFilterToggle: (category: string) => void;
   maxDistance: number;
   onMaxDistanceChange: (distance: number) => void;
+  districts?: DistrictSummary[]; // Empty until the district boundaries load
+  district: string | null;
+  onDistrictChange: (district: string | null) => void;
   userLocation: { lat: number; lng: number } | null;
+  dateRange: DateRange | null;
+  onDateRangeChange: (range: DateRange | null) => void;
 }
 
 const QUICK_FILTERS: { id: QuickFilter; icon: string; label: string }[] = [
@@ -20,6 +27,12 @@ const QUICK_FILTERS: { id: QuickFilter; icon: string; label: string }[] = [
   { id: "popular", icon: "⭐", label: "Popular" },
 ];
 
+const DATE_PRESETS: { id: string; label: string; range: () => DateRange }[] = [
+  { id: "today", label: "Today", range: () => ({ start: getHelsinkiDate(), end: getHelsinkiDate() }) },
+  { id: "tomorrow", label: "Tomorrow", range: () => ({ start: getHelsinkiDate(Date.now(), 1), end: getHelsinkiDate(Date.now(), 1) }) },
+  { id: "week", label: "Next 7 days", range: () => ({ start: getHelsinkiDate(), end: getHelsinkiDate(Date.now(), 6) }) },
+];
+
 const CATEGORY_FILTERS = [
   { id: "music", icon: "🎵", label: "Music" },
   { id: "nightlife", icon: "🍻", label: "Nightlife" },
@@ -36,9 +49,25 @@ export default function FilterBar({
   onCategoryFilterToggle,
   maxDistance,
   onMaxDistanceChange,
+  districts = [],
+  district,
+  onDistrictChange,
   userLocation,
+  dateRange,
+  onDateRangeChange,
 }: FilterBarProps) {
   const [expanded, setExpanded] = useState(false);
+  const activeCount = activeQuickFilters.size + activeCategoryFilters.size + (dateRange ? 1 : 0) + (district ? 1 : 0);
+
+  const dateInputStyle: React.CSSProperties = {
+    flex: 1,
+    padding: "8px 10px",
+    borderRadius: 8,
+    border: "1px solid #ddd",
+    fontSize: "13px",
+    color: "#333",
+    background: "#fff",
+  };
 
   return (
     <div
@@ -71,8 +100,7 @@ export default function FilterBar({
         <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
           <span style={{ fontSize: "18px" }}>🔍</span>
           <span style={{ fontSize: "14px", fontWeight: 600, color: "#333" }}>
-            Filters {(activeQuickFilters.size + activeCategoryFilters.size) > 0 && 
-              `(${activeQuickFilters.size + activeCategoryFilters.size})`}
+            Filters {activeCount > 0 && `(${activeCount})`}
           </span>
         </div>
         <span
@@ -131,6 +159,78 @@ export default function FilterBar({
             </div>
           </div>
 
+          {/* Date Range (planning mode) */}
+          <div>
+            <div style={{ 
+              fontSize: "12px", 
+              fontWeight: 600, 
+              color: "#666", 
+              marginBottom: 8,
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center"
+            }}>
+              <span>DATES</span>
+              <span style={{ color: "#667eea", fontWeight: 700 }}>
+                {dateRange ? "Planning mode" : "Upcoming"}
+              </span>
+            </div>
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 8 }}>
+              {DATE_PRESETS.map((preset) => {
+                const range = preset.range();
+                const isActive = !!dateRange && dateRange.start === range.start && dateRange.end === range.end;
+                return (
+                  <button
+                    key={preset.id}
+                    onClick={() => onDateRangeChange(isActive ? null : range)}
+                    style={{
+                      padding: "6px 12px",
+                      borderRadius: 20,
+                      border: `2px solid ${isActive ? "#667eea" : "#ddd"}`,
+                      background: isActive ? "#667eea" : "#fff",
+                      color: isActive ? "#fff" : "#666",
+                      cursor: "pointer",
+                      fontSize: "12px",
+                      fontWeight: 500,
+                      transition: "all 0.2s ease",
+                    }}
+                  >
+                    {preset.label}
+                  </button>
+                );
+              })}
+            </div>
+            <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input
+                type="date"
+                aria-label="From date"
+                min={getHelsinkiDate()}
+                value={dateRange?.start ?? ""}
+                onChange={(e) => {
+                  const start = e.target.value;
+                  if (!start) return onDateRangeChange(null);
+                  const end = dateRange && dateRange.end >= start ? dateRange.end : start;
+                  onDateRangeChange({ start, end });
+                }}
+                style={dateInputStyle}
+              />
+              <span style={{ color: "#999", fontSize: "12px" }}>–</span>
+              <input
+                type="date"
+                aria-label="To date"
+                min={dateRange?.start ?? getHelsinkiDate()}
+                value={dateRange?.end ?? ""}
+                onChange={(e) => {
+                  const end = e.target.value;
+                  if (!end) return;
+                  const start = dateRange && dateRange.start <= end ? dateRange.start : end;
+                  onDateRangeChange({ start, end });
+                }}
+                style={dateInputStyle}
+              />
+            </div>
+          </div>
+
           {/* Category Filters */}
           <div>
             <div style={{ fontSize: "12px", fontWeight: 600, color: "#666", marginBottom: 8 }}>
@@ -166,6 +266,37 @@ export default function FilterBar({
             </div>
           </div>
 
+          {/* District */}
+          {districts.length > 0 && (
+            <div>
+              <div style={{ fontSize: "12px", fontWeight: 600, color: "#666", marginBottom: 8 }}>
+                DISTRICT
+              </div>
+              <select
+                aria-label="District"
+                value={district ?? ""}
+                onChange={(e) => onDistrictChange(e.target.value || null)}
+                style={{
+                  width: "100%",
+                  padding: "8px 10px",
+                  borderRadius: 8,
+                  border: `1px solid ${district ? "#667eea" : "#ddd"}`,
+                  fontSize: "13px",
+                  color: "#333",
+                  background: "#fff",
+                  cursor: "pointer",
+                }}
+              >
+                <option value="">All of Helsinki</option>
+                {districts.map((d) => (
+                  <option key={d.id} value={d.id}>
+                    {d.name} ({d.count})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Distance Slider */}
           {userLocation && (
             <div>
@@ -211,12 +342,14 @@ export default function FilterBar({
           )}
 
           {/* Clear All Filters */}
-          {(activeQuickFilters.size > 0 || activeCategoryFilters.size > 0 || maxDistance < 100) && (
+          {(activeCount > 0 || maxDistance < 100) && (
             <button
               onClick={() => {
                 activeQuickFilters.forEach(f => onQuickFilterToggle(f));
                 activeCategoryFilters.forEach(c => onCategoryFilterToggle(c));
                 if (maxDistance < 100) onMaxDistanceChange(100);
+                if (dateRange) onDateRangeChange(null);
+                if (district) onDistrictChange(null);
               }}
               style={{
                 padding: "10px",
@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from "react";
+import { HELSINKI_TZ } from "../src/utils/helsinkiTime";
+import type { TimeWindow } from "../src/utils/helsinkiTime";
+
+interface HeatmapTimelineProps {
+  evening: TimeWindow; // 18:00 → 04:00, see getEveningWindow
+  value: number | null; // Hour shown on the heatmap (ms), null = now
+  onChange: (value: number | null) => void;
+  bottom?: number; // Sits above the planning timeline when both are open
+}
+
+const STEP_MS = 30 * 60 * 1000; // 30-minute steps
+const PLAY_STEP_MS = 800; // Time each step stays on screen while playing
+
+function formatHour(ms: number): string {
+  return new Date(ms).toLocaleTimeString("en-GB", { timeZone: HELSINKI_TZ, hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Heatmap hour picker with a play control that steps through the evening
+ */
+export default function HeatmapTimeline({ evening, value, onChange, bottom = 150 }: HeatmapTimelineProps) {
+  const [playing, setPlaying] = useState(false);
+  const steps = Math.max(1, Math.round((evening.end - evening.start) / STEP_MS));
+  const step = value === null ? 0 : Math.min(Math.max(Math.round((value - evening.start) / STEP_MS), 0), steps);
+
+  // The interval reads the latest value without restarting on every step
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  useEffect(() => {
+    if (!playing) return;
+    const id = setInterval(() => {
+      const current = valueRef.current ?? evening.start;
+      if (current + STEP_MS > evening.end) {
+        setPlaying(false);
+        return;
+      }
+      onChange(current + STEP_MS);
+    }, PLAY_STEP_MS);
+    return () => clearInterval(id);
+  }, [playing, evening.start, evening.end, onChange]);
+
+  const togglePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    // Start over from 18:00 unless paused somewhere inside the evening
+    if (value === null || value < evening.start || value >= evening.end) onChange(evening.start);
+    setPlaying(true);
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        bottom,
+        left: "50%",
+        transform: "translateX(-50%)",
+        width: "min(520px, calc(100% - 120px))",
+        zIndex: 10,
+        background: "rgba(255, 255, 255, 0.98)",
+        backdropFilter: "blur(12px)",
+        borderRadius: 16,
+        boxShadow: "0 4px 16px rgba(0, 0, 0, 0.12)",
+        padding: "10px 16px",
+        display: "flex",
+        flexDirection: "column",
+        gap: 6,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: "12px" }}>
+        <span style={{ fontWeight: 600, color: "#666" }}>🔥 HEATMAP</span>
+        <span style={{ color: "#ff6b35", fontWeight: 700 }}>{value === null ? "Now" : formatHour(value)}</span>
+        <div style={{ display: "flex", gap: 6 }}>
+          <button
+            onClick={togglePlay}
+            aria-label={playing ? "Pause" : "Play the evening"}
+            style={{
+              padding: "4px 10px",
+              borderRadius: 12,
+              border: "1px solid #ddd",
+              background: playing ? "#ff6b35" : "#fff",
+              color: playing ? "#fff" : "#666",
+              cursor: "pointer",
+              fontSize: "11px",
+              fontWeight: 600,
+            }}
+          >
+            {playing ? "⏸ Pause" : "▶ Play"}
+          </button>
+          {value !== null && (
+            <button
+              onClick={() => {
+                setPlaying(false);
+                onChange(null);
+              }}
+              style={{
+                padding: "4px 10px",
+                borderRadius: 12,
+                border: "1px solid #ddd",
+                background: "#fff",
+                color: "#666",
+                cursor: "pointer",
+                fontSize: "11px",
+                fontWeight: 600,
+              }}
+            >
+              Now
+            </button>
+          )}
+        </div>
+      </div>
+      <input
+        type="range"
+        aria-label="Heatmap time"
+        aria-valuetext={value === null ? "Now" : formatHour(value)}
+        min={0}
+        max={steps}
+        value={step}
+        onChange={(e) => {
+          setPlaying(false);
+          onChange(evening.start + Number(e.target.value) * STEP_MS);
+        }}
+        style={{ width: "100%", cursor: "pointer", opacity: value === null ? 0.5 : 1 }}
+      />
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: "10px", color: "#999" }}>
+        <span>{formatHour(evening.start)}</span>
+        <span>{formatHour(evening.end)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import React from "react";
+import { HELSINKI_TZ } from "../src/utils/helsinkiTime";
+
+interface OfflineIndicatorProps {
+  lastSync: number | null; // Last successful fetch (ms)
+  eventCount: number;
+}
+
+export default function OfflineIndicator({ lastSync, eventCount }: OfflineIndicatorProps) {
+  const syncedAt = lastSync
+    ? new Date(lastSync).toLocaleString("en-GB", {
+        timeZone: HELSINKI_TZ,
+        day: "numeric",
+        month: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : null;
+
+  return (
+    <div
+      role="status"
+      style={{
+        position: "fixed",
+        bottom: 120, // Above attribution and bottom navigation
+        left: "50%",
+        transform: "translateX(-50%)",
+        zIndex: 1100,
+        background: "rgba(33, 33, 33, 0.92)",
+        color: "white",
+        padding: "8px 14px",
+        borderRadius: 20,
+        fontSize: 13,
+        fontWeight: 500,
+        boxShadow: "0 2px 12px rgba(0, 0, 0, 0.2)",
+        display: "flex",
+        alignItems: "center",
+        gap: 8,
+        whiteSpace: "nowrap",
+      }}
+    >
+      <span>📴</span>
+      <span>
+        {eventCount > 0 ? "Offline – showing saved events" : "Offline – no saved events yet"}
+        {syncedAt && <span style={{ opacity: 0.7, fontWeight: 400 }}> · updated {syncedAt}</span>}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import React from "react";
+import { getLocale } from "../src/utils/i18n";
+import { HELSINKI_TZ } from "../src/utils/helsinkiTime";
+import {
+  formatDistance,
+  formatDuration,
+  getLegColor,
+  getLegIcon,
+  getMinutesUntilDeparture,
+} from "../src/utils/routing";
+import type { HotspotEvent, Language, RouteItinerary, RouteMode, RoutePlan } from "../src/types";
+
+interface RoutePanelProps {
+  event: HotspotEvent;
+  language: Language;
+  mode: RouteMode;
+  onModeChange: (mode: RouteMode) => void;
+  plan: RoutePlan | null;
+  loading: boolean;
+  error: string | null;
+  hasLocation: boolean;
+  onRequestLocation: () => void;
+  selectedIndex: number; // Itinerary drawn on the map
+  onSelectItinerary: (index: number) => void;
+  onBack: () => void;
+}
+
+const MODES: { id: RouteMode; label: string }[] = [
+  { id: "transit", label: "🚌 Public transport" },
+  { id: "walk", label: "🚶 Walk" },
+];
+
+function formatClock(iso: string, language: Language): string {
+  return new Date(iso).toLocaleTimeString(getLocale(language), {
+    timeZone: HELSINKI_TZ,
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function describeDeparture(itinerary: RouteItinerary): string {
+  const minutes = getMinutesUntilDeparture(itinerary);
+  if (minutes <= 0) return "Leave now";
+  if (minutes < 60) return `Leave in ${minutes} min`;
+  return `Leave in ${formatDuration(minutes)}`;
+}
+
+function LegList({ itinerary, language }: { itinerary: RouteItinerary; language: Language }) {
+  return (
+    <ol style={{ listStyle: "none", padding: 0, margin: "10px 0 0 0", display: "grid", gap: 8 }}>
+      {itinerary.legs.map((leg, index) => {
+        const minutes = Math.round((Date.parse(leg.arrival) - Date.parse(leg.departure)) / 60000);
+        const walking = leg.mode === "WALK";
+        return (
+          <li
+            key={index}
+            style={{ display: "flex", gap: 10, paddingLeft: 8, borderLeft: `3px ${walking ? "dotted" : "solid"} ${getLegColor(leg)}` }}
+          >
+            <span style={{ fontSize: 12, color: "#666", minWidth: 40 }}>{formatClock(leg.departure, language)}</span>
+            <span style={{ flex: 1, minWidth: 0, fontSize: 13 }}>
+              <span style={{ fontWeight: 600, color: "#1a1a1a" }}>
+                {getLegIcon(leg)}{" "}
+                {walking ? `Walk to ${leg.to}` : `${leg.route ?? leg.mode.toLowerCase()}${leg.headsign ? ` → ${leg.headsign}` : ""}`}
+              </span>
+              <span style={{ display: "block", fontSize: 12, color: "#888" }}>
+                {walking ? "" : `${leg.from} → ${leg.to} • `}
+                {formatDistance(leg.distanceMeters)} • {formatDuration(minutes)}
+              </span>
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+export default function RoutePanel({
+  event,
+  language,
+  mode,
+  onModeChange,
+  plan,
+  loading,
+  error,
+  hasLocation,
+  onRequestLocation,
+  selectedIndex,
+  onSelectItinerary,
+  onBack,
+}: RoutePanelProps) {
+  return (
+    <div style={{ flex: 1, overflowY: "auto", padding: "16px 24px" }}>
+      <button
+        onClick={onBack}
+        style={{
+          background: "none",
+          border: "none",
+          color: "#667eea",
+          cursor: "pointer",
+          fontSize: 13,
+          fontWeight: 600,
+          padding: 0,
+          marginBottom: 12,
+        }}
+      >
+        ← All events
+      </button>
+
+      <h3 style={{ margin: "0 0 4px 0", fontSize: 18, color: "#1a1a1a" }}>🧭 How to get there</h3>
+      <div style={{ fontSize: 13, color: "#888" }}>
+        {event.title} • {event.venueName}
+      </div>
+
+      <div role="radiogroup" aria-label="Travel mode" style={{ display: "flex", gap: 8, margin: "16px 0" }}>
+        {MODES.map(({ id, label }) => (
+          <button
+            key={id}
+            role="radio"
+            aria-checked={mode === id}
+            onClick={() => onModeChange(id)}
+            style={{
+              flex: 1,
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: mode === id ? "1px solid #667eea" : "1px solid #e0e0e0",
+              backgroundColor: mode === id ? "#f0f4ff" : "#fff",
+              color: mode === id ? "#667eea" : "#666",
+              fontSize: 13,
+              fontWeight: 600,
+              cursor: "pointer",
+            }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {!hasLocation ? (
+        <div style={{ fontSize: 13, color: "#666" }}>
+          Routes start from your current location.
+          <button
+            onClick={onRequestLocation}
+            style={{
+              display: "block",
+              marginTop: 10,
+              padding: "8px 16px",
+              borderRadius: 8,
+              border: "none",
+              background: "linear-gradient(135deg, #667eea 0%, #764ba2 100%)",
+              color: "#fff",
+              fontSize: 13,
+              fontWeight: 600,
+              cursor: "pointer",
+            }}
+          >
+            📍 Use my location
+          </button>
+        </div>
+      ) : loading ? (
+        <div style={{ fontSize: 13, color: "#888" }}>Planning route…</div>
+      ) : error ? (
+        <div style={{ fontSize: 13, color: "#f44336" }}>{error}</div>
+      ) : plan && plan.itineraries.length === 0 ? (
+        <div style={{ fontSize: 13, color: "#888" }}>No routes found</div>
+      ) : plan ? (
+        <>
+          <div style={{ fontSize: 12, fontWeight: 600, color: "#666", marginBottom: 8 }}>
+            {plan.arriveBy
+              ? `Arrive by ${formatClock(plan.arriveBy, language)}, before it starts`
+              : "Leaving now"}
+          </div>
+          <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 8 }}>
+            {plan.itineraries.map((itinerary, index) => {
+              const selected = index === selectedIndex;
+              return (
+                <li
+                  key={`${itinerary.departure}-${index}`}
+                  onClick={() => onSelectItinerary(index)}
+                  style={{
+                    padding: "10px 12px",
+                    borderRadius: 10,
+                    cursor: "pointer",
+                    backgroundColor: selected ? "#f0f4ff" : "#fafafa",
+                    border: selected ? "1px solid #667eea" : "1px solid transparent",
+                  }}
+                >
+                  <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 8 }}>
+                    <span style={{ fontSize: 14, fontWeight: 600, color: "#1a1a1a" }}>
+                      {formatClock(itinerary.departure, language)} → {formatClock(itinerary.arrival, language)}
+                    </span>
+                    <span style={{ fontSize: 12, color: "#666" }}>{formatDuration(itinerary.durationMinutes)}</span>
+                  </div>
+                  <div style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 4, fontSize: 12, color: "#888" }}>
+                    <span style={{ color: "#667eea", fontWeight: 600 }}>{describeDeparture(itinerary)}</span>
+                    <span>•</span>
+                    <span>
+                      {itinerary.legs
+                        .filter(leg => leg.mode !== "WALK" || itinerary.legs.length === 1)
+                        .map(leg => `${getLegIcon(leg)}${leg.route ? ` ${leg.route}` : ""}`)
+                        .join(" › ")}
+                    </span>
+                    <span>•</span>
+                    <span>🚶 {formatDistance(itinerary.walkMeters)}</span>
+                  </div>
+                  {selected && <LegList itinerary={itinerary} language={language} />}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      ) : null}
+    </div>
+  );
+}
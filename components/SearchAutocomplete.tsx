@@ -0,0 +1,189 @@
+import React, { useId, useMemo, useState } from "react";
+import { getRecentSearches, removeRecentSearch } from "../src/utils/personalization";
+import { getSearchSuggestions, SearchSuggestion, SuggestionKind } from "../src/utils/searchSuggestions";
+import type { HotspotEvent } from "../src/types";
+
+interface SearchAutocompleteProps {
+  value: string;
+  onChange: (query: string) => void;
+  onCommit: (query: string) => void; // Enter or a picked suggestion; recorded in recent searches
+  onSelectEvent: (id: string) => void;
+  events: HotspotEvent[]; // Source for venue, category and title suggestions
+}
+
+const KIND_ICONS: Record<SuggestionKind, string> = {
+  recent: "🕘",
+  venue: "📍",
+  category: "🏷️",
+  event: "📅",
+};
+
+export default function SearchAutocomplete({ value, onChange, onCommit, onSelectEvent, events }: SearchAutocompleteProps) {
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(-1); // Highlighted suggestion, -1 = none
+  const [recent, setRecent] = useState<string[]>(() => getRecentSearches());
+
+  const suggestions = useMemo(() => getSearchSuggestions(value, events, recent), [value, events, recent]);
+  const showList = open && suggestions.length > 0;
+
+  const pick = (suggestion: SearchSuggestion) => {
+    setOpen(false);
+    setActive(-1);
+    if (suggestion.eventId) {
+      onSelectEvent(suggestion.eventId);
+      return;
+    }
+    onChange(suggestion.value);
+    onCommit(suggestion.value);
+    setRecent(getRecentSearches());
+  };
+
+  const forget = (search: string) => {
+    removeRecentSearch(search);
+    setRecent(getRecentSearches());
+    setActive(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setActive(prev => (suggestions.length === 0 ? -1 : (prev + 1) % suggestions.length));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if (e.key === "Enter") {
+      if (showList && active >= 0) {
+        e.preventDefault();
+        pick(suggestions[active]);
+      } else if (value.trim()) {
+        onCommit(value);
+        setRecent(getRecentSearches());
+        setOpen(false);
+      }
+    } else if (e.key === "Escape") {
+      setOpen(false);
+      setActive(-1);
+    } else if (e.key === "Delete" && e.shiftKey && showList && suggestions[active]?.kind === "recent") {
+      // Shift+Delete removes the highlighted history entry, as in browser address bars
+      e.preventDefault();
+      forget(suggestions[active].value);
+    }
+  };
+
+  return (
+    <div style={{ position: "relative" }}>
+      <input
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={showList && active >= 0 ? `${listId}-${active}` : undefined}
+        placeholder="🔍 Search events…"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setActive(-1);
+        }}
+        onKeyDown={handleKeyDown}
+        style={{
+          width: "100%",
+          boxSizing: "border-box",
+          padding: "12px 16px",
+          borderRadius: 12,
+          border: "1px solid #e0e0e0",
+          fontSize: "14px",
+          outline: "none",
+          transition: "all 0.2s ease",
+        }}
+        onFocus={(e) => {
+          e.currentTarget.style.borderColor = "#667eea";
+          e.currentTarget.style.boxShadow = "0 0 0 3px rgba(102, 126, 234, 0.1)";
+          setRecent(getRecentSearches());
+          setOpen(true);
+        }}
+        onBlur={(e) => {
+          e.currentTarget.style.borderColor = "#e0e0e0";
+          e.currentTarget.style.boxShadow = "none";
+          setOpen(false);
+          setActive(-1);
+        }}
+      />
+
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          style={{
+            position: "absolute",
+            top: "calc(100% + 4px)",
+            left: 0,
+            right: 0,
+            margin: 0,
+            padding: 4,
+            listStyle: "none",
+            backgroundColor: "#fff",
+            borderRadius: 12,
+            boxShadow: "0 8px 24px rgba(0, 0, 0, 0.15)",
+            zIndex: 10,
+            maxHeight: 320,
+            overflowY: "auto",
+          }}
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.kind}:${suggestion.eventId ?? suggestion.value}`}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === active}
+              // Keep focus in the input so blur doesn't close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(suggestion)}
+              onMouseEnter={() => setActive(index)}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: 8,
+                padding: "8px 10px",
+                borderRadius: 8,
+                cursor: "pointer",
+                fontSize: 13,
+                backgroundColor: index === active ? "#f0f4ff" : "transparent",
+              }}
+            >
+              <span aria-hidden="true">{KIND_ICONS[suggestion.kind]}</span>
+              <span style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {suggestion.label}
+                {suggestion.detail && (
+                  <span style={{ color: "#999", marginLeft: 6, fontSize: 12 }}>{suggestion.detail}</span>
+                )}
+              </span>
+              {suggestion.kind === "recent" && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    forget(suggestion.value);
+                  }}
+                  aria-label={`Remove "${suggestion.value}" from recent searches`}
+                  title="Remove from history"
+                  style={{
+                    background: "none",
+                    border: "none",
+                    cursor: "pointer",
+                    color: "#999",
+                    fontSize: 14,
+                    padding: "0 4px",
+                  }}
+                >
+                  ✕
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import React from "react";
+import type { DateRange } from "../src/types";
+import { HELSINKI_TZ, getDateRangeWindow } from "../src/utils/helsinkiTime";
+
+interface TimelineScrubberProps {
+  dateRange: DateRange;
+  value: number | null; // Selected instant (ms), null = whole range
+  onChange: (value: number | null) => void;
+}
+
+const STEP_MS = 30 * 60 * 1000; // 30-minute steps
+
+function formatInstant(ms: number, multiDay: boolean): string {
+  return new Date(ms).toLocaleString("en-GB", {
+    timeZone: HELSINKI_TZ,
+    weekday: multiDay ? "short" : undefined,
+    day: multiDay ? "numeric" : undefined,
+    month: multiDay ? "numeric" : undefined,
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function TimelineScrubber({ dateRange, value, onChange }: TimelineScrubberProps) {
+  const { start: rangeStart, end: rangeEnd } = getDateRangeWindow(dateRange);
+  const multiDay = dateRange.start !== dateRange.end;
+  const steps = Math.max(1, Math.round((rangeEnd - rangeStart) / STEP_MS) - 1);
+  const step = value === null ? 0 : Math.round((value - rangeStart) / STEP_MS);
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        bottom: 150,
+        left: "50%",
+        transform: "translateX(-50%)",
+        width: "min(520px, calc(100% - 120px))",
+        zIndex: 10,
+        background: "rgba(255, 255, 255, 0.98)",
+        backdropFilter: "blur(12px)",
+        borderRadius: 16,
+        boxShadow: "0 4px 16px rgba(0, 0, 0, 0.12)",
+        padding: "10px 16px",
+        display: "flex",
+        flexDirection: "column",
+        gap: 6,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: "12px" }}>
+        <span style={{ fontWeight: 600, color: "#666" }}>🕒 TIMELINE</span>
+        <span style={{ color: "#667eea", fontWeight: 700 }}>
+          {value === null ? "All times" : formatInstant(value, multiDay)}
+        </span>
+        <button
+          onClick={() => onChange(value === null ? rangeStart + 18 * 60 * 60 * 1000 : null)}
+          style={{
+            padding: "4px 10px",
+            borderRadius: 12,
+            border: "1px solid #ddd",
+            background: value === null ? "#fff" : "#667eea",
+            color: value === null ? "#666" : "#fff",
+            cursor: "pointer",
+            fontSize: "11px",
+            fontWeight: 600,
+          }}
+        >
+          {value === null ? "Scrub" : "Show all"}
+        </button>
+      </div>
+      <input
+        type="range"
+        aria-label="Time of day"
+        min={0}
+        max={steps}
+        value={Math.min(Math.max(step, 0), steps)}
+        onChange={(e) => onChange(rangeStart + Number(e.target.value) * STEP_MS)}
+        style={{ width: "100%", cursor: "pointer", opacity: value === null ? 0.5 : 1 }}
+      />
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: "10px", color: "#999" }}>
+        <span>{formatInstant(rangeStart, multiDay)}</span>
+        <span>{formatInstant(rangeEnd - STEP_MS, multiDay)}</span>
+      </div>
+    </div>
+  );
+}
@@ -1,45 +1,18 @@
 import React from "react";
+import type { HotspotEvent } from "../src/types";
+import { getHelsinkiParts, getTonightWindow, overlapsWindow } from "../src/utils/helsinkiTime";
+import { isLiveNow } from "../shared/eventTime";
 
-type Event = {
-  id: string;
-  title: string;
-  category: string;
-  price: "free" | "paid";
-  start?: string;
-  end?: string;
-};
+type Event = HotspotEvent;
 
 interface TonightsPicksProps {
   events: Event[];
   onEventClick: (id: string) => void;
 }
 
-function isLiveNow(e: Event, now = Date.now()) {
-  const s = e.start ? Date.parse(e.start) : NaN;
-  const hasEnd = !!e.end;
-  const en = hasEnd ? Date.parse(e.end!) : (isFinite(s) ? s + 6*60*60*1000 : NaN);
-  
-  // Check if event is currently happening
-  if (!isFinite(s) || !isFinite(en) || s > now || now > en) {
-    return false;
-  }
-  
-  // Don't mark events as LIVE if they span more than 12 hours (likely exhibitions or all-day venue events)
-  const durationHours = (en - s) / (1000 * 60 * 60);
-  if (durationHours > 12) {
-    return false;
-  }
-  
-  return true;
-}
-
-function isHappeningTonight(e: Event) {
-  if (!e.start) return false;
-  const eventDate = new Date(e.start);
-  const now = new Date();
-  
-  // Check if event is today or tonight
-  return eventDate.toDateString() === now.toDateString();
+function isHappeningTonight(e: Event, now = Date.now()) {
+  // Helsinki evening through the small hours, regardless of the viewer's timezone
+  return overlapsWindow(e, getTonightWindow(now));
 }
 
 function getPopularityScore(e: Event): number {
@@ -49,7 +22,7 @@ function getPopularityScore(e: Event): number {
   if (isLiveNow(e)) score += 100;
   
   // Free events are more accessible
-  if (e.price === "free") score += 30;
+  if (e.priceType === "free") score += 30;
   
   // Popular categories
   const popular = ["music", "food", "nightlife", "arts", "festival"];
@@ -103,7 +76,7 @@ export default function TonightsPicks({ events, onEventClick }: TonightsPicksPro
       }}>
         {topPicks.map((event) => {
           const isLive = isLiveNow(event);
-          const hour = event.start ? new Date(event.start).getHours() : null;
+          const hour = event.startTime ? getHelsinkiParts(Date.parse(event.startTime)).hour : null;
           const timeStr = hour !== null ? `${hour}:00` : "";
           
           return (
@@ -157,7 +130,7 @@ export default function TonightsPicks({ events, onEventClick }: TonightsPicksPro
                   fontSize: 9
                 }}>LIVE</span>}
                 {timeStr && <span>{timeStr}</span>}
-                <span>{event.price === "free" ? "🆓" : "💳"}</span>
+                <span>{event.priceType === "free" ? "🆓" : "💳"}</span>
               </div>
             </button>
           );
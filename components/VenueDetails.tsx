@@ -15,9 +15,10 @@ interface VenueDetailsProps {
   venueName: string;
   lat: number;
   lng: number;
+  venue?: { id: string; googlePlaceId: string | null }; // Skips the name search once the place id is known
 }
 
-export function VenueDetails({ venueName, lat, lng }: VenueDetailsProps) {
+export function VenueDetails({ venueName, lat, lng, venue }: VenueDetailsProps) {
   const [details, setDetails] = useState<PlaceDetails | null>(null);
   const [nearby, setNearby] = useState<NearbyPlace[]>([]);
   const [loading, setLoading] = useState(true);
@@ -27,13 +28,13 @@ export function VenueDetails({ venueName, lat, lng }: VenueDetailsProps) {
     setLoading(true);
     
     // Fetch venue details
-    getCachedPlaceDetails(venueName, lat, lng)
+    getCachedPlaceDetails(venueName, lat, lng, venue)
       .then((data: PlaceDetails | null) => {
         setDetails(data);
         setLoading(false);
       })
       .catch(() => setLoading(false));
-  }, [venueName, lat, lng]);
+  }, [venueName, lat, lng, venue?.id, venue?.googlePlaceId]);
 
   const loadNearby = async () => {
     if (nearby.length > 0) {
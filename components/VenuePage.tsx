@@ -0,0 +1,92 @@
+import React from "react";
+import { VenueDetails } from "./VenueDetails";
+import { formatEventTime } from "../src/utils/formatEvent";
+import { getLocale } from "../src/utils/i18n";
+import { HELSINKI_TZ } from "../src/utils/helsinkiTime";
+import { getVenueName } from "../src/utils/venues";
+import type { HotspotEvent, Language, Venue } from "../src/types";
+
+interface VenuePageProps {
+  venue: Venue;
+  events: HotspotEvent[]; // Upcoming events at the venue, soonest first
+  language: Language;
+  selectedId?: string;
+  isLiveNow: (event: HotspotEvent) => boolean;
+  onEventClick: (id: string) => void;
+  onBack: () => void;
+}
+
+function formatDay(iso: string, language: Language): string {
+  return new Date(iso).toLocaleDateString(getLocale(language), {
+    timeZone: HELSINKI_TZ,
+    weekday: "short",
+    day: "numeric",
+    month: "numeric",
+  });
+}
+
+export default function VenuePage({ venue, events, language, selectedId, isLiveNow, onEventClick, onBack }: VenuePageProps) {
+  return (
+    <div style={{ flex: 1, overflowY: "auto", padding: "16px 24px" }}>
+      <button
+        onClick={onBack}
+        style={{
+          background: "none",
+          border: "none",
+          color: "#667eea",
+          cursor: "pointer",
+          fontSize: 13,
+          fontWeight: 600,
+          padding: 0,
+          marginBottom: 12,
+        }}
+      >
+        ← All events
+      </button>
+
+      <h3 style={{ margin: "0 0 4px 0", fontSize: 18, color: "#1a1a1a" }}>📍 {getVenueName(venue, language)}</h3>
+      {(venue.address || venue.city) && (
+        <div style={{ fontSize: 13, color: "#888" }}>
+          {[venue.address, venue.city].filter(Boolean).join(", ")}
+        </div>
+      )}
+
+      <VenueDetails venueName={venue.name} lat={venue.lat} lng={venue.lng} venue={venue} />
+
+      <div style={{ fontSize: 12, fontWeight: 600, color: "#666", margin: "20px 0 8px 0" }}>
+        {events.length === 0
+          ? "No upcoming events here"
+          : `${events.length} upcoming event${events.length === 1 ? "" : "s"}`}
+      </div>
+      <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "grid", gap: 8 }}>
+        {events.map(ev => {
+          const live = isLiveNow(ev);
+          return (
+            <li
+              key={ev.id}
+              onClick={() => onEventClick(ev.id)}
+              style={{
+                display: "flex",
+                gap: 12,
+                alignItems: "baseline",
+                padding: "10px 12px",
+                borderRadius: 10,
+                cursor: "pointer",
+                backgroundColor: selectedId === ev.id ? "#f0f4ff" : "#fafafa",
+                border: selectedId === ev.id ? "1px solid #667eea" : "1px solid transparent",
+              }}
+            >
+              <span style={{ fontSize: 12, color: "#667eea", fontWeight: 600, minWidth: 72 }}>
+                {live ? "LIVE NOW" : formatDay(ev.startTime, language)}
+              </span>
+              <span style={{ flex: 1, minWidth: 0 }}>
+                <span style={{ display: "block", fontSize: 14, fontWeight: 600, color: "#1a1a1a" }}>{ev.title}</span>
+                <span style={{ fontSize: 12, color: "#888" }}>{formatEventTime(ev, language)}</span>
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
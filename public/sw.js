@@ -0,0 +1,146 @@
+/**
+ * Service worker: keeps the app usable offline (e.g. on the metro).
+ * - App shell: network-first navigation with a cached index.html fallback
+ * - Built assets (/assets, hashed): cache-first
+ * - Bundled data (/data, e.g. district boundaries): stale-while-revalidate
+ * - MapTiler style, sprites and fonts: stale-while-revalidate
+ * - MapTiler tiles: cache-first, only tiles covering the Helsinki region
+ * API responses are not cached here; events live in IndexedDB (src/utils/eventStore.ts).
+ */
+
+const VERSION = "v1";
+const SHELL_CACHE = `shell-${VERSION}`;
+const MAP_CACHE = `map-${VERSION}`;
+const TILE_CACHE = `tiles-${VERSION}`;
+const CACHES = [SHELL_CACHE, MAP_CACHE, TILE_CACHE];
+
+const SHELL_URLS = ["/", "/index.html"];
+
+// Helsinki capital region, a bit wider than the default event bbox
+const HELSINKI_BBOX = { minLon: 24.5, minLat: 60.05, maxLon: 25.4, maxLat: 60.45 };
+const MAX_TILE_ZOOM = 16;
+const MAX_TILES = 3000;
+
+self.addEventListener("install", event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys => Promise.all(keys.filter(key => !CACHES.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", event => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith("/api/")) return;
+    if (request.mode === "navigate") {
+      event.respondWith(networkFirstShell(request));
+    } else if (url.pathname.startsWith("/assets/")) {
+      event.respondWith(cacheFirst(request, SHELL_CACHE));
+    } else if (url.pathname.startsWith("/data/")) {
+      // A missing file falls back to index.html with a 200; only keep real JSON
+      event.respondWith(staleWhileRevalidate(request, SHELL_CACHE, isJsonResponse));
+    }
+    return;
+  }
+
+  if (url.hostname === "api.maptiler.com") {
+    const tile = parseTile(url.pathname);
+    if (tile) {
+      if (tileInHelsinki(tile)) event.respondWith(cacheFirst(request, TILE_CACHE, MAX_TILES));
+    } else {
+      event.respondWith(staleWhileRevalidate(request, MAP_CACHE));
+    }
+  }
+});
+
+async function networkFirstShell(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put("/index.html", response.clone());
+    return response;
+  } catch (err) {
+    return (await cache.match("/index.html")) || Response.error();
+  }
+}
+
+async function cacheFirst(request, cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+    if (maxEntries) trimCache(cache, maxEntries);
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(request, cacheName, cacheable = response => response.ok) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (cacheable(response)) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || network;
+}
+
+function isJsonResponse(response) {
+  return response.ok && /json/i.test(response.headers.get("content-type") || "");
+}
+
+// Drop the oldest entries (cache keys keep insertion order)
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys();
+  for (const key of keys.slice(0, Math.max(0, keys.length - maxEntries))) {
+    await cache.delete(key);
+  }
+}
+
+/**
+ * {z, x, y} from a tile path like /tiles/v3/14/9326/4743.pbf
+ */
+function parseTile(pathname) {
+  const match = pathname.match(/\/(\d+)\/(\d+)\/(\d+)(?:@\dx)?\.(?:pbf|png|jpg|jpeg|webp)$/);
+  if (!match) return null;
+  return { z: Number(match[1]), x: Number(match[2]), y: Number(match[3]) };
+}
+
+function tileToLon(x, z) {
+  return (x / 2 ** z) * 360 - 180;
+}
+
+function tileToLat(y, z) {
+  const n = Math.PI - (2 * Math.PI * y) / 2 ** z;
+  return (180 / Math.PI) * Math.atan(Math.sinh(n));
+}
+
+function tileInHelsinki({ z, x, y }) {
+  if (z > MAX_TILE_ZOOM) return false;
+  const west = tileToLon(x, z);
+  const east = tileToLon(x + 1, z);
+  const north = tileToLat(y, z);
+  const south = tileToLat(y + 1, z);
+  return (
+    east >= HELSINKI_BBOX.minLon &&
+    west <= HELSINKI_BBOX.maxLon &&
+    north >= HELSINKI_BBOX.minLat &&
+    south <= HELSINKI_BBOX.maxLat
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * Downloads Helsinki's districts (kaupunginosat) from the city's open WFS and writes them to
+ * public/data/helsinki-districts.geojson, the file the app loads for the district choropleth.
+ * The file is not checked in: `npm run build` runs this first (prebuild) and fails if the download does,
+ * so no build ships without the district map and filter.
+ *
+ * Source: Helsingin kaupunginosajako, City of Helsinki (CC BY 4.0)
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+
+const WFS_URL =
+  "https://kartta.hel.fi/ws/geoserver/avoindata/wfs?service=WFS&version=2.0.0&request=GetFeature" +
+  "&typeName=avoindata:Kaupunginosajako&outputFormat=application/json&srsName=EPSG:4326";
+const OUTPUT = new URL("../public/data/helsinki-districts.geojson", import.meta.url);
+
+// ~1 m precision keeps the file small without visible changes at city zoom levels
+const round = value => Math.round(value * 1e5) / 1e5;
+const roundCoords = coords => (typeof coords[0] === "number" ? coords.map(round) : coords.map(roundCoords));
+
+const response = await fetch(WFS_URL);
+if (!response.ok) throw new Error(`District download failed: HTTP ${response.status}`);
+const { features } = await response.json();
+if (!Array.isArray(features) || features.length === 0) throw new Error("District download returned no features");
+
+const districts = features.map(({ properties: p, geometry }) => {
+  const id = String(p.tunnus ?? p.kokotunnus ?? "").trim();
+  if (!id || !p.nimi_fi || !["Polygon", "MultiPolygon"].includes(geometry?.type)) {
+    throw new Error(`Unexpected district feature: ${JSON.stringify(p)}`);
+  }
+  return {
+    type: "Feature",
+    properties: { id, name: p.nimi_fi, nameSv: p.nimi_se ?? p.nimi_fi },
+    geometry: { type: geometry.type, coordinates: roundCoords(geometry.coordinates) }
+  };
+});
+districts.sort((a, b) => a.properties.name.localeCompare(b.properties.name, "fi"));
+
+await mkdir(new URL(".", OUTPUT), { recursive: true });
+await writeFile(OUTPUT, JSON.stringify({ type: "FeatureCollection", features: districts }) + "\n");
+console.log(`Wrote ${districts.length} districts to ${OUTPUT.pathname}`);
@@ -0,0 +1,21 @@
+/**
+ * Types for shared/eventSeries.js
+ */
+
+import type { EventOccurrence } from "../src/types";
+
+export type SeriesEvent = {
+  id: string;
+  source: string;
+  title: string;
+  lat: number;
+  lng: number;
+  startTime: string;
+  endTime: string | null;
+  seriesId?: string;
+  occurrences?: EventOccurrence[];
+};
+
+export function linkedEventsRefId(ref: { "@id"?: string } | null | undefined): string | null;
+
+export function groupSeries<T extends SeriesEvent>(events: T[], now?: number): T[];
@@ -0,0 +1,72 @@
+/**
+ * Recurring series grouping shared by the client and /api/events-lite.
+ * LinkedEvents lists every occurrence of a weekly series as its own event pointing
+ * at a common super_event; we fold those into one parent with an occurrences list.
+ */
+
+import { hasEnded } from "./eventTime.js";
+
+/**
+ * Extract the event id from a LinkedEvents reference ({ "@id": ".../event/helsinki:abc/" })
+ * @param {{ "@id"?: string } | null | undefined} ref
+ * @returns {string | null}
+ */
+export function linkedEventsRefId(ref) {
+  const href = ref?.["@id"];
+  if (!href) return null;
+  const parts = href.split("/").filter(Boolean);
+  return parts.length ? decodeURIComponent(parts[parts.length - 1]) : null;
+}
+
+/**
+ * Group events sharing a seriesId (same title and location) into one parent event.
+ * The parent shows the next upcoming occurrence and keeps the rest in `occurrences`.
+ * Umbrella events (festivals) have sub-events with different titles, so those stay separate.
+ * A standalone copy of the series' super event is dropped once its occurrences are grouped.
+ * @template {{ id: string, source: string, title: string, lat: number, lng: number, startTime: string, endTime: string | null, seriesId?: string }} T
+ * @param {T[]} events
+ * @param {number} [now]
+ * @returns {T[]}
+ */
+export function groupSeries(events, now = Date.now()) {
+  const groups = new Map();
+  const out = [];
+
+  for (const event of events) {
+    if (!event.seriesId) {
+      out.push(event);
+      continue;
+    }
+    const key = [
+      event.seriesId,
+      event.title.toLowerCase().trim(),
+      event.lat.toFixed(4),
+      event.lng.toFixed(4)
+    ].join("|");
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(event);
+  }
+
+  const parentIds = new Set();
+  for (const members of groups.values()) {
+    if (members.length === 1) {
+      out.push(members[0]);
+      continue;
+    }
+
+    members.sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime));
+    const next = members.find(e => !hasEnded(e, now)) || members[members.length - 1];
+    const baseId = `${next.source}_${next.seriesId}`;
+    const id = parentIds.has(baseId) ? next.id : baseId;
+    parentIds.add(id);
+
+    out.push({
+      ...next,
+      id,
+      occurrences: members.map(e => ({ id: e.id, startTime: e.startTime, endTime: e.endTime }))
+    });
+  }
+
+  // The super event itself can appear in the listing too; the grouped parent replaces it
+  return out.filter(e => e.occurrences || !parentIds.has(e.id));
+}
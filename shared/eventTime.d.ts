@@ -0,0 +1,37 @@
+/**
+ * Types for shared/eventTime.js
+ */
+
+export interface TimeRules {
+  assumedDurationMs: number; // Duration assumed for events without an end time
+  maxLiveDurationMs: number; // Longer events (exhibitions, all-day venues) are never LIVE
+  startingSoonMs: number; // How far ahead an event counts as "starting soon"
+  multiDayMs: number; // Events at least this long are multi-day
+}
+
+export type TimedEvent = { startTime: string; endTime?: string | null };
+
+export type DurationClass = "unknown" | "short" | "long" | "multi-day";
+
+export type EventStatus = "unknown" | "upcoming" | "starting-soon" | "live" | "ongoing" | "ended";
+
+export const DEFAULT_TIME_RULES: TimeRules;
+
+export function createTimeRules(overrides?: Partial<TimeRules>): TimeRules;
+
+export function getEventInterval(
+  event: TimedEvent,
+  rules?: TimeRules
+): { start: number; end: number; hasEnd: boolean } | null;
+
+export function classifyDuration(event: TimedEvent, rules?: TimeRules): DurationClass;
+
+export function getEventStatus(event: TimedEvent, now?: number, rules?: TimeRules): EventStatus;
+
+export function isLiveNow(event: TimedEvent, now?: number, rules?: TimeRules): boolean;
+
+export function isStartingSoon(event: TimedEvent, now?: number, rules?: TimeRules): boolean;
+
+export function hasEnded(event: TimedEvent, now?: number, rules?: TimeRules): boolean;
+
+export function isMultiDay(event: TimedEvent, rules?: TimeRules): boolean;
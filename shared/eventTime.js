@@ -0,0 +1,129 @@
+/**
+ * Event timing rules shared by the client and /api/events-lite, so the LIVE badge
+ * on the map, in the list and in the server's isLiveNow flag always agree.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Tunable heuristics
+ * @typedef {Object} TimeRules
+ * @property {number} assumedDurationMs - Duration assumed for events without an end time
+ * @property {number} maxLiveDurationMs - Longer events (exhibitions, all-day venues) are never LIVE
+ * @property {number} startingSoonMs - How far ahead an event counts as "starting soon"
+ * @property {number} multiDayMs - Events at least this long are multi-day
+ */
+
+/** @type {TimeRules} */
+export const DEFAULT_TIME_RULES = {
+  assumedDurationMs: 3 * HOUR_MS,
+  maxLiveDurationMs: 12 * HOUR_MS,
+  startingSoonMs: 2 * HOUR_MS,
+  multiDayMs: 24 * HOUR_MS
+};
+
+/**
+ * Merge overrides into the default rules
+ * @param {Partial<TimeRules>} [overrides]
+ * @returns {TimeRules}
+ */
+export function createTimeRules(overrides = {}) {
+  return { ...DEFAULT_TIME_RULES, ...overrides };
+}
+
+/**
+ * Start/end instants of an event, or null if the start is missing or invalid.
+ * A missing, invalid or inverted end falls back to the assumed duration.
+ * @param {{ startTime: string, endTime?: string | null }} event
+ * @param {TimeRules} [rules]
+ * @returns {{ start: number, end: number, hasEnd: boolean } | null}
+ */
+export function getEventInterval(event, rules = DEFAULT_TIME_RULES) {
+  const start = event.startTime ? Date.parse(event.startTime) : NaN;
+  if (!isFinite(start)) return null;
+
+  const end = event.endTime ? Date.parse(event.endTime) : NaN;
+  if (isFinite(end) && end >= start) {
+    return { start, end, hasEnd: true };
+  }
+  return { start, end: start + rules.assumedDurationMs, hasEnd: false };
+}
+
+/**
+ * Duration class of an event
+ * @param {{ startTime: string, endTime?: string | null }} event
+ * @param {TimeRules} [rules]
+ * @returns {"unknown" | "short" | "long" | "multi-day"} unknown = no end time, long = over the LIVE cap
+ */
+export function classifyDuration(event, rules = DEFAULT_TIME_RULES) {
+  const interval = getEventInterval(event, rules);
+  if (!interval || !interval.hasEnd) return "unknown";
+
+  const duration = interval.end - interval.start;
+  if (duration >= rules.multiDayMs) return "multi-day";
+  if (duration > rules.maxLiveDurationMs) return "long";
+  return "short";
+}
+
+/**
+ * Where an event is relative to now
+ * @param {{ startTime: string, endTime?: string | null }} event
+ * @param {number} [now]
+ * @param {TimeRules} [rules]
+ * @returns {"unknown" | "upcoming" | "starting-soon" | "live" | "ongoing" | "ended"}
+ *   ongoing = open right now but too long to be LIVE (e.g. a multi-day exhibition)
+ */
+export function getEventStatus(event, now = Date.now(), rules = DEFAULT_TIME_RULES) {
+  const interval = getEventInterval(event, rules);
+  if (!interval) return "unknown";
+
+  const { start, end } = interval;
+  if (now >= end) return "ended";
+  if (now < start) {
+    return start - now <= rules.startingSoonMs ? "starting-soon" : "upcoming";
+  }
+  return end - start > rules.maxLiveDurationMs ? "ongoing" : "live";
+}
+
+/**
+ * True if the event is happening right now (start <= now < end) and isn't a long-running one
+ * @param {{ startTime: string, endTime?: string | null }} event
+ * @param {number} [now]
+ * @param {TimeRules} [rules]
+ * @returns {boolean}
+ */
+export function isLiveNow(event, now = Date.now(), rules = DEFAULT_TIME_RULES) {
+  return getEventStatus(event, now, rules) === "live";
+}
+
+/**
+ * True if the event starts within rules.startingSoonMs
+ * @param {{ startTime: string, endTime?: string | null }} event
+ * @param {number} [now]
+ * @param {TimeRules} [rules]
+ * @returns {boolean}
+ */
+export function isStartingSoon(event, now = Date.now(), rules = DEFAULT_TIME_RULES) {
+  return getEventStatus(event, now, rules) === "starting-soon";
+}
+
+/**
+ * True if the event has finished
+ * @param {{ startTime: string, endTime?: string | null }} event
+ * @param {number} [now]
+ * @param {TimeRules} [rules]
+ * @returns {boolean}
+ */
+export function hasEnded(event, now = Date.now(), rules = DEFAULT_TIME_RULES) {
+  return getEventStatus(event, now, rules) === "ended";
+}
+
+/**
+ * True if the event spans at least rules.multiDayMs
+ * @param {{ startTime: string, endTime?: string | null }} event
+ * @param {TimeRules} [rules]
+ * @returns {boolean}
+ */
+export function isMultiDay(event, rules = DEFAULT_TIME_RULES) {
+  return classifyDuration(event, rules) === "multi-day";
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_TIME_RULES,
+  classifyDuration,
+  createTimeRules,
+  getEventInterval,
+  getEventStatus,
+  hasEnded,
+  isLiveNow,
+  isMultiDay,
+  isStartingSoon
+} from "./eventTime";
+
+const HOUR = 60 * 60 * 1000;
+const START = "2026-06-12T18:00:00Z";
+const START_MS = Date.parse(START);
+const at = hours => START_MS + hours * HOUR;
+const iso = hours => new Date(at(hours)).toISOString();
+
+describe("getEventInterval", () => {
+  it("assumes 3 hours when there is no end time", () => {
+    expect(getEventInterval({ startTime: START })).toEqual({ start: START_MS, end: at(3), hasEnd: false });
+    expect(getEventInterval({ startTime: START, endTime: null })?.end).toBe(at(3));
+  });
+
+  it("falls back to the assumed duration when the end is before the start", () => {
+    expect(getEventInterval({ startTime: START, endTime: iso(-1) })).toEqual({ start: START_MS, end: at(3), hasEnd: false });
+  });
+
+  it("falls back to the assumed duration for an unparseable end", () => {
+    expect(getEventInterval({ startTime: START, endTime: "tomorrow" })?.hasEnd).toBe(false);
+  });
+
+  it("is null without a valid start", () => {
+    expect(getEventInterval({ startTime: "" })).toBeNull();
+    expect(getEventInterval({ startTime: "not a date" })).toBeNull();
+  });
+
+  it("accepts an end equal to the start", () => {
+    expect(getEventInterval({ startTime: START, endTime: START })).toEqual({ start: START_MS, end: START_MS, hasEnd: true });
+  });
+});
+
+describe("getEventStatus", () => {
+  it("treats an event without an end as live for 3 hours", () => {
+    const event = { startTime: START };
+    expect(getEventStatus(event, at(0))).toBe("live");
+    expect(getEventStatus(event, at(3) - 1)).toBe("live");
+    expect(getEventStatus(event, at(3))).toBe("ended");
+  });
+
+  it("treats an end before the start like a missing end", () => {
+    const event = { startTime: START, endTime: iso(-2) };
+    expect(getEventStatus(event, at(1))).toBe("live");
+    expect(hasEnded(event, at(3))).toBe(true);
+  });
+
+  it("is unknown without a start", () => {
+    expect(getEventStatus({ startTime: "" }, at(0))).toBe("unknown");
+  });
+
+  it("keeps events of exactly 12 hours LIVE and makes longer ones ongoing", () => {
+    const twelve = { startTime: START, endTime: iso(12) };
+    const longer = { startTime: START, endTime: new Date(at(12) + 1).toISOString() };
+    expect(getEventStatus(twelve, at(6))).toBe("live");
+    expect(getEventStatus(longer, at(6))).toBe("ongoing");
+    expect(isLiveNow(longer, at(6))).toBe(false);
+  });
+
+  it("is starting soon from 2 hours before the start, inclusive", () => {
+    const event = { startTime: START, endTime: iso(2) };
+    expect(getEventStatus(event, at(-2) - 1)).toBe("upcoming");
+    expect(getEventStatus(event, at(-2))).toBe("starting-soon");
+    expect(isStartingSoon(event, at(0) - 1)).toBe(true);
+    expect(isStartingSoon(event, at(0))).toBe(false);
+  });
+
+  it("shows a multi-day event as ongoing, never LIVE", () => {
+    const event = { startTime: START, endTime: iso(72) };
+    expect(getEventStatus(event, at(30))).toBe("ongoing");
+    expect(isLiveNow(event, at(30))).toBe(false);
+    expect(hasEnded(event, at(72))).toBe(true);
+  });
+
+  it("uses elapsed time across the night the clocks go back", () => {
+    // Helsinki leaves summer time on 2026-10-25 at 04:00 (+03:00 -> +02:00):
+    // 11.5 hours on the wall clock, 12.5 hours elapsed
+    const event = { startTime: "2026-10-24T17:00:00+03:00", endTime: "2026-10-25T04:30:00+02:00" };
+    expect(getEventStatus(event, Date.parse("2026-10-24T23:00:00+03:00"))).toBe("ongoing");
+  });
+
+  it("uses elapsed time across the night the clocks go forward", () => {
+    // Summer time starts on 2026-03-29 at 03:00 (+02:00 -> +03:00): 13 hours on the wall clock, 12 elapsed
+    const event = { startTime: "2026-03-28T20:00:00+02:00", endTime: "2026-03-29T09:00:00+03:00" };
+    const now = Date.parse("2026-03-29T03:30:00+03:00");
+    expect(getEventStatus(event, now)).toBe("live");
+    expect(hasEnded(event, Date.parse("2026-03-29T09:00:00+03:00"))).toBe(true);
+  });
+});
+
+describe("classifyDuration", () => {
+  it("is unknown without an end", () => {
+    expect(classifyDuration({ startTime: START })).toBe("unknown");
+    expect(classifyDuration({ startTime: START, endTime: iso(-1) })).toBe("unknown");
+  });
+
+  it("splits short, long and multi-day at 12 and 24 hours", () => {
+    expect(classifyDuration({ startTime: START, endTime: iso(12) })).toBe("short");
+    expect(classifyDuration({ startTime: START, endTime: iso(13) })).toBe("long");
+    expect(classifyDuration({ startTime: START, endTime: new Date(at(24) - 1).toISOString() })).toBe("long");
+    expect(classifyDuration({ startTime: START, endTime: iso(24) })).toBe("multi-day");
+  });
+
+  it("marks events of 24 hours or more as multi-day", () => {
+    expect(isMultiDay({ startTime: START, endTime: iso(24) })).toBe(true);
+    expect(isMultiDay({ startTime: START, endTime: iso(23) })).toBe(false);
+    expect(isMultiDay({ startTime: START })).toBe(false);
+  });
+});
+
+describe("createTimeRules", () => {
+  it("overrides only the given rules", () => {
+    const rules = createTimeRules({ assumedDurationMs: HOUR });
+    expect(rules).toEqual({ ...DEFAULT_TIME_RULES, assumedDurationMs: HOUR });
+    expect(getEventStatus({ startTime: START }, at(1), rules)).toBe("ended");
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Types for shared/helsinkiTime.js
+ */
+
+export const HELSINKI_TZ: string;
+
+// A half-open instant window [start, end) in epoch milliseconds
+export type TimeWindow = { start: number; end: number };
+
+export interface HelsinkiParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday ... 6 = Saturday, like Date.getDay()
+}
+
+export function getHelsinkiParts(ms?: number): HelsinkiParts;
+
+export function getHelsinkiDate(ms?: number, offsetDays?: number): string;
+
+export function addDays(date: string, days: number): string;
+
+export function helsinkiTimeOn(date: string, hour?: number, minute?: number): number;
+
+export function getDayWindow(date: string): TimeWindow;
+
+export function getDateRangeWindow(range: { start: string; end: string }): TimeWindow;
+
+export function overlapsWindow(event: { startTime: string; endTime?: string | null }, window: TimeWindow): boolean;
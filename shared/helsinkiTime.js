@@ -0,0 +1,138 @@
+/**
+ * Calendar days and wall-clock times in Europe/Helsinki, shared by the client and /api/events-lite
+ * so a planning window covers the same instants on both sides, whatever the runtime's timezone.
+ */
+
+export const HELSINKI_TZ = "Europe/Helsinki";
+
+/**
+ * A half-open instant window [start, end) in epoch milliseconds
+ * @typedef {{ start: number, end: number }} TimeWindow
+ */
+
+/**
+ * @typedef {Object} HelsinkiParts
+ * @property {number} year
+ * @property {number} month - 1-12
+ * @property {number} day
+ * @property {number} hour
+ * @property {number} minute
+ * @property {number} weekday - 0 = Sunday ... 6 = Saturday, like Date.getDay()
+ */
+
+const PARTS_FORMAT = new Intl.DateTimeFormat("en-US", {
+  timeZone: HELSINKI_TZ,
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "numeric",
+  minute: "numeric",
+  weekday: "short",
+  hourCycle: "h23"
+});
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Wall-clock date and time in Helsinki for an instant
+ * @param {number} [ms]
+ * @returns {HelsinkiParts}
+ */
+export function getHelsinkiParts(ms = Date.now()) {
+  const parts = {};
+  for (const { type, value } of PARTS_FORMAT.formatToParts(new Date(ms))) {
+    parts[type] = value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) in Helsinki, optionally offset by whole days
+ * @param {number} [ms]
+ * @param {number} [offsetDays]
+ * @returns {string}
+ */
+export function getHelsinkiDate(ms = Date.now(), offsetDays = 0) {
+  const { year, month, day } = getHelsinkiParts(ms);
+  return addDays(toDateString(year, month, day), offsetDays);
+}
+
+/**
+ * Add whole calendar days to a YYYY-MM-DD date
+ * @param {string} date
+ * @param {number} days
+ * @returns {string}
+ */
+export function addDays(date, days) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Instant of a Helsinki wall-clock time on a calendar date (handles DST)
+ * @param {string} date - YYYY-MM-DD
+ * @param {number} [hour]
+ * @param {number} [minute]
+ * @returns {number}
+ */
+export function helsinkiTimeOn(date, hour = 0, minute = 0) {
+  const [year, month, day] = date.split("-").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Guess with the offset at the wall-clock time, then correct once for DST transitions
+  let instant = wallClock - utcOffset(wallClock);
+  instant = wallClock - utcOffset(instant);
+  return instant;
+}
+
+/**
+ * Helsinki day boundaries for a calendar date: [00:00, next day 00:00)
+ * @param {string} date - YYYY-MM-DD
+ * @returns {TimeWindow}
+ */
+export function getDayWindow(date) {
+  return { start: helsinkiTimeOn(date), end: helsinkiTimeOn(addDays(date, 1)) };
+}
+
+/**
+ * Window covering a planning date range (both dates inclusive)
+ * @param {{ start: string, end: string }} range - YYYY-MM-DD
+ * @returns {TimeWindow}
+ */
+export function getDateRangeWindow(range) {
+  return { start: helsinkiTimeOn(range.start), end: helsinkiTimeOn(addDays(range.end, 1)) };
+}
+
+/**
+ * True if the event runs at any point inside the window.
+ * Events without an end time are treated as a single instant at their start.
+ * @param {{ startTime: string, endTime?: string | null }} event
+ * @param {TimeWindow} window
+ * @returns {boolean}
+ */
+export function overlapsWindow(event, window) {
+  const start = Date.parse(event.startTime);
+  if (!isFinite(start)) return false;
+  const parsedEnd = event.endTime ? Date.parse(event.endTime) : NaN;
+  const end = isFinite(parsedEnd) ? parsedEnd : start;
+  return start < window.end && (end > window.start || start >= window.start);
+}
+
+function toDateString(year, month, day) {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Helsinki's UTC offset (ms) at an instant
+function utcOffset(ms) {
+  const { year, month, day, hour, minute } = getHelsinkiParts(ms);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  return asUtc - Math.floor(ms / 60000) * 60000;
+}
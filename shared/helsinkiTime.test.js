@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { addDays, getDateRangeWindow, getHelsinkiDate, helsinkiTimeOn, overlapsWindow } from "./helsinkiTime";
+
+describe("helsinkiTimeOn", () => {
+  it("uses +03:00 in summer and +02:00 in winter", () => {
+    expect(new Date(helsinkiTimeOn("2026-06-12")).toISOString()).toBe("2026-06-11T21:00:00.000Z");
+    expect(new Date(helsinkiTimeOn("2026-01-12", 18, 30)).toISOString()).toBe("2026-01-12T16:30:00.000Z");
+  });
+
+  it("handles the days the clocks change", () => {
+    expect(new Date(helsinkiTimeOn("2026-03-29", 4)).toISOString()).toBe("2026-03-29T01:00:00.000Z");
+    expect(new Date(helsinkiTimeOn("2026-10-25", 4)).toISOString()).toBe("2026-10-25T02:00:00.000Z");
+  });
+});
+
+describe("getHelsinkiDate", () => {
+  it("is already the next day in Helsinki before 03:00 UTC in summer", () => {
+    expect(getHelsinkiDate(Date.parse("2026-06-12T22:30:00Z"))).toBe("2026-06-13");
+    expect(getHelsinkiDate(Date.parse("2026-06-12T20:30:00Z"), 1)).toBe("2026-06-13");
+  });
+});
+
+describe("getDateRangeWindow", () => {
+  it("spans whole Helsinki days, both dates inclusive", () => {
+    const window = getDateRangeWindow({ start: "2026-06-12", end: "2026-06-13" });
+    expect(new Date(window.start).toISOString()).toBe("2026-06-11T21:00:00.000Z");
+    expect(new Date(window.end).toISOString()).toBe("2026-06-13T21:00:00.000Z");
+  });
+
+  it("puts an event at 01:30 Helsinki time on its Helsinki day", () => {
+    const event = { startTime: "2026-06-12T22:30:00Z", endTime: "2026-06-12T23:30:00Z" };
+    expect(overlapsWindow(event, getDateRangeWindow({ start: "2026-06-13", end: "2026-06-13" }))).toBe(true);
+    expect(overlapsWindow(event, getDateRangeWindow({ start: "2026-06-12", end: "2026-06-12" }))).toBe(false);
+  });
+});
+
+describe("addDays", () => {
+  it("crosses month ends", () => {
+    expect(addDays("2026-06-30", 1)).toBe("2026-07-01");
+    expect(addDays("2026-03-01", -1)).toBe("2026-02-28");
+  });
+});
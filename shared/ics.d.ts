@@ -0,0 +1,23 @@
+/**
+ * Types for shared/ics.js
+ */
+
+export type CalendarEvent = {
+  id: string;
+  title: string;
+  description: string;
+  startTime: string;
+  endTime: string | null;
+  lat: number;
+  lng: number;
+  venueName: string;
+  city: string;
+  url: string | null;
+};
+
+export function toUtcStamp(ms: number): string;
+
+export function buildIcs(
+  events: CalendarEvent[],
+  options?: { calendarName?: string; refreshMinutes?: number }
+): string;
@@ -0,0 +1,187 @@
+/**
+ * RFC 5545 iCalendar builder shared by the client (.ics downloads) and /api/events-ics (subscribable feed)
+ */
+
+import { getEventInterval } from "./eventTime.js";
+
+const HELSINKI_TZ = "Europe/Helsinki";
+
+// EET/EEST with the EU rule: last Sunday of March 03:00 -> +03:00, last Sunday of October 04:00 -> +02:00
+const HELSINKI_VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${HELSINKI_TZ}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:+0200",
+  "TZOFFSETTO:+0300",
+  "TZNAME:EEST",
+  "DTSTART:19810329T030000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:+0300",
+  "TZOFFSETTO:+0200",
+  "TZNAME:EET",
+  "DTSTART:19961027T040000",
+  "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE"
+];
+
+const HELSINKI_PARTS = new Intl.DateTimeFormat("en-US", {
+  timeZone: HELSINKI_TZ,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23"
+});
+
+/**
+ * Helsinki wall-clock time as an iCalendar local DATE-TIME (20261024T190000)
+ * @param {number} ms
+ * @returns {string}
+ */
+function toHelsinkiStamp(ms) {
+  const parts = {};
+  for (const { type, value } of HELSINKI_PARTS.formatToParts(new Date(ms))) {
+    parts[type] = value;
+  }
+  return `${parts.year}${parts.month}${parts.day}T${parts.hour}${parts.minute}${parts.second}`;
+}
+
+/**
+ * UTC DATE-TIME (20261024T160000Z)
+ * @param {number} ms
+ * @returns {string}
+ */
+export function toUtcStamp(ms) {
+  return new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * TEXT value escaping (RFC 5545 3.3.11)
+ * @param {string} value
+ * @returns {string}
+ */
+function escapeText(value) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * URI value for the URL property: absolute http(s) links only, re-serialized by the URL parser.
+ * Feed links with control characters are dropped rather than cleaned, so a CR/LF can't start a new property.
+ * @param {string} url
+ * @returns {string|null}
+ */
+function uriValue(url) {
+  if (typeof url !== "string" || /[\u0000-\u001f\u007f]/.test(url)) return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "https:" || parsed.protocol === "http:" ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fold content lines at 75 octets without splitting multi-byte characters (RFC 5545 3.1)
+ * @param {string} line
+ * @returns {string}
+ */
+function foldLine(line) {
+  const encoder = new TextEncoder();
+  const parts = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * @typedef {Object} CalendarEvent
+ * @property {string} id
+ * @property {string} title
+ * @property {string} description
+ * @property {string} startTime
+ * @property {string|null} endTime
+ * @property {number} lat
+ * @property {number} lng
+ * @property {string} venueName
+ * @property {string} city
+ * @property {string|null} url
+ */
+
+/**
+ * @param {CalendarEvent} event
+ * @param {string} stamp - DTSTAMP value
+ * @returns {string[]}
+ */
+function buildVEvent(event, stamp) {
+  const interval = getEventInterval(event);
+  if (!interval) return [];
+
+  const location = [event.venueName, event.city].filter(Boolean).join(", ");
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.id}@helsinki-hotspots`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${HELSINKI_TZ}:${toHelsinkiStamp(interval.start)}`,
+    `DTEND;TZID=${HELSINKI_TZ}:${toHelsinkiStamp(interval.end)}`,
+    `SUMMARY:${escapeText(event.title)}`
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  if (isFinite(event.lat) && isFinite(event.lng)) lines.push(`GEO:${event.lat.toFixed(6)};${event.lng.toFixed(6)}`);
+  const url = event.url && uriValue(event.url);
+  if (url) lines.push(`URL:${url}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Build an iCalendar document for one or more events
+ * @param {CalendarEvent[]} events
+ * @param {Object} [options]
+ * @param {string} [options.calendarName] - Shown by calendar apps (X-WR-CALNAME)
+ * @param {number} [options.refreshMinutes] - Suggested polling interval for subscribed feeds
+ * @returns {string}
+ */
+export function buildIcs(events, { calendarName = "Helsinki Hotspots", refreshMinutes } = {}) {
+  const stamp = toUtcStamp(Date.now());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Helsinki Hotspots//Events//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${HELSINKI_TZ}`
+  ];
+  if (refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${refreshMinutes}M`, `X-PUBLISHED-TTL:PT${refreshMinutes}M`);
+  }
+  lines.push(
+    ...HELSINKI_VTIMEZONE,
+    ...events.flatMap(event => buildVEvent(event, stamp)),
+    "END:VCALENDAR"
+  );
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
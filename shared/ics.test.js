@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { buildIcs } from "./ics";
+
+const event = overrides => ({
+  id: "linkedevents_1",
+  title: "Jazz Night",
+  description: "",
+  startTime: "2026-06-12T18:00:00Z",
+  endTime: "2026-06-12T21:00:00Z",
+  lat: 60.17,
+  lng: 24.94,
+  venueName: "Savoy",
+  city: "Helsinki",
+  url: null,
+  ...overrides
+});
+
+// Unfolded content lines
+const contentLines = ics => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("buildIcs", () => {
+  it("writes http(s) event links as URL", () => {
+    const lines = contentLines(buildIcs([event({ url: "https://example.com/events/1?lang=fi" })]));
+    expect(lines).toContain("URL:https://example.com/events/1?lang=fi");
+  });
+
+  it("drops links that would inject properties through CR/LF", () => {
+    const ics = buildIcs([event({ url: "https://example.com/\r\nATTENDEE:mailto:x@example.com" })]);
+    const lines = contentLines(ics);
+    expect(lines.some(line => line.startsWith("URL:"))).toBe(false);
+    expect(lines.some(line => line.startsWith("ATTENDEE"))).toBe(false);
+  });
+
+  it("drops non-http links", () => {
+    const lines = contentLines(buildIcs([event({ url: "javascript:alert(1)" })]));
+    expect(lines.some(line => line.startsWith("URL:"))).toBe(false);
+  });
+
+  it("folds long links like other lines", () => {
+    const url = `https://example.com/${"a".repeat(120)}`;
+    const ics = buildIcs([event({ url })]);
+    expect(ics.split("\r\n").every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(contentLines(ics)).toContain(`URL:${url}`);
+  });
+
+  it("escapes text values", () => {
+    const lines = contentLines(buildIcs([event({ title: "Rock, Pop; Jazz\nLive" })]));
+    expect(lines).toContain("SUMMARY:Rock\\, Pop\\; Jazz\\nLive");
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Types for shared/search.js
+ */
+
+import type { SearchSnippets, SnippetPart } from "../src/types";
+
+export type SearchableEvent = {
+  id: string;
+  title: string;
+  description?: string;
+  venueName?: string;
+  category?: string;
+  i18n?: Partial<Record<"title" | "description" | "venueName", { fi?: string; sv?: string; en?: string }>>;
+};
+
+export interface SearchIndex {
+  ids: string[]; // Event ids by document number
+  postings: Map<string, Map<number, Record<string, number>>>; // stem -> doc -> field -> term frequency
+  termsByInitial: Map<string, string[]>; // First letter -> stems, the candidates for prefix and typo matches
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  terms: string[]; // Matched index terms, for highlighting
+}
+
+export function stem(word: string): string;
+
+export function buildSearchIndex(events: SearchableEvent[]): SearchIndex;
+
+export function searchIndex(index: SearchIndex, query: string): SearchHit[];
+
+export function highlight(text: string | null | undefined, terms: string[], maxChars?: number): SnippetPart[] | null;
+
+export function buildSnippets(
+  event: { title: string; venueName?: string; description?: string },
+  terms: string[]
+): SearchSnippets;
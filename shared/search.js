@@ -0,0 +1,269 @@
+/**
+ * Full-text event search shared by /api/events-lite (index rebuilt with the aggregate) and the client
+ * (offline and as-you-type ranking): fi/sv/en light stemming, prefix and typo-tolerant matching,
+ * field boosts and highlighted snippets.
+ */
+
+// Matches in the title count most, then the venue, category and description
+const FIELD_BOOSTS = { title: 3, venueName: 2, category: 1.5, description: 1 };
+
+// Exact stem > prefix ("jaz" -> jazz) > within edit distance ("konsrt" -> konsert)
+const EXACT_WEIGHT = 1;
+const PREFIX_WEIGHT = 0.7;
+const FUZZY_WEIGHT = 0.5;
+
+const MIN_STEM_LENGTH = 3;
+const SNIPPET_CHARS = 140;
+
+// Inflection endings (accents already folded, so ä is a), longest first; one is stripped per word.
+// Finnish: cases and plurals (konserteissa, konsertit, konsertin); Swedish: definite and plural forms; English: plural and -ing/-ed.
+const SUFFIXES = [
+  // Finnish
+  "eissa", "eista", "eilla", "eilta", "eille", "eihin",
+  "issa", "ista", "illa", "ilta", "ille", "ihin", "iden", "itten",
+  "ssa", "sta", "lla", "lta", "lle", "ksi", "tta", "ine", "ien",
+  "ia", "ja", "it", "ot", "na", "ta", "en", "an", "in", "on", "un", "yn",
+  // Swedish
+  "ernas", "arnas", "ornas", "erna", "arna", "orna", "ens", "ets", "er", "ar", "or", "et",
+  // English
+  "ings", "ing", "ies", "es", "ed", "s",
+  // Final vowels (Finnish partitive/nominative endings, Swedish -a/-e)
+  "a", "e", "i"
+].sort((a, b) => b.length - a.length);
+
+/**
+ * Lowercase and fold accents (ä -> a) so "kayttaja" finds "käyttäjä"
+ * @param {string} text
+ * @returns {string}
+ */
+function normalize(text) {
+  return (text || "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Words with their offsets in the original text
+ * @param {string} text
+ * @returns {{ word: string, start: number, end: number }[]}
+ */
+function words(text) {
+  const out = [];
+  for (const match of (text || "").matchAll(/[\p{L}\p{N}]+/gu)) {
+    out.push({ word: normalize(match[0]), start: match.index, end: match.index + match[0].length });
+  }
+  return out;
+}
+
+/**
+ * Light stem: strip one inflection ending, then undouble a trailing consonant
+ * (konsertti, konsertit, konserteissa -> konsert)
+ * @param {string} word - Normalized
+ * @returns {string}
+ */
+export function stem(word) {
+  let out = word;
+  for (const suffix of SUFFIXES) {
+    if (out.endsWith(suffix) && out.length - suffix.length >= MIN_STEM_LENGTH) {
+      out = out.slice(0, -suffix.length);
+      break;
+    }
+  }
+  if (/([bcdfghjklmnpqrstvwxz])\1$/.test(out)) out = out.slice(0, -1);
+  return out;
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds max
+ */
+function editDistance(a, b, max) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Text indexed for each field: the default value plus every translation
+ */
+function fieldTexts(event) {
+  const translations = key => Object.values(event.i18n?.[key] || {}).filter(Boolean);
+  return {
+    title: [event.title, ...translations("title")].join(" \n "),
+    venueName: [event.venueName, ...translations("venueName")].join(" \n "),
+    category: event.category || "",
+    description: [event.description, ...translations("description")].join(" \n ")
+  };
+}
+
+/**
+ * @typedef {Object} SearchIndex
+ * @property {string[]} ids - Event ids by document number
+ * @property {Map<string, Map<number, Object<string, number>>>} postings - stem -> doc -> field -> term frequency
+ * @property {Map<string, string[]>} termsByInitial - First letter -> stems, the candidates for prefix and typo matches
+ */
+
+/**
+ * Build an index over events
+ * @param {{ id: string, title: string, description?: string, venueName?: string, category?: string, i18n?: Object }[]} events
+ * @returns {SearchIndex}
+ */
+export function buildSearchIndex(events) {
+  const ids = [];
+  const postings = new Map();
+
+  events.forEach((event, doc) => {
+    ids.push(event.id);
+    for (const [field, text] of Object.entries(fieldTexts(event))) {
+      for (const { word } of words(text)) {
+        const term = stem(word);
+        if (!postings.has(term)) postings.set(term, new Map());
+        const docs = postings.get(term);
+        if (!docs.has(doc)) docs.set(doc, {});
+        const fields = docs.get(doc);
+        fields[field] = (fields[field] || 0) + 1;
+      }
+    }
+  });
+
+  const termsByInitial = new Map();
+  for (const term of postings.keys()) {
+    if (!termsByInitial.has(term[0])) termsByInitial.set(term[0], []);
+    termsByInitial.get(term[0]).push(term);
+  }
+
+  return { ids, postings, termsByInitial };
+}
+
+/**
+ * Index terms a query word matches, with their match weight. Only terms with the word's first letter are
+ * compared, so a keystroke doesn't run edit distance against the whole index (a typo in the first letter won't match).
+ * @param {SearchIndex} index
+ * @param {string} word - Normalized query word
+ * @returns {Map<string, number>}
+ */
+function expandWord(index, word) {
+  const term = stem(word);
+  const matches = new Map();
+  if (index.postings.has(term)) matches.set(term, EXACT_WEIGHT);
+
+  const maxEdits = word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+  for (const candidate of index.termsByInitial.get(term[0]) ?? []) {
+    if (matches.has(candidate)) continue;
+    if (word.length >= 2 && (candidate.startsWith(word) || candidate.startsWith(term))) {
+      matches.set(candidate, PREFIX_WEIGHT);
+    } else if (maxEdits > 0 && editDistance(term, candidate, maxEdits) <= maxEdits) {
+      matches.set(candidate, FUZZY_WEIGHT);
+    }
+  }
+  return matches;
+}
+
+/**
+ * @typedef {Object} SearchHit
+ * @property {string} id
+ * @property {number} score
+ * @property {string[]} terms - Matched index terms, for highlighting
+ */
+
+/**
+ * Rank indexed events for a query; every query word has to match somewhere
+ * @param {SearchIndex} index
+ * @param {string} query
+ * @returns {SearchHit[]} Best first
+ */
+export function searchIndex(index, query) {
+  const queryWords = words(query).map(w => w.word);
+  if (queryWords.length === 0) return [];
+
+  let scores = null; // doc -> score, narrowed by each word
+  const matchedTerms = new Map(); // doc -> terms
+
+  for (const word of queryWords) {
+    const wordScores = new Map();
+    for (const [term, weight] of expandWord(index, word)) {
+      for (const [doc, fields] of index.postings.get(term)) {
+        let termScore = 0;
+        for (const [field, tf] of Object.entries(fields)) {
+          termScore += FIELD_BOOSTS[field] * weight * (1 + Math.log(tf));
+        }
+        wordScores.set(doc, Math.max(wordScores.get(doc) || 0, termScore));
+        if (!matchedTerms.has(doc)) matchedTerms.set(doc, new Set());
+        matchedTerms.get(doc).add(term);
+      }
+    }
+    scores = scores
+      ? new Map([...scores].filter(([doc]) => wordScores.has(doc)).map(([doc, s]) => [doc, s + wordScores.get(doc)]))
+      : wordScores;
+    if (scores.size === 0) return [];
+  }
+
+  return [...scores]
+    .map(([doc, score]) => ({ id: index.ids[doc], score, terms: [...matchedTerms.get(doc)] }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * @typedef {{ text: string, match: boolean }} SnippetPart
+ */
+
+/**
+ * Split text into plain and matched parts around the matched terms, trimmed to a window around the first match
+ * @param {string} text
+ * @param {string[]} terms - From a SearchHit
+ * @param {number} [maxChars] - Window size; 0 keeps the whole text
+ * @returns {SnippetPart[]|null} Null if nothing in the text matched
+ */
+export function highlight(text, terms, maxChars = 0) {
+  if (!text) return null;
+  const termSet = new Set(terms);
+  const hits = words(text).filter(({ word }) => termSet.has(stem(word)) || terms.some(t => word.startsWith(t)));
+  if (hits.length === 0) return null;
+
+  let from = 0;
+  let to = text.length;
+  if (maxChars && text.length > maxChars) {
+    from = Math.max(0, hits[0].start - Math.floor(maxChars / 3));
+    to = Math.min(text.length, from + maxChars);
+  }
+
+  const parts = [];
+  let cursor = from;
+  for (const { start, end } of hits) {
+    if (start < from || end > to) continue;
+    if (start > cursor) parts.push({ text: text.slice(cursor, start), match: false });
+    parts.push({ text: text.slice(start, end), match: true });
+    cursor = end;
+  }
+  if (cursor < to) parts.push({ text: text.slice(cursor, to), match: false });
+  if (from > 0) parts.unshift({ text: "…", match: false });
+  if (to < text.length) parts.push({ text: "…", match: false });
+  return parts;
+}
+
+/**
+ * Highlighted title, venue and description snippet for a hit
+ * @param {{ title: string, venueName?: string, description?: string }} event
+ * @param {string[]} terms
+ * @returns {{ title?: SnippetPart[], venueName?: SnippetPart[], description?: SnippetPart[] }}
+ */
+export function buildSnippets(event, terms) {
+  const snippets = {};
+  const title = highlight(event.title, terms);
+  const venueName = highlight(event.venueName, terms);
+  const description = highlight(event.description, terms, SNIPPET_CHARS);
+  if (title) snippets.title = title;
+  if (venueName) snippets.venueName = venueName;
+  if (description) snippets.description = description;
+  return snippets;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { buildSearchIndex, buildSnippets, highlight, searchIndex, stem } from "./search";
+
+const EVENTS = [
+  { id: "jazz", title: "Jazz-konsertti", venueName: "Savoy-teatteri", category: "music", description: "Illan konsertti alkaa klo 19." },
+  { id: "rock", title: "Rock Night", venueName: "Tavastia", category: "music", description: "Loud guitars all night." },
+  { id: "venue", title: "Open Mic", venueName: "Jazz Bar Helsinki", category: "arts", description: "Bring your instrument." },
+  { id: "desc", title: "Brunch", venueName: "Cafe Regatta", category: "food", description: "Jazz in the background while you eat." },
+  { id: "sv", title: "Konserter i parken", venueName: "Esplanadi", category: "music", description: "" }
+];
+
+const index = buildSearchIndex(EVENTS);
+const ids = query => searchIndex(index, query).map(hit => hit.id);
+
+describe("stem", () => {
+  it("brings Finnish inflections to one stem", () => {
+    expect(stem("konsertit")).toBe(stem("konsertti"));
+    expect(stem("konserteissa")).toBe(stem("konsertti"));
+    expect(stem("konsertin")).toBe(stem("konsertti"));
+  });
+
+  it("strips Swedish and English endings", () => {
+    expect(stem("konserterna")).toBe("konsert");
+    expect(stem("concerts")).toBe("concert");
+  });
+
+  it("keeps short words whole", () => {
+    expect(stem("ja")).toBe("ja");
+    expect(stem("bar")).toBe("bar");
+  });
+});
+
+describe("searchIndex", () => {
+  it("finds inflected forms: konsertit -> Jazz-konsertti", () => {
+    expect(ids("konsertit")).toContain("jazz");
+    expect(ids("konserteissa")).toContain("jazz");
+  });
+
+  it("matches prefixes as you type: jaz -> jazz", () => {
+    expect(ids("jaz")).toEqual(expect.arrayContaining(["jazz", "venue", "desc"]));
+  });
+
+  it("tolerates typos", () => {
+    expect(ids("konsrtti")).toContain("jazz");
+    expect(ids("tavstia")).toEqual(["rock"]);
+  });
+
+  it("only tries typo matches among terms with the same first letter", () => {
+    expect(ids("ronsertti")).toEqual([]);
+    expect(index.termsByInitial.get("k")).toContain(stem("konsertti"));
+    expect(index.termsByInitial.get("k")).not.toContain("jazz");
+  });
+
+  it("ranks exact matches above prefix and typo matches", () => {
+    const hits = searchIndex(buildSearchIndex([
+      { id: "prefix", title: "Jazzfest" },
+      { id: "exact", title: "Jazz" }
+    ]), "jazz");
+    expect(hits.map(hit => hit.id)).toEqual(["exact", "prefix"]);
+  });
+
+  it("boosts title over venue over description", () => {
+    expect(ids("jazz")).toEqual(["jazz", "venue", "desc"]);
+  });
+
+  it("requires every query word to match", () => {
+    expect(ids("jazz savoy")).toEqual(["jazz"]);
+    expect(ids("jazz tavastia")).toEqual([]);
+  });
+
+  it("searches translations", () => {
+    const translated = buildSearchIndex([
+      { id: "1", title: "Jazzilta", i18n: { title: { sv: "Kväll med jazz", en: "Jazz evening" } } }
+    ]);
+    expect(searchIndex(translated, "evening").map(hit => hit.id)).toEqual(["1"]);
+    expect(searchIndex(translated, "kväll").map(hit => hit.id)).toEqual(["1"]);
+  });
+
+  it("returns nothing for an empty query", () => {
+    expect(searchIndex(index, "  ")).toEqual([]);
+  });
+});
+
+describe("snippets", () => {
+  it("highlights matched words in the title and venue", () => {
+    const [hit] = searchIndex(index, "savoy");
+    const snippets = buildSnippets(EVENTS[0], hit.terms);
+    expect(snippets.venueName).toEqual([
+      { text: "Savoy", match: true },
+      { text: "-teatteri", match: false }
+    ]);
+    expect(snippets.title).toBeUndefined();
+  });
+
+  it("highlights prefix matches", () => {
+    expect(highlight("Jazz Bar", ["jaz"])).toEqual([
+      { text: "Jazz", match: true },
+      { text: " Bar", match: false }
+    ]);
+  });
+
+  it("trims long descriptions to a window around the first match", () => {
+    const text = `${"Lorem ipsum dolor. ".repeat(20)}Jazz tonight. ${"Sit amet. ".repeat(20)}`;
+    const parts = highlight(text, ["jazz"], 60);
+    expect(parts[0]).toEqual({ text: "…", match: false });
+    expect(parts.at(-1)).toEqual({ text: "…", match: false });
+    expect(parts.filter(part => part.match).map(part => part.text)).toEqual(["Jazz"]);
+    expect(parts.map(part => part.text).join("").length).toBeLessThanOrEqual(62);
+  });
+
+  it("is null when nothing in the text matched", () => {
+    expect(highlight("Rock Night", ["jazz"])).toBeNull();
+  });
+});
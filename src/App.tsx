@@ -1,167 +1,124 @@
 import React, { useEffect, useMemo, useState, useRef } from "react";
 import MapGL, { MapGLHandle } from "./MapGL";
 import useDebounce from "./useDebounce";
-import { fetchEvents, type LinkedEvent } from "./utils/fetchEvents";
+import { useEvents } from "./useEvents";
+import type { HotspotEvent, Bounds, Language, DateRange, MapCamera, SearchSnippets, RouteMode } from "./types";
 import OnboardingModal from "../components/OnboardingModal";
 import EventSidebar from "../components/EventSidebar";
+import RoutePanel from "../components/RoutePanel";
 import BottomNavigation, { NavTab } from "../components/BottomNavigation";
 import FilterBar, { QuickFilter } from "../components/FilterBar";
 import PermissionModal from "../components/PermissionModal";
 import DataAttribution from "../components/DataAttribution";
-import { cacheEvents, getCachedEvents } from "./utils/eventCache";
-import { getLikedEvents, getCategoryPreferenceScore, addRecentSearch } from "./utils/personalization";
-
-const FILTER_OPTIONS = [
-  { id: "music", label: "🎵 Music", keywords: ["music", "concert", "band", "dj", "jazz", "rock", "pop", "classical"] },
-  { id: "nightlife", label: "🍻 Nightlife", keywords: ["club", "bar", "nightlife", "party", "pub"] },
-  { id: "food", label: "🍔 Food & Drink", keywords: ["food", "restaurant", "cafe", "dining", "brunch", "dinner"] },
-  { id: "arts", label: "🎨 Arts & Culture", keywords: ["art", "museum", "gallery", "exhibition", "culture", "theater", "theatre"] },
-  { id: "sports", label: "⚽ Sports & Outdoors", keywords: ["sport", "fitness", "outdoor", "hiking", "running", "yoga"] },
-  { id: "family", label: "👨‍👩‍👧 Family", keywords: ["family", "kids", "children", "workshop"] },
-];
-
-// OPTIMIZATION: Pre-compute filter lookup map for O(1) access
-const FILTER_MAP = new Map(FILTER_OPTIONS.map(opt => [opt.id, opt]));
-
-type EventLite = LinkedEvent;
-type Bounds = { minLon: number; minLat: number; maxLon: number; maxLat: number };
-
-function isLiveNow(e: EventLite, now = Date.now()) {
-  const s = e.start ? Date.parse(e.start) : NaN;
-  const hasEnd = !!e.end;
-  const en = hasEnd ? Date.parse(e.end!) : (isFinite(s) ? s + 6*60*60*1000 : NaN); // +6h fallback
-  
-  // Check if start and end times are valid
-  if (!isFinite(s) || !isFinite(en)) {
-    return false;
-  }
-  
-  // Event hasn't started yet
-  if (s > now) {
-    return false;
-  }
-  
-  // Event has ended
-  if (now >= en) {
-    return false;
-  }
-  
-  // Don't mark events as LIVE if they span more than 12 hours (likely exhibitions or all-day venue events)
-  const durationHours = (en - s) / (1000 * 60 * 60);
-  if (durationHours > 12) {
-    return false;
-  }
-  
-  // Event is currently happening
-  return true;
-}
-
-// Calculate distance between two points using Haversine formula (in km)
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const R = 6371; // Earth's radius in km
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLng = (lng2 - lng1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLng / 2) * Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-// Score events based on: LIVE status, distance, popularity, and category match
-function scoreEvent(
-  event: EventLite,
-  userLoc: { lat: number; lng: number } | null,
-  activeFilters: Set<string>,
-  currentTime: number
-): number {
-  let score = 0;
-  
-  // 1. LIVE STATUS (highest priority) - +1000 points
-  if (isLiveNow(event, currentTime)) {
-    score += 1000;
-  }
-  
-  // 2. DISTANCE - Up to +500 points (closer is better)
-  if (userLoc && event.lat !== null && event.lng !== null) {
-    const distance = calculateDistance(userLoc.lat, userLoc.lng, event.lat, event.lng);
-    // Events within 1km get max points, scaling down to 0 at 10km+
-    const distanceScore = Math.max(0, 500 - (distance * 50));
-    score += distanceScore;
-  }
-  
-  // 3. PERSONALIZATION - Up to +500 points for liked categories
-  const categoryPrefScore = getCategoryPreferenceScore(event.category);
-  score += categoryPrefScore;
-  
-  // 4. CATEGORY MATCH - +200 points per matching filter (OPTIMIZED: use Map lookup)
-  if (activeFilters.size > 0) {
-    const searchText = `${event.category} ${event.title}`.toLowerCase();
-    const matchCount = Array.from(activeFilters).filter(filterId => {
-      const filterOption = FILTER_MAP.get(filterId);
-      if (!filterOption) return false;
-      return filterOption.keywords.some(keyword => 
-        searchText.includes(keyword.toLowerCase())
-      );
-    }).length;
-    score += matchCount * 200;
-  }
-  
-  // 5. TIME UNTIL START - Slight bonus for events starting soon
-  if (event.start) {
-    const startTime = Date.parse(event.start);
-    const hoursUntilStart = (startTime - currentTime) / (1000 * 60 * 60);
-    if (hoursUntilStart > 0 && hoursUntilStart <= 3) {
-      // Events starting in the next 3 hours get a small boost
-      score += (3 - hoursUntilStart) * 50;
-    }
-  }
-  
-  return score;
+import TimelineScrubber from "../components/TimelineScrubber";
+import HeatmapTimeline from "../components/HeatmapTimeline";
+import OfflineIndicator from "../components/OfflineIndicator";
+import { getLikedEvents, getCategoryPreferences, getCategoryPreferenceScore, addRecentSearch, getLanguagePreference, setLanguagePreference } from "./utils/personalization";
+import { localizeEvent } from "./utils/i18n";
+import { hasEnded, isLiveNow } from "../shared/eventTime";
+import { buildSearchIndex, searchIndex as searchEvents, buildSnippets } from "../shared/search";
+import { parseUrlState, buildEventLink, UrlState } from "./utils/urlState";
+import { shareLink } from "./utils/share";
+import { downloadIcs, calendarFeedUrl } from "./utils/calendar";
+import { getSavedEvents } from "./utils/eventStore";
+import { useUrlSync } from "./hooks/useUrlSync";
+import { useRoutePlan } from "./hooks/useRoutePlan";
+import { useEventPipeline } from "./hooks/useEventPipeline";
+import { useDistricts } from "./hooks/useDistricts";
+import type { EventPipelineOptions } from "./utils/eventPipeline";
+import { groupEventsByVenue } from "./utils/venues";
+import { summarizeDistricts } from "./utils/districts";
+import { getEveningWindow, helsinkiTimeOn } from "./utils/helsinkiTime";
+
+// Show a specific occurrence of a recurring series instead of the next one
+function applyOccurrence(event: HotspotEvent, occurrenceId: string | undefined): HotspotEvent {
+  const occurrence = occurrenceId && event.occurrences?.find(o => o.id === occurrenceId);
+  if (!occurrence) return event;
+  return { ...event, startTime: occurrence.startTime, endTime: occurrence.endTime };
 }
 
 // Fallback demo events in case API fails
-const DEMO_EVENTS: EventLite[] = [
+const DEMO_EVENTS: HotspotEvent[] = [
   {
     id: "demo-1",
+    source: "linkedevents",
     title: "Demo Event - Market Square",
-    start: new Date(Date.now() - 3600000).toISOString(),
-    end: new Date(Date.now() + 7200000).toISOString(),
+    description: "",
+    startTime: new Date(Date.now() - 3600000).toISOString(),
+    endTime: new Date(Date.now() + 7200000).toISOString(),
     lat: 60.1675,
     lng: 24.9525,
-    category: "Market",
-    price: "free",
-    time: new Date().toLocaleString(),
-    website: "https://www.hel.fi"
+    venueName: "Market Square",
+    city: "Helsinki",
+    category: "food",
+    priceType: "free",
+    url: "https://www.hel.fi",
+    imageUrl: null,
+    isLiveNow: true,
+    score: 0
   }
 ];
 
 export default function App() {
   const mapRef = useRef<MapGLHandle | null>(null);
   const cardRefs = useRef<Record<string, HTMLLIElement | null>>({});
-  const [events, setEvents] = useState<EventLite[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [query, setQuery] = useState("");
-  const [price, setPrice] = useState<"" | "free" | "paid">("");
+  // Filters, selection and camera from a shared link (read once on load)
+  const [initialUrlState] = useState(() => parseUrlState());
+  // Planning mode: browse a future day or date span instead of upcoming events
+  const [dateRange, setDateRange] = useState<DateRange | null>(initialUrlState.dateRange);
+  const [timelineTime, setTimelineTime] = useState<number | null>(null);
+  const [query, setQuery] = useState(initialUrlState.query);
+  // The server narrows and ranks searches before its limit; the client ranks again below (also offline)
+  const debouncedQuery = useDebounce(query.trim(), 300);
+  // Refresh events every 10 minutes to remove past events and get new ones
+  const { data, pagination, sources, loading, error, offline, lastSync, refetch } = useEvents({ refreshIntervalMs: 10 * 60 * 1000, dateRange, q: debouncedQuery || undefined });
+  const [language, setLanguage] = useState<Language>(() => getLanguagePreference());
+  // Occurrence picked from a recurring series' date list (series id -> occurrence id)
+  const [selectedOccurrences, setSelectedOccurrences] = useState<Record<string, string>>({});
+  // Fall back to demo events if the API fails and nothing is cached, then show in the preferred language
+  const loadedEvents = useMemo(() => data ?? (error ? DEMO_EVENTS : []), [data, error]);
+  const events = useMemo(
+    () => loadedEvents.map(e => applyOccurrence(localizeEvent(e, language), selectedOccurrences[e.id])),
+    [loadedEvents, language, selectedOccurrences]
+  );
+  // District of each event, worked out when events load rather than on every filter change
+  const { districts, assignments: districtAssignments } = useDistricts(loadedEvents);
+  // Full-text index over the loaded events (stemmed, prefix and typo-tolerant)
+  const searchIndex = useMemo(() => buildSearchIndex(events), [events]);
+  const searchHits = useMemo(
+    () => (query.trim() ? new Map(searchEvents(searchIndex, query).map(hit => [hit.id, hit])) : null),
+    [searchIndex, query]
+  );
+  const [price, setPrice] = useState<"" | "free" | "paid">(initialUrlState.price);
   const [category, setCategory] = useState<"" | "music" | "food" | "sports" | "family" | "other">("");
   const [bounds, setBounds] = useState<Bounds | null>(null);
   const [themeOverride, setThemeOverride] = useState<"light" | "dark" | undefined>(undefined);
-  const [selectedId, setSelectedId] = useState<string | undefined>();
-  const [onlyLive, setOnlyLive] = useState(false);
-  const [activeFilters, setActiveFilters] = useState<Set<string>>(new Set());
+  const [selectedId, setSelectedId] = useState<string | undefined>(initialUrlState.selectedId ?? undefined);
+  const [onlyLive, setOnlyLive] = useState(initialUrlState.onlyLive);
+  const [activeFilters, setActiveFilters] = useState<Set<string>>(() => new Set(initialUrlState.activeFilters));
   const [showOnboarding, setShowOnboarding] = useState(false);
-  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [sidebarOpen, setSidebarOpen] = useState(() => initialUrlState.venueId !== null); // Shared venue links open its page
   const [sidebarView, setSidebarView] = useState<"events" | "settings" | "profile">("events");
   const [heatmapMode, setHeatmapMode] = useState(false);
+  const [heatmapTime, setHeatmapTime] = useState<number | null>(null); // Hour shown on the heatmap, null = now
   const [show3DBuildings, setShow3DBuildings] = useState(true);
+  const [groupByVenue, setGroupByVenue] = useState(false);
+  // Venue page in the sidebar
+  const [selectedVenueId, setSelectedVenueId] = useState<string | null>(initialUrlState.venueId);
+  // Route planner in the sidebar
+  const [routeEventId, setRouteEventId] = useState<string | null>(null);
+  const [routeMode, setRouteMode] = useState<RouteMode>("transit");
+  const [routeIndex, setRouteIndex] = useState(0); // Itinerary drawn on the map
   const [distanceUnit, setDistanceUnit] = useState<"km" | "miles">("km");
   const [currentTime, setCurrentTime] = useState(Date.now());
   const [activeTab, setActiveTab] = useState<NavTab>("map");
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
-  const [activeQuickFilters, setActiveQuickFilters] = useState<Set<QuickFilter>>(new Set());
-  const [maxDistance, setMaxDistance] = useState<number>(100); // 100 = no limit
+  const [activeQuickFilters, setActiveQuickFilters] = useState<Set<QuickFilter>>(() => new Set(initialUrlState.quickFilters));
+  const [maxDistance, setMaxDistance] = useState<number>(initialUrlState.maxDistance); // 100 = no limit
+  const [district, setDistrict] = useState<string | null>(initialUrlState.district);
+  const [districtMode, setDistrictMode] = useState(false); // District choropleth on the map
+  const [mapCamera, setMapCamera] = useState<MapCamera | null>(initialUrlState.view);
+  const [viewShared, setViewShared] = useState(false);
   const [geolocationLoaded, setGeolocationLoaded] = useState(false);
   const [showPermissionModal, setShowPermissionModal] = useState(false);
   const [locationPermissionAsked, setLocationPermissionAsked] = useState(false);
@@ -230,8 +187,8 @@ export default function App() {
     const hasSeenOnboarding = localStorage.getItem("hasSeenOnboarding");
     if (!hasSeenOnboarding) {
       setShowOnboarding(true);
-    } else {
-      // Load saved interests
+    } else if (initialUrlState.activeFilters.length === 0 && !initialUrlState.selectedId) {
+      // Load saved interests (a shared link's own filters take precedence)
       const savedInterests = localStorage.getItem("userInterests");
       if (savedInterests) {
         try {
@@ -244,212 +201,84 @@ export default function App() {
     }
   }, []);
 
-  // Fetch live events from LinkedEvents API on mount
-  useEffect(() => {
-    let cancelled = false;
-    
-    // Load cached events first
-    const cached = getCachedEvents();
-    if (cached && cached.length > 0) {
-      setEvents(cached);
-      setLoading(false);
-    }
-    
-    const fetchAndSetEvents = async () => {
-      if (cancelled) return;
-      // Only show loading if we don't have cached data
-      if (!cached || cached.length === 0) {
-        setLoading(true);
-      }
-      setError(null);
-      try {
-        const liveEvents = await fetchEvents();
-        if (!cancelled) {
-          setEvents(liveEvents);
-          // Cache successful fetch
-          cacheEvents(liveEvents);
-        }
-      } catch (e: any) {
-        console.error("Failed to fetch events:", e);
-        if (!cancelled) {
-          const errorMsg = e?.message || "Failed to load events";
-          setError(cached && cached.length > 0 ? errorMsg + " (showing cached data)" : errorMsg);
-          // Keep cached events if available, otherwise use demo
-          if (!cached || cached.length === 0) {
-            setEvents(DEMO_EVENTS);
-          }
-        }
-      } finally {
-        if (!cancelled) setLoading(false);
-      }
-    };
-    
-    // Initial fetch
-    fetchAndSetEvents();
-    
-    // Refresh events every 10 minutes to remove past events and get new ones
-    const intervalId = setInterval(fetchAndSetEvents, 10 * 60 * 1000);
-    
-    return () => { 
-      cancelled = true;
-      clearInterval(intervalId);
-    };
-  }, []); // Only run once on mount
-
   // Retry function for manual refresh
   const handleRetry = () => {
-    setLoading(true);
-    setError(null);
-    fetchEvents()
-      .then((liveEvents) => {
-        setEvents(liveEvents);
-        cacheEvents(liveEvents);
-      })
-      .catch((e: any) => {
-        console.error("Retry failed:", e);
-        setError(e?.message || "Failed to load events");
-      })
-      .finally(() => {
-        setLoading(false);
-      });
+    refetch();
   };
 
-  // Filter events by query, price, category, bounds, radial filters, and LIVE status
-  // Then score and sort by relevance
-  const filteredEvents = useMemo(() => {
-    let filtered = events;
-    
-    // Filter out events that ended more than 24 hours ago
-    const twentyFourHoursAgo = currentTime - (24 * 60 * 60 * 1000);
-    filtered = filtered.filter(e => {
-      if (!e.end) return true; // Keep events without end time
-      const endTime = Date.parse(e.end);
-      return endTime > twentyFourHoursAgo;
-    });
+  // Upcoming and live events per district, for the choropleth and the district picker
+  const districtSummaries = useMemo(
+    () => (districts ? summarizeDistricts(districts, events, districtAssignments, language, currentTime) : []),
+    [districts, events, districtAssignments, language, currentTime]
+  );
+  const districtEventIds = useMemo(
+    () => (district ? events.filter(e => districtAssignments.get(e.id) === district).map(e => e.id) : null),
+    [district, events, districtAssignments]
+  );
 
-    // Apply Quick Filters
-    if (activeQuickFilters.has("now")) {
-      filtered = filtered.filter(e => isLiveNow(e, currentTime));
-    }
-    
-    if (activeQuickFilters.has("tonight")) {
-      const todayStart = new Date(currentTime);
-      todayStart.setHours(0, 0, 0, 0);
-      const todayEnd = new Date(currentTime);
-      todayEnd.setHours(23, 59, 59, 999);
-      
-      filtered = filtered.filter(e => {
-        if (!e.start) return false;
-        const startTime = Date.parse(e.start);
-        return startTime >= todayStart.getTime() && startTime <= todayEnd.getTime();
-      });
-    }
-    
-    if (activeQuickFilters.has("weekend")) {
-      filtered = filtered.filter(e => {
-        if (!e.start) return false;
-        const eventDate = new Date(e.start);
-        const day = eventDate.getDay();
-        return day === 0 || day === 6; // Sunday (0) or Saturday (6)
-      });
-    }
-    
-    if (activeQuickFilters.has("free")) {
-      filtered = filtered.filter(e => e.price === "free");
-    }
-    
-    if (activeQuickFilters.has("popular")) {
-      // Filter by events with high scores (top 30%)
-      const scoredEvents = filtered.map(event => ({
-        event,
-        score: scoreEvent(event, userLocation, activeFilters, currentTime)
-      }));
-      scoredEvents.sort((a, b) => b.score - a.score);
-      const topThreshold = Math.ceil(scoredEvents.length * 0.3);
-      filtered = scoredEvents.slice(0, topThreshold).map(({ event }) => event);
-    }
+  // Filter, score and sort in a worker (src/utils/eventPipeline.ts); the minute tick re-ranks off the main thread
+  const pipelineOptions = useMemo<EventPipelineOptions>(() => ({
+    now: currentTime,
+    dateRange,
+    timelineTime,
+    quickFilters: Array.from(activeQuickFilters),
+    userLocation,
+    maxDistance,
+    districtEventIds,
+    searchScores: searchHits ? Object.fromEntries(Array.from(searchHits, ([id, hit]) => [id, hit.score])) : null,
+    price,
+    category,
+    activeFilters: Array.from(activeFilters),
+    bounds: debouncedBounds,
+    onlyLive,
+    // Liked-category boosts live in localStorage, which the worker can't read
+    categoryScores: Object.fromEntries(getCategoryPreferences().map(p => [p.category, getCategoryPreferenceScore(p.category)])),
+  }), [searchHits, price, category, debouncedBounds, onlyLive, activeFilters, currentTime, userLocation, activeQuickFilters, maxDistance, districtEventIds, dateRange, timelineTime]);
+  const filteredEvents = useEventPipeline(events, pipelineOptions);
+
+  // Heatmap playback runs through this evening, or the first planned day's
+  const heatmapEvening = useMemo(
+    () => getEveningWindow(dateRange ? helsinkiTimeOn(dateRange.start, 12) : currentTime),
+    [dateRange, currentTime]
+  );
 
-    // Filter by distance if user location is available
-    if (userLocation && maxDistance < 100) {
-      filtered = filtered.filter(e => {
-        if (e.lat === null || e.lng === null) return false;
-        const distance = calculateDistance(userLocation.lat, userLocation.lng, e.lat, e.lng);
-        return distance <= maxDistance;
-      });
-    }
-    
-    // Filter by search query
-    if (query) {
-      const lowerQuery = query.toLowerCase();
-      filtered = filtered.filter(e => 
-        e.title.toLowerCase().includes(lowerQuery) ||
-        e.category.toLowerCase().includes(lowerQuery)
-      );
-    }
-    
-    // Filter by price
-    if (price) {
-      filtered = filtered.filter(e => e.price === price);
-    }
-    
-    // Filter by category
-    if (category) {
-      filtered = filtered.filter(e => 
-        e.category.toLowerCase().includes(category.toLowerCase())
-      );
+  // Highlighted matches for the search results
+  const searchSnippets = useMemo(() => {
+    if (!searchHits) return undefined;
+    const snippets: Record<string, SearchSnippets> = {};
+    for (const event of filteredEvents) {
+      const hit = searchHits.get(event.id);
+      if (hit) snippets[event.id] = buildSnippets(event, hit.terms);
     }
+    return snippets;
+  }, [filteredEvents, searchHits]);
+
+  // All upcoming events at the open venue, whatever the filters
+  const venuePage = useMemo(() => {
+    if (!selectedVenueId) return null;
+    const group = groupEventsByVenue(events.filter(e => !hasEnded(e, currentTime))).get(selectedVenueId);
+    return group ?? null;
+  }, [events, selectedVenueId, currentTime]);
+
+  const openVenue = (venueId: string) => {
+    setSelectedVenueId(venueId);
+    setSidebarView("events");
+    setSidebarOpen(true);
+  };
 
-    // Filter by radial menu filters
-    if (activeFilters.size > 0) {
-      filtered = filtered.filter(e => {
-        // Check if event matches any active filter
-        return Array.from(activeFilters).some(filterId => {
-          const filterOption = FILTER_OPTIONS.find(opt => opt.id === filterId);
-          if (!filterOption) return false;
-          
-          // Special handling for "free" filter
-          if (filterId === "free") {
-            return e.price === "free";
-          }
-          
-          // Check if any keyword matches the event's category or title
-          const searchText = `${e.category} ${e.title}`.toLowerCase();
-          return filterOption.keywords.some(keyword => 
-            searchText.includes(keyword.toLowerCase())
-          );
-        });
-      });
-    }
-    
-    // Filter by bounds
-    if (debouncedBounds) {
-      const { minLon, minLat, maxLon, maxLat } = debouncedBounds;
-      filtered = filtered.filter(e => 
-        e.lng >= minLon && e.lng <= maxLon &&
-        e.lat >= minLat && e.lat <= maxLat
-      );
-    }
-    
-    // Filter by LIVE status if toggle is on
-    if (onlyLive) {
-      filtered = filtered.filter(e => isLiveNow(e, currentTime));
-    }
-    
-    // Score and sort events by relevance (skip if "popular" filter already sorted)
-    if (!activeQuickFilters.has("popular")) {
-      const scoredEvents = filtered.map(event => ({
-        event,
-        score: scoreEvent(event, userLocation, activeFilters, currentTime)
-      }));
-      
-      // Sort by score (highest first)
-      scoredEvents.sort((a, b) => b.score - a.score);
-      
-      filtered = scoredEvents.map(({ event }) => event);
-    }
-    
-    return filtered;
-  }, [events, query, price, category, debouncedBounds, onlyLive, activeFilters, currentTime, userLocation, activeQuickFilters, maxDistance]);
+  const routeEvent = useMemo(
+    () => (routeEventId ? events.find(e => e.id === routeEventId) ?? null : null),
+    [events, routeEventId]
+  );
+  const { plan: routePlan, loading: routeLoading, error: routeError } = useRoutePlan(userLocation, routeEvent, routeMode);
+  useEffect(() => setRouteIndex(0), [routePlan]);
+
+  const openRoutePlanner = (id: string) => {
+    setRouteEventId(id);
+    setSelectedId(id);
+    setSidebarView("events");
+    setSidebarOpen(true);
+  };
 
   // Show only liked events when Saved tab is active
   const displayEvents = useMemo(() => {
@@ -460,6 +289,71 @@ export default function App() {
     return filteredEvents;
   }, [activeTab, filteredEvents]);
 
+  // Mirror filters, selection and camera in the URL; back/forward restores them
+  const applyUrlState = (next: UrlState) => {
+    setQuery(next.query);
+    setPrice(next.price);
+    setActiveFilters(new Set(next.activeFilters));
+    setActiveQuickFilters(new Set(next.quickFilters));
+    setMaxDistance(next.maxDistance);
+    setDistrict(next.district);
+    setOnlyLive(next.onlyLive);
+    setDateRange(next.dateRange);
+    setSelectedId(next.selectedId ?? undefined);
+    setSelectedVenueId(next.venueId);
+    setMapCamera(next.view);
+    if (next.selectedId && next.selectedId !== selectedId) {
+      mapRef.current?.flyToEvent(next.selectedId, { zoom: 16 });
+    } else if (next.view) {
+      mapRef.current?.setCamera(next.view);
+    }
+  };
+
+  useUrlSync({
+    query,
+    price,
+    activeFilters: Array.from(activeFilters),
+    quickFilters: Array.from(activeQuickFilters),
+    maxDistance,
+    district,
+    onlyLive,
+    dateRange,
+    selectedId: selectedId ?? null,
+    venueId: selectedVenueId,
+    view: mapCamera,
+  }, applyUrlState);
+
+  // Open a shared event once it has loaded onto the map
+  const pendingEventIdRef = useRef(initialUrlState.selectedId);
+  useEffect(() => {
+    const id = pendingEventIdRef.current;
+    if (!id || !filteredEvents.some(e => e.id === id)) return;
+    pendingEventIdRef.current = null;
+    mapRef.current?.flyToEvent(id, { zoom: 16 });
+  }, [filteredEvents]);
+
+  const handleShareView = async () => {
+    const result = await shareLink("Helsinki Hotspots", window.location.href);
+    if (result === "copied") {
+      setViewShared(true);
+      setTimeout(() => setViewShared(false), 2000);
+    }
+  };
+
+  const handleShareEvent = (event: HotspotEvent) => shareLink(event.title, buildEventLink(event));
+
+  // Export every liked event regardless of the current filters: loaded ones as shown, the rest from the
+  // copies kept when they were liked (or the offline store); liked events found in neither are skipped
+  const handleExportSaved = async () => {
+    const likedIds = getLikedEvents().map(e => e.id);
+    const loaded = events.filter(e => likedIds.includes(e.id));
+    const loadedIds = new Set(loaded.map(e => e.id));
+    const stored = await getSavedEvents(likedIds.filter(id => !loadedIds.has(id)));
+    const saved = [...loaded, ...stored.map(e => localizeEvent(e, language))];
+    if (saved.length > 0) downloadIcs(saved, "helsinki-hotspots-saved.ics", "Helsinki Hotspots – Saved");
+    return { exported: saved.length, skipped: likedIds.length - saved.length };
+  };
+
   const onRowClick = (id: string) => {
     setSelectedId(id);
     mapRef.current?.flyToEvent(id);
@@ -494,6 +388,14 @@ export default function App() {
     setActiveFilters(new Set());
     setActiveQuickFilters(new Set());
     setMaxDistance(100);
+    setDistrict(null);
+    setDateRange(null);
+    setTimelineTime(null);
+  };
+
+  const handleDateRangeChange = (range: DateRange | null) => {
+    setDateRange(range);
+    setTimelineTime(null);
   };
 
   const handleQuickFilterToggle = (filter: QuickFilter) => {
@@ -531,9 +433,33 @@ export default function App() {
         onCategoryFilterToggle={handleCategoryFilterToggle}
         maxDistance={maxDistance}
         onMaxDistanceChange={setMaxDistance}
+        districts={districtSummaries}
+        district={district}
+        onDistrictChange={setDistrict}
         userLocation={userLocation}
+        dateRange={dateRange}
+        onDateRangeChange={handleDateRangeChange}
       />
 
+      {/* Timeline Scrubber (planning mode only) */}
+      {dateRange && (
+        <TimelineScrubber
+          dateRange={dateRange}
+          value={timelineTime}
+          onChange={setTimelineTime}
+        />
+      )}
+
+      {/* Heatmap hour and evening playback */}
+      {heatmapMode && (
+        <HeatmapTimeline
+          evening={heatmapEvening}
+          value={heatmapTime}
+          onChange={setHeatmapTime}
+          bottom={dateRange ? 240 : 150}
+        />
+      )}
+
       {/* Permission Modal */}
       <PermissionModal
         isOpen={showPermissionModal}
@@ -550,7 +476,10 @@ export default function App() {
       )}
 
       {/* Data Attribution */}
-      <DataAttribution />
+      <DataAttribution sources={sources} />
+
+      {/* Offline banner (events come from the IndexedDB store) */}
+      {offline && <OfflineIndicator lastSync={lastSync} eventCount={data?.length ?? 0} />}
 
       {/* Header with title only */}
       <div
@@ -609,6 +538,11 @@ export default function App() {
           : loading
           ? "Loading..."
           : `${filteredEvents.length} events`}
+        {!error && !loading && pagination?.truncated && (
+          <span style={{ color: "#999", fontWeight: 400 }}>
+            · showing {pagination.fetched.toLocaleString("en-US")} of {pagination.total.toLocaleString("en-US")}
+          </span>
+        )}
       </div>
 
       {/* Sidebar Toggle Button */}
@@ -703,13 +637,25 @@ export default function App() {
         ref={mapRef}
         events={filteredEvents} 
         onBoundsChange={setBounds} 
-        center={[24.9384, 60.1699]} 
-        zoom={12} 
+        center={initialUrlState.view ? [initialUrlState.view.lng, initialUrlState.view.lat] : [24.9384, 60.1699]} 
+        zoom={initialUrlState.view?.zoom ?? 12} 
+        onCameraChange={setMapCamera}
         themeOverride={themeOverride}
         selectedEventId={selectedId}
         onMarkerClick={setSelectedId}
         heatmapMode={heatmapMode}
+        heatmapTime={heatmapTime}
         show3DBuildings={show3DBuildings}
+        language={language}
+        groupByVenue={groupByVenue}
+        onVenueClick={openVenue}
+        onPlanRoute={openRoutePlanner}
+        route={routePlan?.itineraries[routeIndex] ?? null}
+        districts={districts}
+        districtCounts={districtSummaries}
+        districtMode={districtMode}
+        selectedDistrictId={district}
+        onDistrictClick={(id) => setDistrict(prev => (prev === id ? null : id))}
       />
 
       {/* Event Sidebar */}
@@ -727,13 +673,10 @@ export default function App() {
           mapRef.current?.flyToEvent(id, { zoom: 16 });
         }}
         query={query}
-        onQueryChange={(newQuery) => {
-          setQuery(newQuery);
-          // Track search after 2+ characters
-          if (newQuery.trim().length >= 2) {
-            addRecentSearch(newQuery);
-          }
-        }}
+        snippets={searchSnippets}
+        onQueryChange={setQuery}
+        onQueryCommit={addRecentSearch}
+        suggestionEvents={events}
         price={price}
         onPriceChange={setPrice}
         onlyLive={onlyLive}
@@ -742,25 +685,70 @@ export default function App() {
         activeFilters={activeFilters}
         onShowInterests={() => setShowOnboarding(true)}
         isLiveNow={isLiveNow}
+        onShareEvent={handleShareEvent}
+        venuePage={venuePage}
+        onVenueSelect={openVenue}
+        onVenueClose={() => setSelectedVenueId(null)}
+        routePanel={routeEvent && (
+          <RoutePanel
+            event={routeEvent}
+            language={language}
+            mode={routeMode}
+            onModeChange={setRouteMode}
+            plan={routePlan}
+            loading={routeLoading}
+            error={routeError}
+            hasLocation={userLocation !== null}
+            onRequestLocation={handleLocationAllow}
+            selectedIndex={routeIndex}
+            onSelectItinerary={setRouteIndex}
+            onBack={() => setRouteEventId(null)}
+          />
+        )}
+        onPlanRoute={openRoutePlanner}
+        onExportCalendar={activeTab === "saved" ? handleExportSaved : undefined}
+        calendarFeedUrl={calendarFeedUrl({
+          categories: Array.from(activeFilters),
+          freeOnly: price === "free" || activeQuickFilters.has("free"),
+          q: query,
+          bbox: debouncedBounds,
+        })}
+        onOccurrenceSelect={(eventId, occurrenceId) => {
+          setSelectedOccurrences(prev => ({ ...prev, [eventId]: occurrenceId }));
+          setSelectedId(eventId);
+        }}
         onEnableCompass={() => mapRef.current?.enableCompass()}
         themeOverride={themeOverride}
         onThemeChange={setThemeOverride}
         heatmapMode={heatmapMode}
-        onHeatmapModeChange={setHeatmapMode}
+        onHeatmapModeChange={(enabled) => {
+          setHeatmapMode(enabled);
+          if (!enabled) setHeatmapTime(null);
+        }}
+        districtMode={districtMode}
+        onDistrictModeChange={districts ? setDistrictMode : undefined}
         show3DBuildings={show3DBuildings}
         onShow3DBuildingsChange={setShow3DBuildings}
+        groupByVenue={groupByVenue}
+        onGroupByVenueChange={setGroupByVenue}
         distanceUnit={distanceUnit}
         onDistanceUnitChange={setDistanceUnit}
+        language={language}
+        onLanguageChange={(lang) => {
+          setLanguage(lang);
+          setLanguagePreference(lang);
+        }}
         loading={loading}
         error={error}
         onRetry={handleRetry}
         onApplyPreset={(preset) => {
           if (preset === "tonight") {
-            setOnlyLive(true);
+            setOnlyLive(false);
             setActiveFilters(new Set());
+            setActiveQuickFilters(new Set<QuickFilter>(["tonight"]));
           } else if (preset === "weekend") {
-            // This weekend logic would need date filtering
             setOnlyLive(false);
+            setActiveQuickFilters(new Set<QuickFilter>(["weekend"]));
           } else if (preset === "free") {
             setPrice("free");
             setActiveFilters(new Set());
@@ -814,6 +802,35 @@ export default function App() {
           📍
         </button>
 
+        {/* Share Current View Button */}
+        <button
+          onClick={handleShareView}
+          style={{
+            width: 56,
+            height: 56,
+            borderRadius: "50%",
+            background: "#fff",
+            color: "#667eea",
+            border: "2px solid #667eea",
+            cursor: "pointer",
+            fontSize: "22px",
+            boxShadow: "0 2px 8px rgba(0, 0, 0, 0.1)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            transition: "all 0.2s ease",
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.transform = "scale(1.1)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.transform = "scale(1)";
+          }}
+          title={viewShared ? "Link copied" : "Share this view"}
+        >
+          {viewShared ? "✓" : "🔗"}
+        </button>
+
         {/* Home/Reset Button */}
         <button
           onClick={() => {
@@ -1,78 +1,33 @@
 import React, { useEffect, useMemo, useRef, useImperativeHandle, forwardRef } from "react";
 import { createRoot, Root } from "react-dom/client";
-import maplibregl, { Map as MLMap, LngLatBoundsLike } from "maplibre-gl";
+import maplibregl, { Map as MLMap, LngLatBoundsLike, MapLayerMouseEvent } from "maplibre-gl";
 import "maplibre-gl/dist/maplibre-gl.css";
 import { MAP_STYLE_LIGHT, MAP_STYLE_DARK } from "./mapStyle";
-import { VenueDetails } from "../components/VenueDetails";
+import EventPopup, { EventStackList } from "../components/EventPopup";
+import EventTooltip from "../components/EventTooltip";
 import { loadMapIcons, getCategoryIcon } from "./mapIcons";
+import { applyMapLayers, applySelection, applyBuildings, bindLayerEvents, setLayersVisible, setSourceData, whenLive, DISTRICT_LAYERS, EMPTY_COLLECTION } from "./mapLayers";
+import type { EventFeatureState, MapLayerState, MapSourceId, MapTheme } from "./mapLayers";
 
-type Ev = { 
-  id:string; 
-  title:string; 
-  lat:number | null; 
-  lng:number | null; 
-  category:string; 
-  price:"free"|"paid"; 
-  time?:string; 
-  website?:string|null;
-  start?: string;  // ISO date
-  end?: string;    // ISO date
-  ticketUrl?: string | null;  // Direct link to purchase tickets
-  ticketPrice?: string | null;  // Price information from offers
-  ticketInfo?: string | null;  // Additional ticket details
-  maxAttendees?: number | null;  // Maximum capacity
-  currentAttendees?: number | null;  // Current registrations
-};
-type Bounds = { minLon:number; minLat:number; maxLon:number; maxLat:number };
+import type { HotspotEvent, Bounds, District, DistrictSummary, Language, MapCamera, MapEventProperties, RouteItinerary } from "./types";
+import { formatEventTime } from "./utils/formatEvent";
+import { getTonightWindow, overlapsWindow } from "./utils/helsinkiTime";
+import type { TimeWindow } from "./utils/helsinkiTime";
+import { getEventStatus, isLiveNow } from "../shared/eventTime";
+import { getEventVenue } from "./utils/venues";
+import { SPIDER_MAX_LEGS, locationKey, spiderLegOffsets } from "./utils/spiderfy";
+import { getLegColor } from "./utils/routing";
 
-function formatEventTime(timeStr?: string): string {
-  if (!timeStr) return "";
-  
-  // If it's the default all-day format (00:00-23:59 or similar), don't show time
-  if (timeStr.includes("00:00") && timeStr.includes("23:59")) {
-    return "All day";
-  }
-  if (timeStr.includes("00.00") && timeStr.includes("23.59")) {
-    return "All day";
-  }
-  if (timeStr.includes("00:01") && timeStr.includes("23:59")) {
-    return "All day";
-  }
-  
-  // Return the time, but limit to reasonable length
-  return timeStr.slice(0, 16);
-}
+type Ev = HotspotEvent;
 
-function isLiveNow(e: Ev, now = Date.now()) {
-  const s = e.start ? Date.parse(e.start) : NaN;
-  const hasEnd = !!e.end;
-  const en = hasEnd ? Date.parse(e.end!) : (isFinite(s) ? s + 6*60*60*1000 : NaN); // +6h fallback
-  
-  // Check if event is currently happening
-  if (!isFinite(s) || !isFinite(en) || s > now || now > en) {
-    return false;
-  }
-  
-  // Don't mark events as LIVE if they span more than 12 hours (likely exhibitions or all-day venue events)
-  const durationHours = (en - s) / (1000 * 60 * 60);
-  if (durationHours > 12) {
-    return false;
-  }
-  
-  return true;
-}
-
-function eventsToGeoJSON(events: Ev[], now = Date.now()) {
-  return {
-    type: "FeatureCollection",
-    features: (events || [])
+// Time-independent pin data; LIVE and other time-dependent status goes in feature state (getEventFeatureState)
+function eventsToGeoJSON(events: Ev[], language: Language = "fi", groupByVenue = false) {
+  const features = (events || [])
       .filter((e) => e.lat !== null && e.lng !== null)
       .map((e: Ev) => {
-        const isLive = isLiveNow(e, now);
-        // Simple score: live events get 1000, others get 500-700 based on category
+        // Simple score: 600-700 based on category
         let score = 600;
-        if (isLive) score = 1000;
-        else if (e.price === "free") score += 50;
+        if (e.priceType === "free") score += 50;
         else if (["music", "food", "arts"].includes(e.category)) score += 100;
         
         // Determine icon based on category
@@ -89,16 +44,20 @@ function eventsToGeoJSON(events: Ev[], now = Date.now()) {
         else if (normalized.includes("gaming") || normalized.includes("game")) iconKey = "gaming";
         else if (normalized.includes("festival") || normalized.includes("fair")) iconKey = "festival";
         
+        const venue = getEventVenue(e);
         return {
           type: "Feature",
           properties: { 
             id: e.id, 
+            venueId: venue.id,
+            venueEventCount: 1,
             title: e.title, 
             category: e.category, 
-            price: e.price, 
-            time: e.time || "", 
-            website: e.website || "",
-            isLive,
+            price: e.priceType, 
+            time: formatEventTime(e, language), 
+            website: e.url || "",
+            venueName: e.venueName,
+            occurrenceCount: e.occurrences?.length ?? 0,
             score,
             iconKey,
             ticketUrl: e.ticketUrl || null,
@@ -109,8 +68,105 @@ function eventsToGeoJSON(events: Ev[], now = Date.now()) {
           },
           geometry: { type: "Point", coordinates: [e.lng!, e.lat!] }
         };
-      })
-  } as any;
+      });
+  if (!groupByVenue) return { type: "FeatureCollection", features: withColocatedCounts(features) } as any;
+
+  // One pin per venue: the live (or best-scored) event stands for the others, with the venue's event count
+  const now = Date.now();
+  const liveIds = new Set(events.filter(e => isLiveNow(e, now)).map(e => e.id));
+  const isLive = (f: (typeof features)[number]) => Number(liveIds.has(f.properties.id));
+  const byVenue = new Map<string, typeof features>();
+  for (const feature of features) {
+    const group = byVenue.get(feature.properties.venueId);
+    if (group) group.push(feature);
+    else byVenue.set(feature.properties.venueId, [feature]);
+  }
+  const grouped = Array.from(byVenue.values()).map(group => {
+    if (group.length === 1) return group[0];
+    const lead = group.reduce((best, f) =>
+      (isLive(f) - isLive(best) || f.properties.score - best.properties.score) > 0 ? f : best
+    );
+    return { ...lead, properties: { ...lead.properties, venueEventCount: group.length } };
+  });
+  return { type: "FeatureCollection", features: withColocatedCounts(grouped) } as any;
+}
+
+/**
+ * LIVE, starting-soon, tonight and open-now flags at `now`, for setFeatureState
+ */
+function getEventFeatureState(event: Ev, now: number, tonight: TimeWindow): EventFeatureState {
+  const status = getEventStatus(event, now);
+  const isLive = isLiveNow(event, now);
+  return {
+    isLive,
+    isStartingSoon: status === "starting-soon",
+    isTonight: !isLive && overlapsWindow(event, tonight),
+    isOpenNow: !isLive && status === "ongoing"
+  };
+}
+
+/**
+ * Heatmap weight of an event at `time`: 1 while LIVE, a little for open venues and exhibitions, else 0
+ */
+function getHeatWeight(event: Ev, time: number): number {
+  if (isLiveNow(event, time)) return 1;
+  return getEventStatus(event, time) === "ongoing" ? 0.3 : 0;
+}
+
+function sameFeatureState(a: EventFeatureState, b: EventFeatureState) {
+  return a.isLive === b.isLive && a.isStartingSoon === b.isStartingSoon && a.isTonight === b.isTonight && a.isOpenNow === b.isOpenNow;
+}
+
+/**
+ * Sets colocatedCount: how many pins sit on exactly this point. Such stacks never break apart
+ * by zooming, so clicks spiderfy them instead.
+ */
+function withColocatedCounts<F extends { properties: Record<string, any>; geometry: { coordinates: number[] } }>(features: F[]): F[] {
+  const counts = new Map<string, number>();
+  const keys = features.map(f => {
+    const key = locationKey(f.geometry.coordinates[0], f.geometry.coordinates[1]);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+    return key;
+  });
+  features.forEach((f, i) => {
+    f.properties.colocatedCount = counts.get(keys[i]);
+  });
+  return features;
+}
+
+/**
+ * Route source data for a planned itinerary (empty for null); the registry styles transit and walking legs
+ */
+function routeToGeoJSON(itinerary: RouteItinerary | null) {
+  return {
+    type: "FeatureCollection" as const,
+    features: (itinerary?.legs ?? [])
+      .filter(leg => leg.coordinates.length > 1)
+      .map(leg => ({
+        type: "Feature" as const,
+        properties: { color: getLegColor(leg), walk: leg.mode === "WALK" },
+        geometry: { type: "LineString" as const, coordinates: leg.coordinates }
+      }))
+  };
+}
+
+/**
+ * District source data: boundaries with the name and event count the choropleth colours and labels by
+ */
+function districtsToGeoJSON(districts: District[], counts: DistrictSummary[]) {
+  const byId = new Map(counts.map(summary => [summary.id, summary]));
+  return {
+    type: "FeatureCollection" as const,
+    features: districts.map(district => ({
+      type: "Feature" as const,
+      properties: {
+        id: district.id,
+        name: byId.get(district.id)?.name ?? district.name,
+        count: byId.get(district.id)?.count ?? 0
+      },
+      geometry: district.geometry
+    }))
+  };
 }
 
 export type MapGLHandle = {
@@ -118,6 +174,7 @@ export type MapGLHandle = {
   enableCompass: () => void;
   centerOnUserLocation: () => void;
   resetToHome: () => void;
+  setCamera: (camera: MapCamera) => void;
 };
 
 const MapGL = forwardRef<MapGLHandle, {
@@ -129,8 +186,20 @@ const MapGL = forwardRef<MapGLHandle, {
   zoom?: number;
   themeOverride?: "light" | "dark";
   heatmapMode?: boolean;
+  heatmapTime?: number | null; // Hour the heatmap shows, null = now
   show3DBuildings?: boolean;
-}>(function MapGL({ events, onBoundsChange, onMarkerClick, selectedEventId, center = [24.9384, 60.1699], zoom = 12, themeOverride, heatmapMode: heatmapModeProp = false, show3DBuildings: show3DBuildingsProp = true }, ref) {
+  language?: Language;
+  onCameraChange?: (camera: MapCamera) => void;
+  groupByVenue?: boolean; // One pin per venue with its event count
+  onVenueClick?: (venueId: string) => void; // Clicking a venue pin with several events
+  onPlanRoute?: (id: string) => void; // "How to get there" in an event popup
+  route?: RouteItinerary | null; // Itinerary drawn on the map
+  districts?: District[] | null; // Boundaries for the choropleth
+  districtCounts?: DistrictSummary[]; // Upcoming and live events per district
+  districtMode?: boolean; // Show the district choropleth
+  selectedDistrictId?: string | null;
+  onDistrictClick?: (districtId: string) => void;
+}>(function MapGL({ events, onBoundsChange, onMarkerClick, selectedEventId, center = [24.9384, 60.1699], zoom = 12, themeOverride, heatmapMode: heatmapModeProp = false, heatmapTime = null, show3DBuildings: show3DBuildingsProp = true, language = "fi", onCameraChange, groupByVenue = false, onVenueClick, onPlanRoute, route = null, districts = null, districtCounts, districtMode = false, selectedDistrictId = null, onDistrictClick }, ref) {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const mapRef = useRef<MLMap | null>(null);
   const currentThemeRef = useRef<string | null>(null);
@@ -143,21 +212,53 @@ const MapGL = forwardRef<MapGLHandle, {
   const popupRef = useRef<maplibregl.Popup | null>(null);
   const popupRootRef = useRef<Root | null>(null);
   const rafRef = useRef<number>(0);
+  const spiderOpenRef = useRef(false);
+  const userLocationRef = useRef<[number, number] | null>(null); // Centre of the user-radius circle
+  const eventStatusRef = useRef(new Map<string, EventFeatureState>()); // Last status pushed per event id
+  const heatRef = useRef(new Map<string, number>()); // Last heatmap weight pushed per event id
   const [showSearchButton, setShowSearchButton] = React.useState(false);
-  const [currentTime, setCurrentTime] = React.useState(Date.now());
   const initialCenterRef = useRef(center);
+  const onCameraChangeRef = useRef(onCameraChange);
+  onCameraChangeRef.current = onCameraChange;
+  const onVenueClickRef = useRef(onVenueClick);
+  onVenueClickRef.current = onVenueClick;
+  const onPlanRouteRef = useRef(onPlanRoute);
+  onPlanRouteRef.current = onPlanRoute;
+  const routeRef = useRef(route);
+  routeRef.current = route;
+  const onDistrictClickRef = useRef(onDistrictClick);
+  onDistrictClickRef.current = onDistrictClick;
   const heatmapMode = heatmapModeProp;
   const show3DBuildings = show3DBuildingsProp;
+  // Layer state and source data are read again whenever a style (re)load re-applies the layer registry
+  const selectedEventIdRef = useRef(selectedEventId);
+  selectedEventIdRef.current = selectedEventId;
+  const heatmapModeRef = useRef(heatmapMode);
+  heatmapModeRef.current = heatmapMode;
+  const heatmapTimeRef = useRef(heatmapTime);
+  heatmapTimeRef.current = heatmapTime;
+  const show3DBuildingsRef = useRef(show3DBuildings);
+  show3DBuildingsRef.current = show3DBuildings;
+  const districtModeRef = useRef(districtMode);
+  districtModeRef.current = districtMode;
+  const selectedDistrictIdRef = useRef(selectedDistrictId);
+  selectedDistrictIdRef.current = selectedDistrictId;
+  const highlightedDistrictRef = useRef<string | null>(null); // District with the "selected" feature state
 
-  // Update current time every minute to refresh LIVE status
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setCurrentTime(Date.now());
-    }, 60000); // Update every minute
-    return () => clearInterval(interval);
-  }, []);
+  const geo = useMemo(() => eventsToGeoJSON(events, language, groupByVenue), [events, language, groupByVenue]);
+  const geoRef = useRef(geo);
+  geoRef.current = geo;
+  // The heatmap counts every event, also where pins are grouped by venue
+  const heatGeo = useMemo(
+    () => (groupByVenue ? eventsToGeoJSON(events, language, false) : geo),
+    [events, language, groupByVenue, geo]
+  );
+  const heatGeoRef = useRef(heatGeo);
+  heatGeoRef.current = heatGeo;
 
-  const geo = useMemo(() => eventsToGeoJSON(events as any, currentTime), [events, currentTime]);
+  const districtGeo = useMemo(() => districtsToGeoJSON(districts ?? [], districtCounts ?? []), [districts, districtCounts]);
+  const districtGeoRef = useRef(districtGeo);
+  districtGeoRef.current = districtGeo;
   
   // Build an index for quick lookup: id -> event
   const byId = useMemo(() => {
@@ -169,153 +270,225 @@ const MapGL = forwardRef<MapGLHandle, {
     }
     return m;
   }, [events]);
+  // Map event handlers are registered once, so popups read the latest index through a ref
+  const byIdRef = useRef(byId);
+  byIdRef.current = byId;
   
-  // Helper to create popup with VenueDetails component
-  const createEventPopup = (map: MLMap, coords: [number, number], properties: any) => {
-    // Remove existing popup and unmount React component
-    if (popupRef.current) {
-      popupRef.current.remove();
-    }
-    if (popupRootRef.current) {
-      popupRootRef.current.unmount();
-      popupRootRef.current = null;
-    }
-    
-    const badge = properties.isLive 
-      ? `<span style="background:#ff3b3b;color:#fff;border-radius:8px;padding:2px 6px;font-size:11px;margin-left:6px;font-weight:600">LIVE NOW</span>` 
-      : "";
-    
-    const formattedTime = formatEventTime(properties.time);
-    const timeDisplay = formattedTime ? ` • ${formattedTime}` : "";
-    
-    // Build ticket/attendance info
-    let ticketSection = "";
-    
-    // Show attendance if available
-    if (properties.maxAttendees !== null && properties.maxAttendees > 0) {
-      const current = properties.currentAttendees || 0;
-      const max = properties.maxAttendees;
-      const percentage = Math.round((current / max) * 100);
-      const spotsLeft = max - current;
-      
-      let attendanceColor = "#4CAF50"; // green
-      let attendanceText = `${current} / ${max} attendees`;
-      let urgencyBadge = "";
-      
-      if (percentage >= 100) {
-        attendanceColor = "#f44336"; // red
-        attendanceText = "Sold Out";
-        urgencyBadge = `<span style="background:#f44336;color:#fff;border-radius:6px;padding:2px 6px;font-size:10px;margin-left:6px;font-weight:600">FULL</span>`;
-      } else if (percentage >= 90) {
-        attendanceColor = "#ff9800"; // orange
-        attendanceText = `Only ${spotsLeft} spots left!`;
-        urgencyBadge = `<span style="background:#ff9800;color:#fff;border-radius:6px;padding:2px 6px;font-size:10px;margin-left:6px;font-weight:600">ALMOST FULL</span>`;
-      } else if (percentage >= 75) {
-        attendanceColor = "#ff9800"; // orange
-        attendanceText = `${spotsLeft} spots available`;
-        urgencyBadge = `<span style="background:#ffa726;color:#fff;border-radius:6px;padding:2px 6px;font-size:10px;margin-left:6px;font-weight:600">SELLING FAST</span>`;
+  // Push each event's time-dependent status as feature state, only where it changed since the last push.
+  // `all` re-sends everything, for a freshly added source (feature state doesn't survive setStyle).
+  const pushEventStatus = (map: MLMap, all = false) => {
+    if (!map.getSource("events")) return;
+    const now = Date.now();
+    const tonight = getTonightWindow(now);
+    const pushed = new Map<string, EventFeatureState>();
+    for (const event of byIdRef.current.values()) {
+      const state = getEventFeatureState(event, now, tonight);
+      const previous = eventStatusRef.current.get(event.id);
+      if (all || !previous || !sameFeatureState(previous, state)) {
+        map.setFeatureState({ source: "events", id: event.id }, state);
       }
-      
-      ticketSection += `<div style="margin-top:8px;padding:6px;background:#f5f5f5;border-radius:6px;font-size:12px">
-        <span style="color:${attendanceColor};font-weight:600">👥 ${attendanceText}</span>${urgencyBadge}
-      </div>`;
-    }
-    
-    // Show ticket price if available
-    if (properties.ticketPrice) {
-      ticketSection += `<div style="margin-top:6px;font-size:13px;color:#333">
-        <strong>💳 ${properties.ticketPrice}</strong>
-      </div>`;
+      pushed.set(event.id, state);
     }
-    
-    // Show ticket button if URL available
-    if (properties.ticketUrl) {
-      const isSoldOut = properties.maxAttendees && properties.currentAttendees >= properties.maxAttendees;
-      const buttonText = isSoldOut ? "View Event (Sold Out)" : "🎟️ Buy Tickets";
-      const buttonStyle = isSoldOut 
-        ? "background:#9e9e9e;color:#fff;padding:8px 16px;border-radius:8px;text-decoration:none;display:inline-block;margin-top:8px;font-size:13px;font-weight:600;cursor:not-allowed"
-        : "background:linear-gradient(135deg,#667eea 0%,#764ba2 100%);color:#fff;padding:8px 16px;border-radius:8px;text-decoration:none;display:inline-block;margin-top:8px;font-size:13px;font-weight:600;box-shadow:0 2px 8px rgba(102,126,234,0.3);transition:transform 0.2s";
-      
-      ticketSection += `<a href="${properties.ticketUrl}" target="_blank" rel="noreferrer" style="${buttonStyle}" ${isSoldOut ? '' : 'onmouseover="this.style.transform=\'scale(1.05)\'" onmouseout="this.style.transform=\'scale(1)\'"'}>
-        ${buttonText}
-      </a>`;
+    eventStatusRef.current = pushed;
+  };
+  
+  // Heatmap weights for the heatmap's hour, pushed like the status; skipped while the heatmap is hidden
+  const pushHeat = (map: MLMap) => {
+    if (!heatmapModeRef.current || !map.getSource("events-heat")) return;
+    const time = heatmapTimeRef.current ?? Date.now();
+    const pushed = new Map<string, number>();
+    for (const event of byIdRef.current.values()) {
+      const heat = getHeatWeight(event, time);
+      if (heatRef.current.get(event.id) !== heat) {
+        map.setFeatureState({ source: "events-heat", id: event.id }, { heat });
+      }
+      pushed.set(event.id, heat);
     }
-    
-    // Show additional ticket info if available
-    if (properties.ticketInfo) {
-      ticketSection += `<div style="margin-top:6px;font-size:11px;color:#666;font-style:italic">
-        ${properties.ticketInfo}
-      </div>`;
+    heatRef.current = pushed;
+  };
+  
+  // Pin properties with the status last pushed as feature state, for popups and tooltips
+  const withStatus = (properties: MapEventProperties): MapEventProperties => {
+    const state = properties.id ? eventStatusRef.current.get(String(properties.id)) : undefined;
+    return state ? { ...properties, ...state } : properties;
+  };
+  
+  // Show React content in the map popup, replacing the previous one; the root unmounts when it closes
+  const showPopup = (map: MLMap, coords: [number, number], content: React.ReactNode) => {
+    if (popupRef.current) {
+      popupRef.current.remove();
     }
     
-    // Create popup container
-    const popupContainer = document.createElement("div");
-    popupContainer.style.minWidth = "220px";
-    
-    // Make title clickable if website exists
-    const titleHtml = properties.website 
-      ? `<a href="${properties.website}" target="_blank" rel="noreferrer" style="color:inherit;text-decoration:none;border-bottom:2px solid #667eea;transition:color 0.2s" onmouseover="this.style.color='#667eea'" onmouseout="this.style.color='inherit'"><strong>${properties.title || "Event"}</strong></a>`
-      : `<strong>${properties.title || "Event"}</strong>`;
-    
-    // Add static content
-    popupContainer.innerHTML = `
-      <div>
-        ${titleHtml}${badge}
-        <div style="font-size:12px;color:#666;margin-top:4px">${properties.category} • ${properties.price}${timeDisplay}</div>
-        ${ticketSection}
-        <button id="show-venue-details" style="margin-top:10px;padding:6px 12px;background:#f5f5f5;border:1px solid #ddd;border-radius:6px;cursor:pointer;font-size:12px;width:100%;text-align:left;transition:background 0.2s" onmouseover="this.style.background='#ebebeb'" onmouseout="this.style.background='#f5f5f5'">
-          ▶ View Venue Details
-        </button>
-      </div>
-      <div id="venue-details-container"></div>
-    `;
+    const container = document.createElement("div");
+    const root = createRoot(container);
+    root.render(content);
     
-    // Create popup
     const popup = new maplibregl.Popup({ closeButton: true })
       .setLngLat(coords)
-      .setDOMContent(popupContainer)
+      .setDOMContent(container)
       .addTo(map);
+    popup.on("close", () => {
+      if (popupRef.current === popup) popupRef.current = null;
+      if (popupRootRef.current === root) popupRootRef.current = null;
+      // Closing can happen inside one of the popup's own click handlers, so unmount after it returns
+      setTimeout(() => root.unmount(), 0);
+    });
     
     popupRef.current = popup;
+    popupRootRef.current = root;
+    return popup;
+  };
+  
+  // Event popup (LIVE badge, capacity, tickets, calendar, route, venue details)
+  const createEventPopup = (map: MLMap, coords: [number, number], properties: MapEventProperties) => {
+    // A venue pin standing for several events opens the venue page instead
+    if ((properties.venueEventCount ?? 0) > 1 && onVenueClickRef.current) {
+      popupRef.current?.remove();
+      onVenueClickRef.current(String(properties.venueId));
+      return null;
+    }
     
-    // Add click handler for venue details button
-    const venueButton = popupContainer.querySelector("#show-venue-details");
-    const venueContainer = popupContainer.querySelector("#venue-details-container");
-    
-    if (venueButton && venueContainer && properties.title && coords[1] && coords[0]) {
-      let detailsLoaded = false;
-      
-      venueButton.addEventListener("click", () => {
-        if (!detailsLoaded) {
-          detailsLoaded = true;
-          venueButton.textContent = "▼ Venue Details";
-          
-          // Render VenueDetails component on demand
-          if (!popupRootRef.current) {
-            popupRootRef.current = createRoot(venueContainer);
-          }
-          popupRootRef.current.render(
-            <VenueDetails 
-              venueName={properties.title} 
-              lat={coords[1]} 
-              lng={coords[0]} 
-            />
-          );
-        } else {
-          // Toggle visibility
-          const container = venueContainer as HTMLElement;
-          if (container.style.display === "none") {
-            container.style.display = "block";
-            venueButton.textContent = "▼ Venue Details";
-          } else {
-            container.style.display = "none";
-            venueButton.textContent = "▶ View Venue Details";
-          }
-        }
-      });
+    return showPopup(map, coords, (
+      <EventPopup
+        properties={withStatus(properties)}
+        coords={coords}
+        event={properties.id ? byIdRef.current.get(properties.id) : undefined}
+        onPlanRoute={onPlanRouteRef.current}
+      />
+    ));
+  };
+  
+  // Open an event picked from a stack: its popup at the shared point, plus the sidebar selection
+  const openStackedEvent = (map: MLMap, coords: [number, number], properties: MapEventProperties) => {
+    createEventPopup(map, coords, properties);
+    if (onMarkerClick && properties.id) {
+      onMarkerClick(String(properties.id));
+    }
+  };
+  
+  // Remove fanned-out legs; runs on zoom and on clicks outside the spider
+  const clearSpider = (map: MLMap) => {
+    if (!spiderOpenRef.current) return;
+    spiderOpenRef.current = false;
+    setSourceData(map, "spider", EMPTY_COLLECTION);
+  };
+  
+  // List popup for stacks too big to fan out
+  const openStackListPopup = (map: MLMap, coords: [number, number], stack: MapEventProperties[]) => {
+    showPopup(map, coords, (
+      <EventStackList stack={stack} onSelect={(properties) => openStackedEvent(map, coords, properties)} />
+    ));
+  };
+  
+  // Fan out events sharing one point so each pin can be clicked; big stacks get a list popup instead
+  const spiderfy = (map: MLMap, coords: [number, number], stack: MapEventProperties[]) => {
+    clearSpider(map);
+    // Live events first, then by score, so the fan reads like the sidebar
+    const sorted = stack.map(withStatus).sort((a, b) => Number(b.isLive) - Number(a.isLive) || (b.score ?? 0) - (a.score ?? 0));
+    if (sorted.length > SPIDER_MAX_LEGS) {
+      openStackListPopup(map, coords, sorted);
+      return;
     }
     
-    return popup;
+    const origin = map.project(coords);
+    const ends = spiderLegOffsets(sorted.length).map(([dx, dy]) => {
+      const end = map.unproject([origin.x + dx, origin.y + dy]);
+      return [end.lng, end.lat];
+    });
+    setSourceData(map, "spider", {
+      type: "FeatureCollection",
+      features: [
+        ...ends.map((end) => ({
+          type: "Feature" as const,
+          properties: {},
+          geometry: { type: "LineString" as const, coordinates: [coords, end] }
+        })),
+        ...ends.map((end, i) => ({
+          type: "Feature" as const,
+          properties: { ...sorted[i], stackLng: coords[0], stackLat: coords[1] },
+          geometry: { type: "Point" as const, coordinates: end }
+        }))
+      ]
+    });
+    spiderOpenRef.current = true;
+  };
+  
+  // Cluster click: zoom in until it splits, or spiderfy when zooming can't separate its events
+  const expandCluster = async (map: MLMap, feature: maplibregl.MapGeoJSONFeature) => {
+    const source = map.getSource("events") as maplibregl.GeoJSONSource;
+    const { cluster_id: clusterId, point_count: pointCount, colocated } = feature.properties;
+    const coords = (feature.geometry as any).coordinates as [number, number];
+    try {
+      const zoom = await source.getClusterExpansionZoom(clusterId);
+      if (colocated !== pointCount && zoom <= map.getMaxZoom()) {
+        map.easeTo({ center: coords, zoom: zoom + 0.5, duration: 500 });
+        return;
+      }
+      const leaves = await source.getClusterLeaves(clusterId, pointCount, 0);
+      spiderfy(map, coords, leaves.map(leaf => leaf.properties as MapEventProperties));
+    } catch (err) {
+      console.error("Failed to expand cluster:", err);
+    }
+  };
+  
+  // Point click: popup, or spiderfy when other pins sit on the same point (past clusterMaxZoom)
+  const handlePointClick = (map: MLMap, feature: maplibregl.MapGeoJSONFeature) => {
+    const p = feature.properties || {};
+    const coords = (feature.geometry as any).coordinates as [number, number];
+    if (p.colocatedCount > 1) {
+      const key = locationKey(coords[0], coords[1]);
+      // querySourceFeatures repeats features that span tiles, so dedupe by id
+      const stack = new Map<string, MapEventProperties>();
+      for (const f of map.querySourceFeatures("events")) {
+        if (f.properties.point_count) continue;
+        const [lng, lat] = (f.geometry as any).coordinates;
+        if (locationKey(lng, lat) === key) stack.set(String(f.properties.id), f.properties);
+      }
+      if (stack.size > 1) {
+        spiderfy(map, coords, Array.from(stack.values()));
+        return;
+      }
+    }
+    openStackedEvent(map, coords, p);
+  };
+  
+  // Move the "selected" feature state to the filtered district
+  const highlightDistrict = (map: MLMap) => {
+    if (!map.getSource("districts")) return;
+    const previous = highlightedDistrictRef.current;
+    const next = selectedDistrictIdRef.current;
+    if (previous === next) return;
+    if (previous !== null) map.setFeatureState({ source: "districts", id: previous }, { selected: false });
+    if (next !== null) map.setFeatureState({ source: "districts", id: next }, { selected: true });
+    highlightedDistrictRef.current = next;
+  };
+
+  // Current inputs to the layer registry (see mapLayers.ts)
+  const getLayerState = (): MapLayerState => ({
+    theme: (currentThemeRef.current ?? "light") as MapTheme,
+    selectedEventId: selectedEventIdRef.current,
+    heatmapMode: heatmapModeRef.current,
+    show3DBuildings: show3DBuildingsRef.current,
+    districtMode: districtModeRef.current
+  });
+  
+  const getSourceData = (sourceId: MapSourceId) => {
+    switch (sourceId) {
+      case "events":
+        return geoRef.current;
+      case "events-heat":
+        return heatGeoRef.current;
+      case "districts":
+        return districtGeoRef.current;
+      case "route":
+        return routeToGeoJSON(routeRef.current);
+      case "user-radius":
+        return userLocationRef.current
+          ? { type: "Feature", geometry: { type: "Point", coordinates: userLocationRef.current }, properties: {} } as any
+          : EMPTY_COLLECTION;
+      case "spider":
+        return EMPTY_COLLECTION;
+    }
   };
   
   // Imperative API
@@ -336,11 +509,14 @@ const MapGL = forwardRef<MapGLHandle, {
       
       if (opts?.openPopup !== false) {
         createEventPopup(map, [ev.lng, ev.lat], {
+          id: ev.id,
           title: ev.title,
           category: ev.category,
-          price: ev.price,
-          time: ev.time,
-          website: ev.website,
+          price: ev.priceType,
+          time: formatEventTime(ev, language),
+          website: ev.url,
+          venueName: ev.venueName,
+          venueId: getEventVenue(ev).id,
           isLive: isLiveNow(ev, Date.now()),
           ticketUrl: ev.ticketUrl,
           ticketPrice: ev.ticketPrice,
@@ -371,8 +547,13 @@ const MapGL = forwardRef<MapGLHandle, {
         bearing: 0,
         duration: 1000
       });
+    },
+    setCamera: (camera: MapCamera) => {
+      const map = mapRef.current;
+      if (!map) return;
+      map.easeTo({ center: [camera.lng, camera.lat], zoom: camera.zoom, duration: 800 });
     }
-  }), [byId, onMarkerClick, createEventPopup]);
+  }), [byId, onMarkerClick, createEventPopup, language]);
   
   // Set heading and rotate the cone
   const setHeadingDeg = (deg: number | null) => {
@@ -513,6 +694,26 @@ const MapGL = forwardRef<MapGLHandle, {
     // Track if we've triggered geolocation once
     let geoTriggered = false;
 
+    // Sources and layers come from the registry in mapLayers.ts and are re-applied on every style load
+    // (the initial one and each theme switch). Icon layers follow once the style has the icon images.
+    let styleLoads = 0;
+    map.on("style.load", () => {
+      const load = ++styleLoads;
+      spiderOpenRef.current = false; // The spider source comes back empty
+      applyMapLayers(map, getLayerState(), getSourceData, false);
+      pushEventStatus(map, true);
+      heatRef.current = new Map(); // A new source has no feature state
+      pushHeat(map);
+      highlightedDistrictRef.current = null;
+      highlightDistrict(map);
+      loadMapIcons(map).then(() => {
+        if (load !== styleLoads) return; // Style switched again meanwhile
+        applyMapLayers(map, getLayerState(), getSourceData, true);
+      }).catch((err) => {
+        console.error('Failed to load category icons:', err);
+      });
+    });
+
     map.on("load", () => {
       // Try to geolocate once on load (requires HTTPS or localhost)
       if (!geoTriggered && geolocateRef.current) {
@@ -526,321 +727,6 @@ const MapGL = forwardRef<MapGLHandle, {
         }, 500);
       }
       
-      // Clustering source with better configuration
-      map.addSource("events", {
-        type: "geojson",
-        data: geo,
-        cluster: true,
-        clusterRadius: 60,        // Increased for better clustering
-        clusterMaxZoom: 16,       // Cluster up to zoom 16 (was 14)
-        clusterProperties: {
-          // Count events by category for cluster breakdown
-          "music": ["+", ["case", ["==", ["get", "category"], "music"], 1, 0]],
-          "food": ["+", ["case", ["==", ["get", "category"], "food"], 1, 0]],
-          "arts": ["+", ["case", ["==", ["get", "category"], "arts"], 1, 0]],
-          "sports": ["+", ["case", ["==", ["get", "category"], "sports"], 1, 0]],
-          "nightlife": ["+", ["case", ["==", ["get", "category"], "nightlife"], 1, 0]],
-          "family": ["+", ["case", ["==", ["get", "category"], "family"], 1, 0]],
-          "tech": ["+", ["case", ["==", ["get", "category"], "tech"], 1, 0]]
-        } as any
-      });
-
-      // HEATMAP LAYER - Shows activity density
-      map.addLayer({
-        id: "events-heatmap",
-        type: "heatmap",
-        source: "events",
-        maxzoom: 15,
-        paint: {
-          // Increase weight for live events
-          "heatmap-weight": [
-            "interpolate",
-            ["linear"],
-            ["get", "score"],
-            0, 0.5,
-            1000, 2  // Live events have more weight
-          ],
-          // Increase intensity as zoom level increases
-          "heatmap-intensity": [
-            "interpolate",
-            ["linear"],
-            ["zoom"],
-            0, 0.5,
-            15, 1.5
-          ],
-          // Color ramp: cool (few events) to warm (many events)
-          "heatmap-color": [
-            "interpolate",
-            ["linear"],
-            ["heatmap-density"],
-            0, "rgba(33,102,172,0)",
-            0.2, "rgb(103,169,207)",
-            0.4, "rgb(209,229,240)",
-            0.6, "rgb(253,219,199)",
-            0.8, "rgb(239,138,98)",
-            0.9, "rgb(255,201,101)",
-            1, "rgb(178,24,43)"
-          ],
-          // Adjust radius by zoom level
-          "heatmap-radius": [
-            "interpolate",
-            ["linear"],
-            ["zoom"],
-            0, 2,
-            15, 20
-          ],
-          // Fade out heatmap at high zoom levels
-          "heatmap-opacity": [
-            "interpolate",
-            ["linear"],
-            ["zoom"],
-            7, 0.8,
-            15, 0.3
-          ]
-        },
-        layout: {
-          visibility: "none" // Hidden by default
-        }
-      });
-
-      // Large clusters (200+ events) - biggest circles
-      map.addLayer({
-        id: "clusters-large",
-        type: "circle",
-        source: "events",
-        filter: ["all", ["has", "point_count"], [">=", ["get", "point_count"], 200]],
-        paint: {
-          "circle-color": "#e8e8ee",
-          "circle-radius": 38,
-          "circle-stroke-color": "#cfcfda",
-          "circle-stroke-width": 2
-        }
-      });
-
-      // Medium clusters (50-199 events)
-      map.addLayer({
-        id: "clusters-medium",
-        type: "circle",
-        source: "events",
-        filter: ["all", ["has", "point_count"], [">=", ["get", "point_count"], 50], ["<", ["get", "point_count"], 200]],
-        paint: {
-          "circle-color": "#e8e8ee",
-          "circle-radius": 28,
-          "circle-stroke-color": "#cfcfda",
-          "circle-stroke-width": 2
-        }
-      });
-
-      // Small clusters (10-49 events)
-      map.addLayer({
-        id: "clusters-small",
-        type: "circle",
-        source: "events",
-        filter: ["all", ["has", "point_count"], [">=", ["get", "point_count"], 10], ["<", ["get", "point_count"], 50]],
-        paint: {
-          "circle-color": "#e8e8ee",
-          "circle-radius": 22,
-          "circle-stroke-color": "#cfcfda",
-          "circle-stroke-width": 2
-        }
-      });
-
-      // Tiny clusters (2-9 events) - show category hints with colored segments
-      map.addLayer({
-        id: "clusters-tiny",
-        type: "circle",
-        source: "events",
-        filter: ["all", ["has", "point_count"], ["<", ["get", "point_count"], 10]],
-        paint: {
-          "circle-color": "#e8e8ee",
-          "circle-radius": 18,
-          "circle-stroke-color": "#cfcfda",
-          "circle-stroke-width": 2
-        }
-      });
-
-      // Cluster count labels
-      map.addLayer({
-        id: "cluster-count",
-        type: "symbol",
-        source: "events",
-        filter: ["has", "point_count"],
-        layout: {
-          "text-field": ["get", "point_count_abbreviated"],
-          "text-font": ["DIN Offc Pro Medium", "Arial Unicode MS Bold"],
-          "text-size": [
-            "step",
-            ["get", "point_count"],
-            13,    // <50 events
-            50, 15,  // 50-199
-            200, 18  // 200+
-          ]
-        },
-        paint: { 
-          "text-color": "#333",
-          "text-halo-color": "#fff",
-          "text-halo-width": 1
-        }
-      });
-
-      // Unclustered hotspots with category-based colors and size by distance
-      map.addLayer({
-        id: "unclustered",
-        type: "circle",
-        source: "events",
-        filter: ["all", ["!", ["has", "point_count"]], ["!=", ["get", "id"], ["literal", selectedEventId ?? "___none___"]], ["!=", ["get", "isLive"], true]],
-        paint: {
-          "circle-color": [
-            "match",
-            ["get", "category"],
-            "music", "#ff3b3b",      // Red for music
-            "nightlife", "#ff3b3b",  // Red for nightlife
-            "food", "#ffa726",       // Orange/Yellow for food
-            "arts", "#42a5f5",       // Blue for arts/culture
-            "sports", "#66bb6a",     // Green for sports/outdoors
-            "family", "#66bb6a",     // Green for family
-            "tech", "#9c27b0",       // Purple for tech
-            "#999999"                // Gray for other
-          ],
-          "circle-radius": [
-            "interpolate",
-            ["linear"],
-            ["get", "score"],
-            0, 5,      // Low score = smaller
-            500, 7,    // Medium score
-            1000, 9    // High score = bigger
-          ],
-          "circle-stroke-color": "#ffffff",
-          "circle-stroke-width": 1.5,
-          // Smooth transitions for filtering/appearance
-          "circle-radius-transition": { duration: 300, delay: 0 },
-          "circle-opacity-transition": { duration: 300, delay: 0 }
-        }
-      });
-
-      // Selected marker (highlighted with larger stroke)
-      map.addLayer({
-        id: "unclustered-selected",
-        type: "circle",
-        source: "events",
-        filter: ["all", ["!", ["has", "point_count"]], ["==", ["get", "id"], ["literal", selectedEventId ?? "___none___"]], ["!=", ["get", "isLive"], true]],
-        paint: {
-          "circle-color": [
-            "match",
-            ["get", "category"],
-            "music", "#ff3b3b",
-            "nightlife", "#ff3b3b",
-            "food", "#ffa726",
-            "arts", "#42a5f5",
-            "sports", "#66bb6a",
-            "family", "#66bb6a",
-            "tech", "#9c27b0",
-            "#999999"
-          ],
-          "circle-radius": 11,  // Slightly bigger for "grow" effect
-          "circle-stroke-color": "#ffffff",
-          "circle-stroke-width": 3,
-          // Smooth grow animation when selected
-          "circle-radius-transition": { duration: 150, delay: 0 },
-          "circle-stroke-width-transition": { duration: 150, delay: 0 }
-        }
-      });
-
-      // LIVE markers: animated glow ring (always red with pulse)
-      map.addLayer({
-        id: "live-glow",
-        type: "circle",
-        source: "events",
-        filter: ["all", ["!", ["has", "point_count"]], ["==", ["get", "isLive"], true]],
-        paint: {
-          "circle-color": "#ff3b3b",
-          "circle-opacity": 0.35,
-          "circle-radius": 14,
-          "circle-blur": 0.6
-        }
-      });
-
-      // LIVE markers: solid dot on top (category colored but brighter)
-      map.addLayer({
-        id: "live-dot",
-        type: "circle",
-        source: "events",
-        filter: ["all", ["!", ["has", "point_count"]], ["==", ["get", "isLive"], true]],
-        paint: {
-          "circle-color": [
-            "match",
-            ["get", "category"],
-            "music", "#ff1744",      // Bright red for music
-            "nightlife", "#ff1744",  // Bright red for nightlife
-            "food", "#ff9800",       // Bright orange for food
-            "arts", "#2196f3",       // Bright blue for arts
-            "sports", "#4caf50",     // Bright green for sports
-            "family", "#4caf50",     // Bright green for family
-            "tech", "#ab47bc",       // Bright purple for tech
-            "#ff3b3b"                // Default bright red
-          ],
-          "circle-radius": 7,
-          "circle-stroke-color": "#ffffff",
-          "circle-stroke-width": 2,
-          // Smooth transitions
-          "circle-radius-transition": { duration: 300, delay: 0 },
-          "circle-opacity-transition": { duration: 300, delay: 0 }
-        }
-      });
-
-      // Load category icons BEFORE adding icon layers
-      loadMapIcons(map).then(() => {
-        console.log('Category icons loaded successfully');
-        
-        // CATEGORY ICON LAYERS - Show emoji/icon on top of markers
-        // Icon for regular (non-live, non-selected) events
-        map.addLayer({
-          id: "event-icons",
-          type: "symbol",
-          source: "events",
-          filter: ["all", ["!", ["has", "point_count"]], ["!=", ["get", "id"], ["literal", selectedEventId ?? "___none___"]], ["!=", ["get", "isLive"], true]],
-          layout: {
-            "icon-image": ["get", "iconKey"],
-            "icon-size": 0.6,
-            "icon-allow-overlap": true,
-            "icon-ignore-placement": true,
-            "icon-anchor": "bottom"
-          }
-        });
-
-        // Icon for selected events
-        map.addLayer({
-          id: "event-icons-selected",
-          type: "symbol",
-          source: "events",
-          filter: ["all", ["!", ["has", "point_count"]], ["==", ["get", "id"], ["literal", selectedEventId ?? "___none___"]], ["!=", ["get", "isLive"], true]],
-          layout: {
-            "icon-image": ["get", "iconKey"],
-            "icon-size": 0.7,
-            "icon-allow-overlap": true,
-            "icon-ignore-placement": true,
-            "icon-anchor": "bottom"
-          }
-        });
-
-        // Icon for LIVE events
-        map.addLayer({
-          id: "event-icons-live",
-          type: "symbol",
-          source: "events",
-          filter: ["all", ["!", ["has", "point_count"]], ["==", ["get", "isLive"], true]],
-          layout: {
-            "icon-image": ["get", "iconKey"],
-            "icon-size": 0.65,
-            "icon-allow-overlap": true,
-            "icon-ignore-placement": true,
-            "icon-anchor": "bottom"
-          }
-        });
-      }).catch((err) => {
-        console.error('Failed to load category icons:', err);
-      });
-
       // Start glow animation
       let t = 0;
       const tick = () => {
@@ -849,7 +735,7 @@ const MapGL = forwardRef<MapGLHandle, {
         const a = 0.20 + 0.20 * (0.5 + 0.5 * Math.sin(t)); // 0.2..0.4
         try {
           if (map.getLayer("live-glow")) {
-            map.setPaintProperty("live-glow", "circle-radius", r);
+            map.setPaintProperty("live-glow", "circle-radius", whenLive(r));
             map.setPaintProperty("live-glow", "circle-opacity", a);
           }
         } catch {}
@@ -857,63 +743,81 @@ const MapGL = forwardRef<MapGLHandle, {
       };
       rafRef.current = requestAnimationFrame(tick);
 
-      // Optional: 3D buildings if vector data includes them
-      if (map.getLayer("building")) {
-        map.setPaintProperty("building", "fill-extrusion-color", "#e6e6ec");
-        map.setPaintProperty("building", "fill-extrusion-height", ["get", "render_height"]);
-        map.setPaintProperty("building", "fill-extrusion-base", ["get", "render_min_height"]);
-        map.setPaintProperty("building", "fill-extrusion-opacity", 0.7);
-      }
-
-      // Click: cluster → zoom in; point → popup
-      const clusterLayers = ["clusters-large", "clusters-medium", "clusters-small", "clusters-tiny"];
-      
-      clusterLayers.forEach(layerId => {
-        map.on("click", layerId, (e:any) => {
-          const features = map.queryRenderedFeatures(e.point, { layers: [layerId] });
-          if (!features.length) return;
-          const clusterId = features[0].properties.cluster_id;
-          (map.getSource("events") as any).getClusterExpansionZoom(clusterId, (err: any, z: number) => {
-            if (err) return;
-            map.easeTo({ center: (features[0].geometry as any).coordinates, zoom: z + 0.5, duration: 500 });
-          });
-        });
+      // Collapse a spiderfied stack on zoom or on a click anywhere but its pins
+      map.on("zoomstart", () => clearSpider(map));
+      map.on("click", (e) => {
+        if (map.getLayer("spider-points") && map.queryRenderedFeatures(e.point, { layers: ["spider-points"] }).length) return;
+        clearSpider(map);
       });
 
-      map.on("click", "unclustered", (e:any) => {
-        const f = e.features?.[0];
-        if (!f) return;
-        const p = f?.properties || {};
-        const coords = (f?.geometry as any).coordinates;
+      // Hover tooltips for event markers (mini preview)
+      let hoverTooltip: maplibregl.Popup | null = null;
+      let hoverRoot: Root | null = null;
+      
+      const createHoverTooltip = (e: MapLayerMouseEvent) => {
+        const feature = e.features?.[0];
+        if (!feature || feature.properties.point_count) return; // Skip clusters
         
-        createEventPopup(map, coords, p);
+        const p = withStatus(feature.properties as MapEventProperties);
+        const coords = (feature.geometry as any).coordinates.slice();
         
-        // Notify parent of marker click
-        if (onMarkerClick && p.id) {
-          onMarkerClick(String(p.id));
+        // Moving over the same pin only repositions; another pin re-renders into the same root
+        if (hoverTooltip && hoverRoot) {
+          hoverTooltip.setLngLat(coords);
+          hoverRoot.render(<EventTooltip properties={p} />);
+          return;
         }
-      });
-
-      // Also handle clicks on selected markers
-      map.on("click", "unclustered-selected", (e:any) => {
-        const f = e.features?.[0];
-        if (!f) return;
-        const p = f?.properties || {};
-        const coords = (f?.geometry as any).coordinates;
         
-        createEventPopup(map, coords, p);
-        
-        if (onMarkerClick && p.id) {
-          onMarkerClick(String(p.id));
+        const container = document.createElement("div");
+        hoverRoot = createRoot(container);
+        hoverRoot.render(<EventTooltip properties={p} />);
+        hoverTooltip = new maplibregl.Popup({
+          closeButton: false,
+          closeOnClick: false,
+          offset: [0, -10],
+          className: 'hover-tooltip',
+          maxWidth: '250px'
+        })
+          .setLngLat(coords)
+          .setDOMContent(container)
+          .addTo(map);
+      };
+      
+      const removeHoverTooltip = () => {
+        if (hoverTooltip) {
+          hoverTooltip.remove();
+          hoverTooltip = null;
         }
-      });
-
-      // Handle clicks on LIVE markers - zoom in and highlight
-      map.on("click", "live-dot", (e:any) => {
+        if (hoverRoot) {
+          const root = hoverRoot;
+          hoverRoot = null;
+          setTimeout(() => root.unmount(), 0);
+        }
+      };
+      
+      // Click: cluster → zoom in (or spiderfy a stack); point → popup
+      const onClusterClick = (e: MapLayerMouseEvent) => {
+        const f = e.features?.[0];
+        if (f) expandCluster(map, f);
+      };
+      const pointEvents = {
+        click: (e: MapLayerMouseEvent) => {
+          removeHoverTooltip(); // Make way for the full popup
+          const f = e.features?.[0];
+          if (f) handlePointClick(map, f);
+        },
+        mouseenter: (e: MapLayerMouseEvent) => createHoverTooltip(e),
+        mousemove: (e: MapLayerMouseEvent) => createHoverTooltip(e), // Update position on move
+        mouseleave: removeHoverTooltip
+      };
+      
+      // LIVE markers: zoom in and highlight
+      const onLiveClick = (e: MapLayerMouseEvent) => {
+        removeHoverTooltip();
         const f = e.features?.[0];
         if (!f) return;
-        const p = f?.properties || {};
-        const coords = (f?.geometry as any).coordinates;
+        const p = f.properties || {};
+        const coords = (f.geometry as any).coordinates;
         
         // Smooth zoom to the live event (zoom 16.5 for detailed view)
         map.easeTo({
@@ -933,74 +837,31 @@ const MapGL = forwardRef<MapGLHandle, {
         if (onMarkerClick && p.id) {
           onMarkerClick(String(p.id));
         }
-      });
-
-      // Cursor feedback
-      ["clusters-large", "clusters-medium", "clusters-small", "clusters-tiny", "unclustered", "unclustered-selected", "live-dot"].forEach((layer) => {
-        map.on("mouseenter", layer, () => (map.getCanvas().style.cursor = "pointer"));
-        map.on("mouseleave", layer, () => (map.getCanvas().style.cursor = ""));
-      });
-
-      // Hover tooltips for event markers (mini preview)
-      let hoverTooltip: maplibregl.Popup | null = null;
-      
-      const createHoverTooltip = (e: any, layerId: string) => {
-        const features = map.queryRenderedFeatures(e.point, { layers: [layerId] });
-        if (!features.length || features[0].properties.point_count) return; // Skip clusters
-        
-        const p = features[0].properties;
-        const coords = (features[0].geometry as any).coordinates.slice();
-        
-        // Create lightweight tooltip HTML
-        const time = formatEventTime(p.time);
-        const priceIcon = p.price === "free" ? "🆓" : "💳";
-        const liveTag = p.isLive ? '<span style="background: #ff3b3b; color: #fff; padding: 2px 6px; border-radius: 4px; font-size: 10px; font-weight: 600; margin-left: 4px;">LIVE</span>' : '';
-        
-        const tooltipHTML = `
-          <div style="font-size: 13px; max-width: 200px;">
-            <div style="font-weight: 600; margin-bottom: 4px; display: flex; align-items: center; gap: 4px;">
-              ${p.title}${liveTag}
-            </div>
-            <div style="color: #666; font-size: 11px;">
-              ${time || p.category} ${priceIcon}
-            </div>
-            <div style="color: #999; font-size: 10px; margin-top: 4px; font-style: italic;">
-              Tap for details
-            </div>
-          </div>
-        `;
-        
-        // Remove existing hover tooltip
-        if (hoverTooltip) {
-          hoverTooltip.remove();
-        }
-        
-        // Create new hover tooltip
-        hoverTooltip = new maplibregl.Popup({
-          closeButton: false,
-          closeOnClick: false,
-          offset: [0, -10],
-          className: 'hover-tooltip',
-          maxWidth: '250px'
-        })
-          .setLngLat(coords)
-          .setHTML(tooltipHTML)
-          .addTo(map);
       };
       
-      const removeHoverTooltip = () => {
-        if (hoverTooltip) {
-          hoverTooltip.remove();
-          hoverTooltip = null;
+      // Bound once: MapLibre keeps layer listeners across setStyle, so theme switches don't re-register them
+      bindLayerEvents(map, {
+        "clusters-large": { click: onClusterClick },
+        "clusters-medium": { click: onClusterClick },
+        "clusters-small": { click: onClusterClick },
+        "clusters-tiny": { click: onClusterClick },
+        "unclustered": pointEvents,
+        "unclustered-selected": pointEvents,
+        "live-dot": { ...pointEvents, click: onLiveClick },
+        "spider-points": {
+          click: (e) => {
+            const p = e.features?.[0]?.properties;
+            if (p) openStackedEvent(map, [p.stackLng, p.stackLat], p as MapEventProperties);
+          }
+        },
+        "districts-fill": {
+          click: (e) => {
+            // Pins sit on top of the districts; a click on one is for the pin
+            const onPin = map.queryRenderedFeatures(e.point).some(f => f.source === "events" || f.source === "spider");
+            const id = e.features?.[0]?.properties?.id;
+            if (!onPin && id !== undefined) onDistrictClickRef.current?.(String(id));
+          }
         }
-      };
-      
-      // Add hover handlers to marker layers
-      ["unclustered", "unclustered-selected", "live-dot"].forEach((layer) => {
-        map.on("mouseenter", layer, (e) => createHoverTooltip(e, layer));
-        map.on("mousemove", layer, (e) => createHoverTooltip(e, layer)); // Update position on move
-        map.on("mouseleave", layer, removeHoverTooltip);
-        map.on("click", layer, removeHoverTooltip); // Remove on click to show full popup
       });
 
       // Report bounds → parent (for bbox fetch)
@@ -1008,6 +869,8 @@ const MapGL = forwardRef<MapGLHandle, {
         const b = map.getBounds();
         const out: Bounds = { minLon: b.getWest(), minLat: b.getSouth(), maxLon: b.getEast(), maxLat: b.getNorth() };
         onBoundsChange(out);
+        const c = map.getCenter();
+        onCameraChangeRef.current?.({ lat: c.lat, lng: c.lng, zoom: map.getZoom() });
       };
       
       // Track map movement to show "Search this area" button
@@ -1040,52 +903,9 @@ const MapGL = forwardRef<MapGLHandle, {
       // Update heading cone if available
       setHeadingDeg(heading);
       
-      // Add 2km radius circle around user location
-      if (!map.getSource("user-radius")) {
-        map.addSource("user-radius", {
-          type: "geojson",
-          data: {
-            type: "Feature",
-            geometry: {
-              type: "Point",
-              coordinates: [lng, lat]
-            },
-            properties: {}
-          } as any
-        });
-        
-        // Add circle layer (2km radius = ~2000m at this zoom)
-        map.addLayer({
-          id: "user-radius-circle",
-          type: "circle",
-          source: "user-radius",
-          paint: {
-            "circle-radius": [
-              "interpolate",
-              ["exponential", 2],
-              ["zoom"],
-              10, 5,
-              14, 80,
-              16, 320
-            ],
-            "circle-color": "#2196f3",
-            "circle-opacity": 0.1,
-            "circle-stroke-color": "#2196f3",
-            "circle-stroke-width": 2,
-            "circle-stroke-opacity": 0.4
-          }
-        }, "clusters"); // Add below clusters so it doesn't cover markers
-      } else {
-        // Update existing circle position
-        (map.getSource("user-radius") as any).setData({
-          type: "Feature",
-          geometry: {
-            type: "Point",
-            coordinates: [lng, lat]
-          },
-          properties: {}
-        });
-      }
+      // Move the 2km radius circle to the user's location
+      userLocationRef.current = [lng, lat];
+      setSourceData(map, "user-radius", getSourceData("user-radius"));
       
       // Zoom closer to show ~2km area (zoom 14-15 shows roughly 2-3km radius)
       map.easeTo({ 
@@ -1125,6 +945,8 @@ const MapGL = forwardRef<MapGLHandle, {
         geoMarkerRef.current.remove();
         geoMarkerRef.current = null;
       }
+      // Closing the popup unmounts its React root
+      popupRef.current?.remove();
       if (mapRef.current) {
         mapRef.current.remove(); 
         mapRef.current = null;
@@ -1133,50 +955,73 @@ const MapGL = forwardRef<MapGLHandle, {
     };
   }, []);
 
-  // Refresh LIVE status every 60 seconds
+  // Refresh LIVE status every 60 seconds through feature state; the source isn't rebuilt or re-clustered
   useEffect(() => {
-    const id = setInterval(() => {
+    const refresh = () => {
       const map = mapRef.current;
-      if (!map || !map.getSource("events")) return;
-      
-      const now = Date.now();
-      const geoLive = eventsToGeoJSON(events as any, now);
-      console.log('Refreshing LIVE status');
-      (map.getSource("events") as any).setData(geoLive);
-    }, 60_000);
-    
+      if (!map) return;
+      pushEventStatus(map);
+      pushHeat(map);
+    };
+    refresh();
+    const id = setInterval(refresh, 60_000);
     return () => clearInterval(id);
-  }, [events]);
+  }, [byId]);
 
   // Update layer filters when selectedEventId changes
   useEffect(() => {
     const map = mapRef.current;
-    if (!map || !map.isStyleLoaded()) return;
-    
-    const unclusteredFilter: any = ["all", 
-      ["!", ["has", "point_count"]], 
-      ["!=", ["get", "id"], ["literal", selectedEventId ?? "___none___"]]
-    ];
-    const selectedFilter: any = ["all", 
-      ["!", ["has", "point_count"]], 
-      ["==", ["get", "id"], ["literal", selectedEventId ?? "___none___"]]
-    ];
-    
-    if (map.getLayer("unclustered")) {
-      map.setFilter("unclustered", unclusteredFilter);
-    }
-    if (map.getLayer("unclustered-selected")) {
-      map.setFilter("unclustered-selected", selectedFilter);
-    }
+    if (!map) return;
+    applySelection(map, selectedEventId);
   }, [selectedEventId]);
 
   // Update data when events change (but not style)
   useEffect(() => {
     const map = mapRef.current;
-    if (!map || !map.getSource("events")) return;
-    (map.getSource("events") as any).setData(geo);
+    if (!map) return;
+    setSourceData(map, "events", geo);
   }, [geo]);
 
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    setSourceData(map, "events-heat", heatGeo);
+  }, [heatGeo]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    setSourceData(map, "districts", districtGeo);
+  }, [districtGeo]);
+
+  // Toggle the district choropleth
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    setLayersVisible(map, DISTRICT_LAYERS, districtMode);
+  }, [districtMode]);
+
+  // Outline the district the list is filtered to
+  useEffect(() => {
+    const map = mapRef.current;
+    if (map) highlightDistrict(map);
+  }, [selectedDistrictId]);
+
+  // Draw the planned route and fit the camera around it
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    setSourceData(map, "route", routeToGeoJSON(route));
+    
+    const points = route?.legs.flatMap(leg => leg.coordinates) ?? [];
+    if (points.length < 2) return;
+    const bounds = points.reduce(
+      (b, point) => b.extend(point),
+      new maplibregl.LngLatBounds(points[0], points[0])
+    );
+    map.fitBounds(bounds, { padding: 80, maxZoom: 16, duration: 800 });
+  }, [route]);
+
   // Toggle heatmap visibility
   useEffect(() => {
     const map = mapRef.current;
@@ -1189,25 +1034,26 @@ const MapGL = forwardRef<MapGLHandle, {
     );
   }, [heatmapMode]);
 
+  // Reweight the heatmap for the picked hour (or now); playback steps through the evening
+  useEffect(() => {
+    const map = mapRef.current;
+    if (map) pushHeat(map);
+  }, [heatmapMode, heatmapTime]);
+
   // Toggle 3D buildings visibility
   useEffect(() => {
     const map = mapRef.current;
-    if (!map || !map.getLayer("building")) return;
-    
-    if (show3DBuildings) {
-      // Show buildings with extrusion
-      const isDark = currentThemeRef.current === "dark";
-      map.setPaintProperty("building", "fill-extrusion-height", ["get", "render_height"]);
-      map.setPaintProperty("building", "fill-extrusion-base", ["get", "render_min_height"]);
-      map.setPaintProperty("building", "fill-extrusion-opacity", isDark ? 0.8 : 0.7);
-    } else {
-      // Hide buildings by setting height to 0
-      map.setPaintProperty("building", "fill-extrusion-height", 0);
-      map.setPaintProperty("building", "fill-extrusion-base", 0);
-      map.setPaintProperty("building", "fill-extrusion-opacity", 0);
-    }
+    if (!map) return;
+    applyBuildings(map, getLayerState());
   }, [show3DBuildings]);
 
+  // Switch the base style; the style.load handler re-applies our sources and layers
+  const setMapTheme = (map: MLMap, theme: MapTheme) => {
+    currentThemeRef.current = theme;
+    // A full reload rather than a diff, so "style.load" fires and the registry runs again
+    map.setStyle(theme === "dark" ? MAP_STYLE_DARK : MAP_STYLE_LIGHT, { diff: false });
+  };
+
   // Handle manual theme override changes ONLY
   useEffect(() => {
     const map = mapRef.current;
@@ -1228,295 +1074,7 @@ const MapGL = forwardRef<MapGLHandle, {
     // Debounce theme changes to prevent flickering in Safari
     themeChangeTimeoutRef.current = setTimeout(() => {
       console.log('Manual theme change to', newTheme);
-      currentThemeRef.current = newTheme;
-      
-      const isDark = newTheme === "dark";
-      const newStyle = isDark ? MAP_STYLE_DARK : MAP_STYLE_LIGHT;
-      const data = (map.getSource("events") as any)?._data || geo;
-      
-      console.log('Switching style, data available:', !!data);
-    
-      map.setStyle(newStyle);
-    
-      map.once("styledata", () => {
-        console.log('Style loaded, re-adding layers. Source exists:', !!map.getSource("events"), 'Data available:', !!data, 'Data features:', data?.features?.length);
-        
-        // When theme changes, the style reloads and removes all layers (but source might persist)
-        // We need to re-add both source and layers
-        if (!map.getSource("events") && data) {
-          console.log('Adding source for the first time');
-          map.addSource("events", { 
-            type: "geojson", 
-            data, 
-            cluster: true, 
-            clusterRadius: 40, 
-            clusterMaxZoom: 14 
-          });
-        } else if (map.getSource("events") && data) {
-          console.log('Source exists, updating data');
-          (map.getSource("events") as any).setData(data);
-        }
-        
-        // Always re-add layers if they don't exist (theme change removes them)
-        if (data) {
-          
-          if (!map.getLayer("clusters")) {
-            map.addLayer({ 
-              id: "clusters", 
-              type: "circle", 
-              source: "events", 
-              filter: ["has","point_count"],
-              paint: { 
-                "circle-color": isDark ? "#3a3a44" : "#e8e8ee", 
-                "circle-radius": ["step",["get","point_count"],16,50,22,200,28],
-                "circle-stroke-color": isDark ? "#555560" : "#cfcfda",
-                "circle-stroke-width": 1 
-              }
-            });
-          }
-          
-          if (!map.getLayer("cluster-count")) {
-            map.addLayer({ 
-              id: "cluster-count", 
-              type: "symbol", 
-              source: "events", 
-              filter: ["has","point_count"],
-              layout: { 
-                "text-field": ["get","point_count_abbreviated"], 
-                "text-size": 12 
-              },
-              paint: { "text-color": isDark ? "#eee" : "#333" }
-            });
-          }
-          
-          if (!map.getLayer("unclustered")) {
-            console.log('Adding unclustered layer in', isDark ? 'dark' : 'light', 'mode');
-            map.addLayer({ 
-              id: "unclustered", 
-              type: "circle", 
-              source: "events", 
-              filter: ["all", ["!",["has","point_count"]], ["!=", ["get", "id"], ["literal", selectedEventId ?? "___none___"]], ["!=", ["get", "isLive"], true]] as any,
-              paint: { 
-                "circle-color": [
-                  "match",
-                  ["get", "category"],
-                  "music", "#ff3b3b",
-                  "nightlife", "#ff3b3b",
-                  "food", "#ffa726",
-                  "arts", "#42a5f5",
-                  "sports", "#66bb6a",
-                  "family", "#66bb6a",
-                  "tech", "#9c27b0",
-                  "#999999"
-                ] as any,
-                "circle-radius": [
-                  "interpolate",
-                  ["linear"],
-                  ["get", "score"],
-                  0, 5,
-                  500, 7,
-                  1000, 9
-                ] as any,
-                "circle-stroke-color":"#ffffff",
-                "circle-stroke-width":1.5 
-              }
-            });
-          }
-          
-          if (!map.getLayer("unclustered-selected")) {
-            map.addLayer({ 
-              id: "unclustered-selected", 
-              type: "circle", 
-              source: "events", 
-              filter: ["all", ["!",["has","point_count"]], ["==", ["get", "id"], ["literal", selectedEventId ?? "___none___"]], ["!=", ["get", "isLive"], true]] as any,
-              paint: { 
-                "circle-color": [
-                  "match",
-                  ["get", "category"],
-                  "music", "#ff3b3b",
-                  "nightlife", "#ff3b3b",
-                  "food", "#ffa726",
-                  "arts", "#42a5f5",
-                  "sports", "#66bb6a",
-                  "family", "#66bb6a",
-                  "tech", "#9c27b0",
-                  "#999999"
-                ] as any,
-                "circle-radius":11,
-                "circle-stroke-color":"#ffffff",
-                "circle-stroke-width":3 
-              }
-            });
-          }
-          
-          if (!map.getLayer("live-glow")) {
-            map.addLayer({
-              id: "live-glow",
-              type: "circle",
-              source: "events",
-              filter: ["all", ["!", ["has", "point_count"]], ["==", ["get", "isLive"], true]],
-              paint: {
-                "circle-color": "#ff3b3b",
-                "circle-opacity": 0.35,
-                "circle-radius": 14,
-                "circle-blur": 0.6
-              }
-            });
-          }
-          
-          if (!map.getLayer("live-dot")) {
-            map.addLayer({
-              id: "live-dot",
-              type: "circle",
-              source: "events",
-              filter: ["all", ["!", ["has", "point_count"]], ["==", ["get", "isLive"], true]],
-              paint: {
-                "circle-color": [
-                  "match",
-                  ["get", "category"],
-                  "music", "#ff1744",
-                  "nightlife", "#ff1744",
-                  "food", "#ff9800",
-                  "arts", "#2196f3",
-                  "sports", "#4caf50",
-                  "family", "#4caf50",
-                  "tech", "#ab47bc",
-                  "#ff3b3b"
-                ] as any,
-                "circle-radius": 7,
-                "circle-stroke-color": "#ffffff",
-                "circle-stroke-width": 2
-              }
-            });
-          }
-          
-          // Re-load map icons and add icon layers (async, but doesn't block)
-          loadMapIcons(map).then(() => {
-            if (!map.getLayer("event-icons")) {
-              map.addLayer({
-                id: "event-icons",
-                type: "symbol",
-                source: "events",
-                filter: ["all", ["!", ["has", "point_count"]], ["!=", ["get", "id"], ["literal", selectedEventId ?? "___none___"]], ["!=", ["get", "isLive"], true]],
-                layout: {
-                  "icon-image": ["get", "iconKey"],
-                  "icon-size": 0.6,
-                  "icon-allow-overlap": true,
-                  "icon-ignore-placement": true,
-                  "icon-anchor": "bottom"
-                }
-              });
-            }
-
-            if (!map.getLayer("event-icons-selected")) {
-              map.addLayer({
-                id: "event-icons-selected",
-                type: "symbol",
-                source: "events",
-                filter: ["all", ["!", ["has", "point_count"]], ["==", ["get", "id"], ["literal", selectedEventId ?? "___none___"]], ["!=", ["get", "isLive"], true]],
-                layout: {
-                  "icon-image": ["get", "iconKey"],
-                  "icon-size": 0.7,
-                  "icon-allow-overlap": true,
-                  "icon-ignore-placement": true,
-                  "icon-anchor": "bottom"
-                }
-              });
-            }
-
-            if (!map.getLayer("event-icons-live")) {
-              map.addLayer({
-                id: "event-icons-live",
-                type: "symbol",
-                source: "events",
-                filter: ["all", ["!", ["has", "point_count"]], ["==", ["get", "isLive"], true]],
-                layout: {
-                  "icon-image": ["get", "iconKey"],
-                  "icon-size": 0.65,
-                  "icon-allow-overlap": true,
-                  "icon-ignore-placement": true,
-                  "icon-anchor": "bottom"
-                }
-              });
-            }
-          }).catch(err => console.error("Failed to load icons after style change:", err));
-        }  // end of: if (data)
-        
-        if (map.getLayer("building")) {
-          map.setPaintProperty("building", "fill-extrusion-color", isDark ? "#2a2a33" : "#e6e6ec");
-          map.setPaintProperty("building", "fill-extrusion-height", ["get", "render_height"]);
-          map.setPaintProperty("building", "fill-extrusion-base", ["get", "render_min_height"]);
-          map.setPaintProperty("building", "fill-extrusion-opacity", isDark ? 0.8 : 0.7);
-        }
-        
-        const clusterLayersTheme = ["clusters-large", "clusters-medium", "clusters-small", "clusters-tiny", "clusters"];
-        clusterLayersTheme.forEach(layerId => {
-          map.on("click", layerId, (ev:any) => {
-            const features = map.queryRenderedFeatures(ev.point, { layers: [layerId] });
-            if (!features.length) return;
-            const clusterId = features[0].properties.cluster_id;
-            (map.getSource("events") as any).getClusterExpansionZoom(clusterId, (err: any, z: number) => {
-              if (err) return;
-              map.easeTo({ center: (features[0].geometry as any).coordinates, zoom: z + 0.5, duration: 500 });
-            });
-          });
-        });
-        
-        map.on("click", "unclustered", (ev:any) => {
-          const f = ev.features?.[0];
-          if (!f) return;
-          const p = f?.properties || {};
-          const coords = (f?.geometry as any).coordinates;
-          
-          createEventPopup(map, coords, p);
-          
-          if (onMarkerClick && p.id) {
-            onMarkerClick(String(p.id));
-          }
-        });
-        
-        map.on("click", "unclustered-selected", (ev:any) => {
-          const f = ev.features?.[0];
-          if (!f) return;
-          const p = f?.properties || {};
-          const coords = (f?.geometry as any).coordinates;
-          
-          createEventPopup(map, coords, p);
-          
-          if (onMarkerClick && p.id) {
-            onMarkerClick(String(p.id));
-          }
-        });
-        
-        map.on("click", "live-dot", (ev:any) => {
-          const f = ev.features?.[0];
-          if (!f) return;
-          const p = f?.properties || {};
-          const coords = (f?.geometry as any).coordinates;
-          
-          // Smooth zoom to the live event
-          map.easeTo({
-            center: coords,
-            zoom: 16.5,
-            duration: 800,
-            pitch: 50,
-            bearing: map.getBearing()
-          });
-          
-          setTimeout(() => {
-            createEventPopup(map, coords, p);
-          }, 400);
-          
-          if (onMarkerClick && p.id) {
-            onMarkerClick(String(p.id));
-          }
-        });
-        
-        ["clusters-large", "clusters-medium", "clusters-small", "clusters-tiny", "clusters", "unclustered", "unclustered-selected", "live-dot"].forEach((layer) => {
-          map.on("mouseenter", layer, () => (map.getCanvas().style.cursor = "pointer"));
-          map.on("mouseleave", layer, () => (map.getCanvas().style.cursor = ""));
-        });
-      });  // closes map.once("styledata")
+      setMapTheme(map, newTheme);
     }, 50); // 50ms debounce
     
     return () => {
@@ -1540,192 +1098,7 @@ const MapGL = forwardRef<MapGLHandle, {
       if (currentThemeRef.current === newTheme) return;
       
       console.log('OS theme change to', newTheme);
-      currentThemeRef.current = newTheme;
-      
-      const isDark = e.matches;
-      const newStyle = isDark ? MAP_STYLE_DARK : MAP_STYLE_LIGHT;
-      const data = (map.getSource("events") as any)?._data || geo;
-      
-      console.log('Switching style (OS theme), data available:', !!data);
-      
-      map.setStyle(newStyle);
-      
-      map.once("styledata", () => {
-        console.log('Style loaded (OS theme), re-adding layers');
-        if (!map.getSource("events") && data) {
-          map.addSource("events", { 
-            type: "geojson", 
-            data, 
-            cluster: true, 
-            clusterRadius: 40, 
-            clusterMaxZoom: 14 
-          });
-          
-          if (!map.getLayer("clusters")) {
-            map.addLayer({ 
-              id: "clusters", 
-              type: "circle", 
-              source: "events", 
-              filter: ["has","point_count"],
-              paint: { 
-                "circle-color": isDark ? "#3a3a44" : "#e8e8ee", 
-                "circle-radius": ["step",["get","point_count"],16,50,22,200,28],
-                "circle-stroke-color": isDark ? "#555560" : "#cfcfda",
-                "circle-stroke-width": 1 
-              }
-            });
-          }
-          
-          if (!map.getLayer("cluster-count")) {
-            map.addLayer({ 
-              id: "cluster-count", 
-              type: "symbol", 
-              source: "events", 
-              filter: ["has","point_count"],
-              layout: { 
-                "text-field": ["get","point_count_abbreviated"], 
-                "text-size": 12 
-              },
-              paint: { "text-color": isDark ? "#eee" : "#333" }
-            });
-          }
-          
-          if (!map.getLayer("unclustered")) {
-            map.addLayer({ 
-              id: "unclustered", 
-              type: "circle", 
-              source: "events", 
-              filter: ["all", ["!",["has","point_count"]], ["!=", ["get", "id"], ["literal", selectedEventId ?? "___none___"]]] as any,
-              paint: { 
-                "circle-color":"#ff3b3b",
-                "circle-radius":6,
-                "circle-stroke-color":"#ffffff",
-                "circle-stroke-width":1.5 
-              }
-            });
-          }
-          
-          if (!map.getLayer("unclustered-selected")) {
-            map.addLayer({ 
-              id: "unclustered-selected", 
-              type: "circle", 
-              source: "events", 
-              filter: ["all", ["!",["has","point_count"]], ["==", ["get", "id"], ["literal", selectedEventId ?? "___none___"]]] as any,
-              paint: { 
-                "circle-color":"#ff3b3b",
-                "circle-radius":8,
-                "circle-stroke-color":"#ffffff",
-                "circle-stroke-width":3 
-              }
-            });
-          }
-          
-          if (!map.getLayer("live-glow")) {
-            map.addLayer({
-              id: "live-glow",
-              type: "circle",
-              source: "events",
-              filter: ["all", ["!", ["has", "point_count"]], ["==", ["get", "isLive"], true]],
-              paint: {
-                "circle-color": "#ff3b3b",
-                "circle-opacity": 0.35,
-                "circle-radius": 14,
-                "circle-blur": 0.6
-              }
-            });
-          }
-          
-          if (!map.getLayer("live-dot")) {
-            map.addLayer({
-              id: "live-dot",
-              type: "circle",
-              source: "events",
-              filter: ["all", ["!", ["has", "point_count"]], ["==", ["get", "isLive"], true]],
-              paint: {
-                "circle-color": "#ff3b3b",
-                "circle-radius": 6,
-                "circle-stroke-color": "#ffffff",
-                "circle-stroke-width": 1.5
-              }
-            });
-          }
-          
-          if (map.getLayer("building")) {
-            map.setPaintProperty("building", "fill-extrusion-color", isDark ? "#2a2a33" : "#e6e6ec");
-            map.setPaintProperty("building", "fill-extrusion-height", ["get", "render_height"]);
-            map.setPaintProperty("building", "fill-extrusion-base", ["get", "render_min_height"]);
-            map.setPaintProperty("building", "fill-extrusion-opacity", isDark ? 0.8 : 0.7);
-          }
-          
-          const clusterLayersTheme2 = ["clusters-large", "clusters-medium", "clusters-small", "clusters-tiny", "clusters"];
-          clusterLayersTheme2.forEach(layerId => {
-            map.on("click", layerId, (ev:any) => {
-              const features = map.queryRenderedFeatures(ev.point, { layers: [layerId] });
-              if (!features.length) return;
-              const clusterId = features[0].properties.cluster_id;
-              (map.getSource("events") as any).getClusterExpansionZoom(clusterId, (err: any, z: number) => {
-                if (err) return;
-                map.easeTo({ center: (features[0].geometry as any).coordinates, zoom: z + 0.5, duration: 500 });
-              });
-            });
-          });
-          
-          map.on("click", "unclustered", (ev:any) => {
-            const f = ev.features?.[0];
-            if (!f) return;
-            const p = f?.properties || {};
-            const coords = (f?.geometry as any).coordinates;
-            
-            createEventPopup(map, coords, p);
-            
-            if (onMarkerClick && p.id) {
-              onMarkerClick(String(p.id));
-            }
-          });
-          
-          map.on("click", "unclustered-selected", (ev:any) => {
-            const f = ev.features?.[0];
-            if (!f) return;
-            const p = f?.properties || {};
-            const coords = (f?.geometry as any).coordinates;
-            
-            createEventPopup(map, coords, p);
-            
-            if (onMarkerClick && p.id) {
-              onMarkerClick(String(p.id));
-            }
-          });
-          
-          map.on("click", "live-dot", (ev:any) => {
-            const f = ev.features?.[0];
-            if (!f) return;
-            const p = f?.properties || {};
-            const coords = (f?.geometry as any).coordinates;
-            
-            // Smooth zoom to the live event
-            map.easeTo({
-              center: coords,
-              zoom: 16.5,
-              duration: 800,
-              pitch: 50,
-              bearing: map.getBearing()
-            });
-            
-            setTimeout(() => {
-              createEventPopup(map, coords, p);
-            }, 400);
-            
-            if (onMarkerClick && p.id) {
-              onMarkerClick(String(p.id));
-            }
-          });
-          
-          ["clusters-large", "clusters-medium", "clusters-small", "clusters-tiny", "clusters", "unclustered", "unclustered-selected", "live-dot"].forEach((layer) => {
-            map.on("mouseenter", layer, () => (map.getCanvas().style.cursor = "pointer"));
-            map.on("mouseleave", layer, () => (map.getCanvas().style.cursor = ""));
-          });
-        }
-      });
+      setMapTheme(map, newTheme);
     };
     
     mq?.addEventListener?.("change", onChange);
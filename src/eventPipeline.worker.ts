@@ -0,0 +1,26 @@
+/**
+ * Runs the event filter/score pipeline off the main thread (see useEventPipeline).
+ * Events are sent once per change and kept here; each run only carries the options.
+ */
+
+import { filterAndScoreEvents } from "./utils/eventPipeline";
+import type { EventPipelineOptions } from "./utils/eventPipeline";
+import type { HotspotEvent } from "./types";
+
+export type EventPipelineRequest =
+  | { type: "events"; events: HotspotEvent[] }
+  | { type: "run"; runId: number; options: EventPipelineOptions };
+
+export type EventPipelineResponse = { runId: number; ids: string[] };
+
+let events: HotspotEvent[] = [];
+
+self.onmessage = (e: MessageEvent<EventPipelineRequest>) => {
+  const message = e.data;
+  if (message.type === "events") {
+    events = message.events;
+    return;
+  }
+  const response: EventPipelineResponse = { runId: message.runId, ids: filterAndScoreEvents(events, message.options) };
+  self.postMessage(response);
+};
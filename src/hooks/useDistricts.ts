@@ -0,0 +1,28 @@
+import { useState, useEffect, useMemo } from 'react';
+import { fetchDistricts, assignDistricts } from '../utils/districts';
+import type { District, HotspotEvent } from '../types';
+
+/**
+ * Hook to load the district boundaries once and place each loaded event in its district.
+ * Point-in-polygon runs once per event load, not on every filter change.
+ */
+export function useDistricts(events: HotspotEvent[]) {
+  const [districts, setDistricts] = useState<District[] | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchDistricts(controller.signal)
+      .then(setDistricts)
+      .catch((err) => {
+        if (!controller.signal.aborted) console.warn('Failed to load districts:', err);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const assignments = useMemo(
+    () => (districts ? assignDistricts(events, districts) : new Map<string, string>()),
+    [districts, events]
+  );
+
+  return { districts, assignments };
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { filterAndScoreEvents } from '../utils/eventPipeline';
+import type { EventPipelineOptions } from '../utils/eventPipeline';
+import type { EventPipelineRequest, EventPipelineResponse } from '../eventPipeline.worker';
+import type { HotspotEvent } from '../types';
+
+/**
+ * Hook to filter and rank events in a Web Worker so scoring thousands of events doesn't block the UI.
+ * The first result is computed inline so nothing blanks while the worker starts; after that the previous
+ * result stays up until the worker answers a newer run. Runs inline where workers are unavailable.
+ */
+export function useEventPipeline(events: HotspotEvent[], options: EventPipelineOptions): HotspotEvent[] {
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
+  const [ids, setIds] = useState<string[] | null>(null);
+  const [workerFailed, setWorkerFailed] = useState(() => typeof Worker === 'undefined');
+
+  useEffect(() => {
+    if (workerFailed) return;
+    const worker = new Worker(new URL('../eventPipeline.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<EventPipelineResponse>) => {
+      // Only the latest run counts; earlier answers are for options that have since changed
+      if (e.data.runId === runIdRef.current) setIds(e.data.ids);
+    };
+    worker.onerror = (err) => {
+      console.warn('Event pipeline worker failed, filtering on the main thread:', err.message);
+      setWorkerFailed(true);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [workerFailed]);
+
+  // Events are copied to the worker only when they change, before the run that needs them
+  useEffect(() => {
+    const message: EventPipelineRequest = { type: 'events', events };
+    workerRef.current?.postMessage(message);
+  }, [events, workerFailed]);
+
+  useEffect(() => {
+    const runId = ++runIdRef.current;
+    const message: EventPipelineRequest = { type: 'run', runId, options };
+    workerRef.current?.postMessage(message);
+  }, [events, options, workerFailed]);
+
+  const waitingForWorker = ids === null;
+  const inlineIds = useMemo(
+    () => (workerFailed || waitingForWorker ? filterAndScoreEvents(events, options) : null),
+    [workerFailed, waitingForWorker, events, options]
+  );
+
+  return useMemo(() => {
+    const resultIds = inlineIds ?? ids ?? [];
+    const byId = new Map(events.map(e => [e.id, e]));
+    return resultIds.flatMap(id => byId.get(id) ?? []);
+  }, [inlineIds, ids, events]);
+}
@@ -9,7 +9,12 @@ import {
 /**
  * Hook to fetch venue details from Google Places
  */
-export function useVenueDetails(venueName: string, lat: number, lng: number) {
+export function useVenueDetails(
+  venueName: string,
+  lat: number,
+  lng: number,
+  venue?: { id: string; googlePlaceId: string | null }
+) {
   const [details, setDetails] = useState<PlaceDetails | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -21,7 +26,7 @@ export function useVenueDetails(venueName: string, lat: number, lng: number) {
     setLoading(true);
     setError(null);
 
-    getCachedPlaceDetails(venueName, lat, lng)
+    getCachedPlaceDetails(venueName, lat, lng, venue)
       .then((data) => {
         if (!cancelled) {
           setDetails(data);
@@ -38,7 +43,7 @@ export function useVenueDetails(venueName: string, lat: number, lng: number) {
     return () => {
       cancelled = true;
     };
-  }, [venueName, lat, lng]);
+  }, [venueName, lat, lng, venue?.id, venue?.googlePlaceId]);
 
   return { details, loading, error };
 }
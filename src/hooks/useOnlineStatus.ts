@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Tracks navigator.onLine via the online/offline window events
+ */
+export function useOnlineStatus(): boolean {
+  const [online, setOnline] = useState<boolean>(() => typeof navigator === 'undefined' || navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+}
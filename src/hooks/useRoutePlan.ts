@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import { fetchRoutePlan } from '../utils/routing';
+import type { HotspotEvent, RouteMode, RoutePlan } from '../types';
+
+/**
+ * Hook to plan a route from the user's location to an event; idle until both are known
+ */
+export function useRoutePlan(
+  from: { lat: number; lng: number } | null,
+  event: HotspotEvent | null,
+  mode: RouteMode
+) {
+  const [plan, setPlan] = useState<RoutePlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPlan(null);
+    setError(null);
+    if (!from || !event) {
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+
+    fetchRoutePlan(from, event, mode, controller.signal)
+      .then((data) => {
+        setPlan(data);
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(err.message || 'Failed to plan a route');
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [from?.lat, from?.lng, event?.id, event?.startTime, mode]);
+
+  return { plan, loading, error };
+}
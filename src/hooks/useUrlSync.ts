@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { buildUrlHash, buildUrlSearch, parseUrlState, UrlState } from '../utils/urlState';
+
+/**
+ * Keep the URL in sync with the view state, with working back/forward.
+ * Discrete changes (filters, selected event) push a history entry; typing in
+ * search and panning the map replace the current one so history stays usable.
+ */
+export function useUrlSync(state: UrlState, onNavigate: (state: UrlState) => void) {
+  const onNavigateRef = useRef(onNavigate);
+  onNavigateRef.current = onNavigate;
+
+  const search = buildUrlSearch(state);
+  const hash = buildUrlHash(state.view);
+  // Search text is excluded so each keystroke doesn't become a history entry
+  const discreteKey = buildUrlSearch({ ...state, query: '' });
+  const lastDiscreteKey = useRef(discreteKey);
+
+  useEffect(() => {
+    const { pathname } = window.location;
+    if (window.location.search === search && window.location.hash === hash) return;
+
+    const url = `${pathname}${search}${hash}`;
+    if (discreteKey !== lastDiscreteKey.current) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+    lastDiscreteKey.current = discreteKey;
+  }, [search, hash, discreteKey]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const next = parseUrlState(window.location);
+      lastDiscreteKey.current = buildUrlSearch({ ...next, query: '' });
+      onNavigateRef.current(next);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+}
@@ -4,4 +4,13 @@ import { createRoot } from "react-dom/client";
 import App from "./App";
 
 const root = createRoot(document.getElementById("root")!);
-root.render(<App />);
\ No newline at end of file
+root.render(<App />);
+
+// Offline support (app shell + Helsinki map tiles); skipped in dev so Vite HMR isn't cached
+if (import.meta.env.PROD && "serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch(err => {
+      console.warn("Service worker registration failed:", err);
+    });
+  });
+}
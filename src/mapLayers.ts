@@ -0,0 +1,607 @@
+/**
+ * Declarative sources and layers for MapGL.
+ *
+ * setStyle (theme switches) drops everything added on top of the base style. applyMapLayers puts
+ * it back from these definitions after every style load, and layer event handlers are bound once
+ * per map (MapLibre keeps layer-scoped listeners across style changes). Adding a layer means adding
+ * one entry to MAP_LAYERS, plus an entry in the handlers passed to bindLayerEvents if it's clickable.
+ */
+
+import type maplibregl from "maplibre-gl";
+import type {
+  AddLayerObject,
+  ExpressionSpecification,
+  FilterSpecification,
+  GeoJSONSourceSpecification,
+  Map as MLMap,
+  MapLayerMouseEvent,
+} from "maplibre-gl";
+
+export type MapTheme = "light" | "dark";
+
+// What the definitions depend on; read on every (re)apply
+export interface MapLayerState {
+  theme: MapTheme;
+  selectedEventId?: string;
+  heatmapMode: boolean;
+  show3DBuildings: boolean;
+  districtMode: boolean;
+}
+
+export type MapSourceId = "events" | "events-heat" | "districts" | "user-radius" | "route" | "spider";
+
+// Time-dependent status of an event pin, pushed with setFeatureState (keyed by the promoted "id")
+// so the minute tick doesn't rebuild and re-cluster the events source
+export interface EventFeatureState {
+  isLive: boolean;
+  isStartingSoon: boolean;
+  isTonight: boolean;
+  isOpenNow: boolean;
+}
+
+type GeoJSONData = GeoJSONSourceSpecification["data"];
+
+export interface MapLayerDefinition {
+  id: string;
+  layer: (state: MapLayerState) => AddLayerObject;
+  icons?: boolean; // Needs the category icons, so it's added once loadMapIcons has finished
+}
+
+export type MapLayerEventType = "click" | "mouseenter" | "mousemove" | "mouseleave";
+export type MapLayerEvents = Partial<Record<MapLayerEventType, (e: MapLayerMouseEvent) => void>>;
+
+export const EMPTY_COLLECTION = { type: "FeatureCollection", features: [] } as GeoJSONData;
+
+// Source options besides the data, which MapGL supplies on every apply
+const SOURCES: Record<MapSourceId, Omit<GeoJSONSourceSpecification, "type" | "data">> = {
+  events: {
+    promoteId: "id", // Feature state is keyed by event id
+    cluster: true,
+    clusterRadius: 60, // Increased for better clustering
+    clusterMaxZoom: 16, // Cluster up to zoom 16 (was 14)
+    clusterProperties: {
+      // Count events by category for cluster breakdown
+      music: ["+", ["case", ["==", ["get", "category"], "music"], 1, 0]],
+      food: ["+", ["case", ["==", ["get", "category"], "food"], 1, 0]],
+      arts: ["+", ["case", ["==", ["get", "category"], "arts"], 1, 0]],
+      sports: ["+", ["case", ["==", ["get", "category"], "sports"], 1, 0]],
+      nightlife: ["+", ["case", ["==", ["get", "category"], "nightlife"], 1, 0]],
+      family: ["+", ["case", ["==", ["get", "category"], "family"], 1, 0]],
+      tech: ["+", ["case", ["==", ["get", "category"], "tech"], 1, 0]],
+      // Equals point_count when every event in the cluster shares one point
+      colocated: ["max", ["get", "colocatedCount"]],
+    },
+  },
+  // Same pins unclustered, for the heatmap; weights come from the "heat" feature state
+  "events-heat": { promoteId: "id" },
+  // District polygons with their event counts; the selected one has the "selected" feature state
+  districts: { promoteId: "id" },
+  "user-radius": {},
+  route: {},
+  spider: {},
+};
+
+const CATEGORY_COLORS: ExpressionSpecification = [
+  "match",
+  ["get", "category"],
+  "music", "#ff3b3b", // Red for music
+  "nightlife", "#ff3b3b", // Red for nightlife
+  "food", "#ffa726", // Orange/Yellow for food
+  "arts", "#42a5f5", // Blue for arts/culture
+  "sports", "#66bb6a", // Green for sports/outdoors
+  "family", "#66bb6a", // Green for family
+  "tech", "#9c27b0", // Purple for tech
+  "#999999", // Gray for other
+];
+
+// Brighter variants for LIVE markers
+const LIVE_CATEGORY_COLORS: ExpressionSpecification = [
+  "match",
+  ["get", "category"],
+  "music", "#ff1744",
+  "nightlife", "#ff1744",
+  "food", "#ff9800",
+  "arts", "#2196f3",
+  "sports", "#4caf50",
+  "family", "#4caf50",
+  "tech", "#ab47bc",
+  "#ff3b3b",
+];
+
+const CLUSTER_COLORS: Record<MapTheme, { fill: string; stroke: string; text: string; halo: string }> = {
+  light: { fill: "#e8e8ee", stroke: "#cfcfda", text: "#333", halo: "#fff" },
+  dark: { fill: "#3a3a44", stroke: "#555560", text: "#eee", halo: "#222" },
+};
+
+const BUILDING_COLORS: Record<MapTheme, { color: string; opacity: number }> = {
+  light: { color: "#e6e6ec", opacity: 0.7 },
+  dark: { color: "#2a2a33", opacity: 0.8 },
+};
+
+const NOT_CLUSTER: ExpressionSpecification = ["!", ["has", "point_count"]];
+
+// Feature state can't be used in filters, so LIVE pins are switched between layers by size/opacity
+const IS_LIVE: ExpressionSpecification = ["boolean", ["feature-state", "isLive"], false];
+const IS_STARTING_SOON: ExpressionSpecification = ["boolean", ["feature-state", "isStartingSoon"], false];
+
+/**
+ * Value for LIVE pins, 0 for the rest
+ */
+export function whenLive(value: number): ExpressionSpecification {
+  return ["case", IS_LIVE, value, 0];
+}
+
+/**
+ * Value for pins that aren't LIVE, 0 for LIVE ones (drawn by the live layers instead)
+ */
+function unlessLive(value: number | ExpressionSpecification): ExpressionSpecification {
+  return ["case", IS_LIVE, 0, value];
+}
+
+/**
+ * Pins other than the selected one (the selected pin has its own layers)
+ */
+function unselectedFilter(selectedEventId?: string): FilterSpecification {
+  return ["all", NOT_CLUSTER, ["!=", ["get", "id"], ["literal", selectedEventId ?? "___none___"]]];
+}
+
+function selectedFilter(selectedEventId?: string): FilterSpecification {
+  return ["all", NOT_CLUSTER, ["==", ["get", "id"], ["literal", selectedEventId ?? "___none___"]]];
+}
+
+function clusterLayer(id: string, filter: ExpressionSpecification, radius: number): MapLayerDefinition {
+  return {
+    id,
+    layer: ({ theme }) => ({
+      id,
+      type: "circle",
+      source: "events",
+      filter: ["all", ["has", "point_count"], filter],
+      paint: {
+        "circle-color": CLUSTER_COLORS[theme].fill,
+        "circle-radius": radius,
+        "circle-stroke-color": CLUSTER_COLORS[theme].stroke,
+        "circle-stroke-width": 2,
+      },
+    }),
+  };
+}
+
+function iconLayer(
+  id: string,
+  filter: (state: MapLayerState) => FilterSpecification,
+  size: number,
+  opacity: ExpressionSpecification
+): MapLayerDefinition {
+  return {
+    id,
+    icons: true,
+    layer: (state) => ({
+      id,
+      type: "symbol",
+      source: "events",
+      filter: filter(state),
+      layout: {
+        "icon-image": ["get", "iconKey"],
+        "icon-size": size,
+        "icon-allow-overlap": true,
+        "icon-ignore-placement": true,
+        "icon-anchor": "bottom",
+      },
+      paint: { "icon-opacity": opacity },
+    }),
+  };
+}
+
+const DISTRICT_SELECTED: ExpressionSpecification = ["boolean", ["feature-state", "selected"], false];
+
+// Choropleth layers, shown in district mode
+export const DISTRICT_LAYERS = ["districts-fill", "districts-outline", "districts-label"];
+
+// Bottom to top
+export const MAP_LAYERS: MapLayerDefinition[] = [
+  // Districts coloured by upcoming and live events
+  {
+    id: "districts-fill",
+    layer: ({ districtMode }) => ({
+      id: "districts-fill",
+      type: "fill",
+      source: "districts",
+      paint: {
+        "fill-color": ["interpolate", ["linear"], ["get", "count"], 0, "#eef0fb", 5, "#b3bcf5", 20, "#667eea", 50, "#764ba2"],
+        "fill-opacity": ["case", DISTRICT_SELECTED, 0.6, 0.35],
+      },
+      layout: { visibility: districtMode ? "visible" : "none" },
+    }),
+  },
+  {
+    id: "districts-outline",
+    layer: ({ districtMode }) => ({
+      id: "districts-outline",
+      type: "line",
+      source: "districts",
+      paint: {
+        "line-color": ["case", DISTRICT_SELECTED, "#764ba2", "#667eea"],
+        "line-width": ["case", DISTRICT_SELECTED, 3, 1],
+        "line-opacity": 0.7,
+      },
+      layout: { visibility: districtMode ? "visible" : "none" },
+    }),
+  },
+  {
+    id: "districts-label",
+    layer: ({ theme, districtMode }) => ({
+      id: "districts-label",
+      type: "symbol",
+      source: "districts",
+      minzoom: 11,
+      layout: {
+        "text-field": ["concat", ["get", "name"], "\n", ["to-string", ["get", "count"]]],
+        "text-font": ["DIN Offc Pro Medium", "Arial Unicode MS Bold"],
+        "text-size": 11,
+        visibility: districtMode ? "visible" : "none",
+      },
+      paint: {
+        "text-color": CLUSTER_COLORS[theme].text,
+        "text-halo-color": CLUSTER_COLORS[theme].halo,
+        "text-halo-width": 1,
+      },
+    }),
+  },
+
+  // Activity at the heatmap's hour, toggled by heatmapMode
+  {
+    id: "events-heatmap",
+    layer: ({ heatmapMode }) => ({
+      id: "events-heatmap",
+      type: "heatmap",
+      source: "events-heat",
+      maxzoom: 15,
+      paint: {
+        // Weight by how live each event is at that hour (MapGL's getHeatWeight)
+        "heatmap-weight": ["*", 2, ["number", ["feature-state", "heat"], 0]],
+        // Increase intensity as zoom level increases
+        "heatmap-intensity": ["interpolate", ["linear"], ["zoom"], 0, 0.5, 15, 1.5],
+        // Color ramp: cool (few events) to warm (many events)
+        "heatmap-color": [
+          "interpolate",
+          ["linear"],
+          ["heatmap-density"],
+          0, "rgba(33,102,172,0)",
+          0.2, "rgb(103,169,207)",
+          0.4, "rgb(209,229,240)",
+          0.6, "rgb(253,219,199)",
+          0.8, "rgb(239,138,98)",
+          0.9, "rgb(255,201,101)",
+          1, "rgb(178,24,43)",
+        ],
+        // Adjust radius by zoom level
+        "heatmap-radius": ["interpolate", ["linear"], ["zoom"], 0, 2, 15, 20],
+        // Fade out heatmap at high zoom levels
+        "heatmap-opacity": ["interpolate", ["linear"], ["zoom"], 7, 0.8, 15, 0.3],
+      },
+      layout: { visibility: heatmapMode ? "visible" : "none" },
+    }),
+  },
+
+  // ~2 km circle around the user's location
+  {
+    id: "user-radius-circle",
+    layer: () => ({
+      id: "user-radius-circle",
+      type: "circle",
+      source: "user-radius",
+      paint: {
+        "circle-radius": ["interpolate", ["exponential", 2], ["zoom"], 10, 5, 14, 80, 16, 320],
+        "circle-color": "#2196f3",
+        "circle-opacity": 0.1,
+        "circle-stroke-color": "#2196f3",
+        "circle-stroke-width": 2,
+        "circle-stroke-opacity": 0.4,
+      },
+    }),
+  },
+
+  // Planned route: solid lines in the line colour for transit legs, dotted for walking
+  {
+    id: "route-casing",
+    layer: () => ({
+      id: "route-casing",
+      type: "line",
+      source: "route",
+      filter: ["!=", ["get", "walk"], true],
+      layout: { "line-cap": "round", "line-join": "round" },
+      paint: { "line-color": "#ffffff", "line-width": 8 },
+    }),
+  },
+  {
+    id: "route-transit",
+    layer: () => ({
+      id: "route-transit",
+      type: "line",
+      source: "route",
+      filter: ["!=", ["get", "walk"], true],
+      layout: { "line-cap": "round", "line-join": "round" },
+      paint: { "line-color": ["get", "color"], "line-width": 5 },
+    }),
+  },
+  {
+    id: "route-walk",
+    layer: () => ({
+      id: "route-walk",
+      type: "line",
+      source: "route",
+      filter: ["==", ["get", "walk"], true],
+      layout: { "line-cap": "round", "line-join": "round" },
+      paint: { "line-color": ["get", "color"], "line-width": 4, "line-dasharray": [0.5, 1.5] },
+    }),
+  },
+
+  // Clusters, sized by event count
+  clusterLayer("clusters-large", [">=", ["get", "point_count"], 200], 38),
+  clusterLayer("clusters-medium", ["all", [">=", ["get", "point_count"], 50], ["<", ["get", "point_count"], 200]], 28),
+  clusterLayer("clusters-small", ["all", [">=", ["get", "point_count"], 10], ["<", ["get", "point_count"], 50]], 22),
+  clusterLayer("clusters-tiny", ["<", ["get", "point_count"], 10], 18),
+
+  // Clusters whose events all sit on one point: a pin with the count as its badge (clicks spiderfy)
+  {
+    id: "colocated-clusters",
+    layer: () => ({
+      id: "colocated-clusters",
+      type: "circle",
+      source: "events",
+      filter: ["all", ["has", "point_count"], ["==", ["get", "point_count"], ["get", "colocated"]]],
+      paint: {
+        "circle-color": "#667eea",
+        "circle-radius": ["step", ["get", "point_count"], 18, 10, 22, 50, 28, 200, 38],
+        "circle-stroke-color": "#ffffff",
+        "circle-stroke-width": 3,
+      },
+    }),
+  },
+
+  {
+    id: "cluster-count",
+    layer: ({ theme }) => ({
+      id: "cluster-count",
+      type: "symbol",
+      source: "events",
+      filter: ["has", "point_count"],
+      layout: {
+        "text-field": ["get", "point_count_abbreviated"],
+        "text-font": ["DIN Offc Pro Medium", "Arial Unicode MS Bold"],
+        "text-size": ["step", ["get", "point_count"], 13, 50, 15, 200, 18],
+      },
+      paint: {
+        "text-color": CLUSTER_COLORS[theme].text,
+        "text-halo-color": CLUSTER_COLORS[theme].halo,
+        "text-halo-width": 1,
+      },
+    }),
+  },
+
+  // Unclustered hotspots with category-based colors, sized by score; orange ring when starting soon
+  {
+    id: "unclustered",
+    layer: ({ selectedEventId }) => ({
+      id: "unclustered",
+      type: "circle",
+      source: "events",
+      filter: unselectedFilter(selectedEventId),
+      paint: {
+        "circle-color": CATEGORY_COLORS,
+        "circle-radius": unlessLive(["interpolate", ["linear"], ["get", "score"], 0, 5, 500, 7, 1000, 9]),
+        "circle-stroke-color": ["case", IS_STARTING_SOON, "#ff9800", "#ffffff"],
+        "circle-stroke-width": unlessLive(["case", IS_STARTING_SOON, 2.5, 1.5]),
+        // Smooth transitions for filtering/appearance
+        "circle-radius-transition": { duration: 300, delay: 0 },
+        "circle-opacity-transition": { duration: 300, delay: 0 },
+      },
+    }),
+  },
+
+  // Selected marker (highlighted with larger stroke)
+  {
+    id: "unclustered-selected",
+    layer: ({ selectedEventId }) => ({
+      id: "unclustered-selected",
+      type: "circle",
+      source: "events",
+      filter: selectedFilter(selectedEventId),
+      paint: {
+        "circle-color": CATEGORY_COLORS,
+        "circle-radius": unlessLive(11), // Slightly bigger for "grow" effect
+        "circle-stroke-color": "#ffffff",
+        "circle-stroke-width": unlessLive(3),
+        // Smooth grow animation when selected
+        "circle-radius-transition": { duration: 150, delay: 0 },
+        "circle-stroke-width-transition": { duration: 150, delay: 0 },
+      },
+    }),
+  },
+
+  // LIVE markers: glow ring (pulsed by MapGL's animation loop) with a solid dot on top
+  {
+    id: "live-glow",
+    layer: () => ({
+      id: "live-glow",
+      type: "circle",
+      source: "events",
+      filter: NOT_CLUSTER,
+      paint: {
+        "circle-color": "#ff3b3b",
+        "circle-opacity": 0.35,
+        "circle-radius": whenLive(14),
+        "circle-blur": 0.6,
+      },
+    }),
+  },
+  {
+    id: "live-dot",
+    layer: () => ({
+      id: "live-dot",
+      type: "circle",
+      source: "events",
+      filter: NOT_CLUSTER,
+      paint: {
+        "circle-color": LIVE_CATEGORY_COLORS,
+        "circle-radius": whenLive(7),
+        "circle-stroke-color": "#ffffff",
+        "circle-stroke-width": whenLive(2),
+        "circle-radius-transition": { duration: 300, delay: 0 },
+        "circle-opacity-transition": { duration: 300, delay: 0 },
+      },
+    }),
+  },
+
+  // Event count badge on venue pins that stand for several events (groupByVenue)
+  {
+    id: "venue-count",
+    layer: () => ({
+      id: "venue-count",
+      type: "symbol",
+      source: "events",
+      filter: ["all", NOT_CLUSTER, [">", ["get", "venueEventCount"], 1]],
+      layout: {
+        "text-field": ["to-string", ["get", "venueEventCount"]],
+        "text-size": 11,
+        "text-offset": [1.1, -0.3],
+        "text-allow-overlap": true,
+        "text-ignore-placement": true,
+      },
+      paint: {
+        "text-color": "#ffffff",
+        "text-halo-color": "#667eea",
+        "text-halo-width": 3,
+      },
+    }),
+  },
+
+  // Category icons on top of the markers
+  iconLayer("event-icons", ({ selectedEventId }) => unselectedFilter(selectedEventId), 0.6, unlessLive(1)),
+  iconLayer("event-icons-selected", ({ selectedEventId }) => selectedFilter(selectedEventId), 0.7, unlessLive(1)),
+  iconLayer("event-icons-live", () => NOT_CLUSTER, 0.65, whenLive(1)),
+
+  // Spiderfied stack: legs from the shared point out to one pin per event
+  {
+    id: "spider-legs",
+    layer: () => ({
+      id: "spider-legs",
+      type: "line",
+      source: "spider",
+      filter: ["==", ["geometry-type"], "LineString"],
+      paint: {
+        "line-color": "#667eea",
+        "line-width": 1.5,
+        "line-opacity": 0.8,
+      },
+    }),
+  },
+  {
+    id: "spider-points",
+    layer: () => ({
+      id: "spider-points",
+      type: "circle",
+      source: "spider",
+      filter: ["==", ["geometry-type"], "Point"],
+      paint: {
+        "circle-color": CATEGORY_COLORS,
+        "circle-radius": 9,
+        "circle-stroke-color": ["case", ["==", ["get", "isLive"], true], "#ff1744", "#ffffff"],
+        "circle-stroke-width": 2,
+      },
+    }),
+  },
+];
+
+/**
+ * Add whatever sources and layers the current style is missing, in registry order. Icon layers are
+ * skipped until iconsReady; calling again later slots them in at their place in the stack.
+ */
+export function applyMapLayers(
+  map: MLMap,
+  state: MapLayerState,
+  getData: (sourceId: MapSourceId) => GeoJSONData,
+  iconsReady: boolean
+) {
+  for (const [id, options] of Object.entries(SOURCES) as [MapSourceId, (typeof SOURCES)[MapSourceId]][]) {
+    if (!map.getSource(id)) {
+      map.addSource(id, { type: "geojson", data: getData(id), ...options });
+    }
+  }
+
+  MAP_LAYERS.forEach((definition, index) => {
+    if (map.getLayer(definition.id) || (definition.icons && !iconsReady)) return;
+    // Insert under the next registered layer that's already on the map
+    const beforeId = MAP_LAYERS.slice(index + 1).find(next => map.getLayer(next.id))?.id;
+    map.addLayer(definition.layer(state), beforeId);
+  });
+
+  applyBuildings(map, state);
+}
+
+/**
+ * Keep layer filters in step with the selected event
+ */
+export function applySelection(map: MLMap, selectedEventId?: string) {
+  const filters: Record<string, FilterSpecification> = {
+    "unclustered": unselectedFilter(selectedEventId),
+    "event-icons": unselectedFilter(selectedEventId),
+    "unclustered-selected": selectedFilter(selectedEventId),
+    "event-icons-selected": selectedFilter(selectedEventId),
+  };
+  for (const [id, filter] of Object.entries(filters)) {
+    if (map.getLayer(id)) map.setFilter(id, filter);
+  }
+}
+
+/**
+ * 3D buildings from the base style (if its vector data has them), tinted for the theme or flattened
+ */
+export function applyBuildings(map: MLMap, { theme, show3DBuildings }: MapLayerState) {
+  if (!map.getLayer("building")) return;
+  map.setPaintProperty("building", "fill-extrusion-color", BUILDING_COLORS[theme].color);
+  if (show3DBuildings) {
+    map.setPaintProperty("building", "fill-extrusion-height", ["get", "render_height"]);
+    map.setPaintProperty("building", "fill-extrusion-base", ["get", "render_min_height"]);
+    map.setPaintProperty("building", "fill-extrusion-opacity", BUILDING_COLORS[theme].opacity);
+  } else {
+    // Hide buildings by setting height to 0
+    map.setPaintProperty("building", "fill-extrusion-height", 0);
+    map.setPaintProperty("building", "fill-extrusion-base", 0);
+    map.setPaintProperty("building", "fill-extrusion-opacity", 0);
+  }
+}
+
+/**
+ * Bind layer event handlers once per map. MapLibre checks which of the layers exist on each event,
+ * so the handlers keep working across style switches without being registered again.
+ * Layers with a click handler get a pointer cursor.
+ */
+export function bindLayerEvents(map: MLMap, events: Record<string, MapLayerEvents>) {
+  for (const [layerId, handlers] of Object.entries(events)) {
+    for (const [type, handler] of Object.entries(handlers) as [MapLayerEventType, (e: MapLayerMouseEvent) => void][]) {
+      map.on(type, layerId, handler);
+    }
+    if (handlers.click) {
+      map.on("mouseenter", layerId, () => (map.getCanvas().style.cursor = "pointer"));
+      map.on("mouseleave", layerId, () => (map.getCanvas().style.cursor = ""));
+    }
+  }
+}
+
+/**
+ * Show or hide registry layers that are on the map
+ */
+export function setLayersVisible(map: MLMap, layerIds: string[], visible: boolean) {
+  for (const id of layerIds) {
+    if (map.getLayer(id)) map.setLayoutProperty(id, "visibility", visible ? "visible" : "none");
+  }
+}
+
+/**
+ * Set a registry source's data, if the source is on the map
+ */
+export function setSourceData(map: MLMap, sourceId: MapSourceId, data: GeoJSONData) {
+  (map.getSource(sourceId) as maplibregl.GeoJSONSource | undefined)?.setData(data as any);
+}
@@ -0,0 +1,197 @@
+/**
+ * Shared event model for the client.
+ * Mirrors the HotspotEvent typedef produced by /api/events-lite.
+ */
+
+export type EventSource = "linkedevents" | "myhelsinki" | "eventbrite" | "meetup";
+
+export type EventCategory =
+  | "music"
+  | "food"
+  | "sports"
+  | "family"
+  | "arts"
+  | "tech"
+  | "nightlife"
+  | "other";
+
+export type PriceType = "free" | "paid";
+
+export type Language = "fi" | "sv" | "en";
+
+// Per-language variants of a text field; any language may be missing
+export type LocalizedText = Partial<Record<Language, string>>;
+
+export interface EventTranslations {
+  title: LocalizedText;
+  description: LocalizedText;
+  venueName: LocalizedText;
+  url: LocalizedText;
+}
+
+// One date of a recurring series
+export interface EventOccurrence {
+  id: string; // Source-prefixed id of the individual occurrence
+  startTime: string; // ISO 8601
+  endTime: string | null; // ISO 8601
+}
+
+// A place events happen at, shared by all its events (built by the aggregator)
+export interface Venue {
+  id: string; // Stable across rebuilds, e.g. "venue_1a2b3c4d5e6f"
+  name: string;
+  names: LocalizedText;
+  address: string | null;
+  city: string;
+  lat: number;
+  lng: number;
+  sourceIds: Partial<Record<EventSource, string>>; // Place id in each source, e.g. { linkedevents: "tprek:7254" }
+  googlePlaceId: string | null; // Resolved Google Places id, once known
+}
+
+export interface HotspotEvent {
+  id: string; // Unique identifier with source prefix (e.g. "linkedevents_123")
+  source: EventSource;
+  title: string;
+  description: string;
+  startTime: string; // ISO 8601
+  endTime: string | null; // ISO 8601, null if unknown
+  lat: number;
+  lng: number;
+  venueName: string;
+  city: string;
+  category: EventCategory;
+  priceType: PriceType;
+  url: string | null;
+  imageUrl: string | null;
+  isLiveNow: boolean; // Computed by the server at aggregation time
+  score: number; // Computed by the server at aggregation time
+  ticketUrl?: string | null;
+  ticketPrice?: string | null;
+  ticketInfo?: string | null;
+  maxAttendees?: number | null;
+  currentAttendees?: number | null;
+  i18n?: EventTranslations; // All available translations; title/description/venueName/url hold the Finnish-first default
+  seriesId?: string; // Source id of the parent series (LinkedEvents super_event)
+  occurrences?: EventOccurrence[]; // All dates of a grouped series, sorted; startTime/endTime hold the next one
+  mergedFrom?: string[]; // Ids of cross-source listings merged into this event
+  provenance?: Partial<Record<MergedField, EventSource>>; // Which source each merged field came from
+  match?: SearchMatch; // Only in search results (`q`)
+  venue?: Venue; // Missing on demo events and events stored before venues existed
+}
+
+// Search relevance and highlighted snippets for one result
+export interface SearchMatch {
+  score: number;
+  snippets: SearchSnippets;
+}
+
+export type SearchSnippets = {
+  title?: SnippetPart[];
+  venueName?: SnippetPart[];
+  description?: SnippetPart[]; // Window around the first match
+};
+
+export type SnippetPart = { text: string; match: boolean };
+
+// Fields the aggregator fills in from duplicate listings in other sources
+export type MergedField = 'description' | 'imageUrl' | 'url' | 'ticketUrl' | 'ticketPrice' | 'ticketInfo' | 'endTime';
+
+// Pin properties on the map's events source (see MapGL's eventsToGeoJSON). They come back from
+// untrusted feeds via map features, so popups treat them as plain text
+export interface MapEventProperties {
+  id?: string;
+  title?: string;
+  category?: string;
+  price?: string;
+  time?: string;
+  website?: string | null;
+  venueName?: string;
+  venueId?: string;
+  venueEventCount?: number;
+  isLive?: boolean;
+  isOpenNow?: boolean;
+  isStartingSoon?: boolean;
+  isTonight?: boolean;
+  occurrenceCount?: number;
+  score?: number;
+  ticketUrl?: string | null;
+  ticketPrice?: string | null;
+  ticketInfo?: string | null;
+  maxAttendees?: number | null;
+  currentAttendees?: number | null;
+}
+
+// Planning window as calendar dates (YYYY-MM-DD), both inclusive
+export type DateRange = { start: string; end: string };
+
+export type Bounds = { minLon: number; minLat: number; maxLon: number; maxLat: number };
+
+// Map camera position, as stored in shareable links
+export type MapCamera = { lat: number; lng: number; zoom: number };
+
+// Per-source report from the aggregator (/api/events-lite `sources`, /api/health)
+export type SourceStatus = 'ok' | 'degraded' | 'error' | 'disabled'; // degraded = only part of its events were read
+
+export interface SourceHealth {
+  id: string;
+  name: string;
+  url: string | null; // Attribution link
+  status: SourceStatus;
+  count: number; // Events contributed
+  latencyMs: number | null;
+  attempts: number;
+  error: string | null; // Failure, degraded or disabled reason
+  lastSuccessAt: string | null; // ISO
+}
+
+// Pagination summary for a paginated upstream source (LinkedEvents)
+export interface PaginationInfo {
+  pagesFetched: number;
+  fetched: number; // Raw items read across all pages
+  total: number; // Total reported by the API (meta.count)
+  truncated: boolean; // True if the page cap stopped before meta.next ran out
+}
+
+// Route planning (/api/route-plan)
+export type RouteMode = 'walk' | 'transit';
+
+export interface RouteLeg {
+  mode: string; // OTP mode: "WALK", "BUS", "TRAM", "SUBWAY", "RAIL", "FERRY"
+  departure: string; // ISO
+  arrival: string; // ISO
+  distanceMeters: number;
+  from: string;
+  to: string;
+  route: string | null; // Line number for transit legs, e.g. "9"
+  headsign: string | null;
+  coordinates: [number, number][]; // [lng, lat]
+}
+
+export interface RouteItinerary {
+  departure: string; // ISO
+  arrival: string; // ISO
+  durationMinutes: number;
+  walkMeters: number;
+  legs: RouteLeg[];
+}
+
+export interface RoutePlan {
+  mode: RouteMode;
+  arriveBy: string | null; // ISO deadline (a few minutes before the start), null when leaving now
+  itineraries: RouteItinerary[];
+}
+
+// Helsinki districts (kaupunginosat), public/data/helsinki-districts.geojson
+export interface District {
+  id: string;
+  name: string; // Finnish
+  nameSv: string;
+  geometry: { type: 'Polygon'; coordinates: [number, number][][] } | { type: 'MultiPolygon'; coordinates: [number, number][][][] };
+}
+
+export interface DistrictSummary {
+  id: string;
+  name: string; // In the UI language (Swedish for "sv", Finnish otherwise)
+  count: number; // Upcoming and live events
+}
@@ -1,15 +1,44 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { API_BASE_URL } from "./constants";
 import { useDebounce } from "./hooks/useDebounce";
-import { cacheEvents, getCachedEvents, isCacheFresh } from "./utils/eventCache";
+import { useOnlineStatus } from "./hooks/useOnlineStatus";
+import { syncQueryEvents, deleteEvents, getStoredEvents, pruneExpiredEvents, getLastSync, setLastSync } from "./utils/eventStore";
+import { hasEnded } from "../shared/eventTime";
+import { getDateRangeWindow, overlapsWindow } from "./utils/helsinkiTime";
+import { buildSearchIndex, searchIndex } from "../shared/search";
+import type { HotspotEvent, PaginationInfo, DateRange, SourceHealth } from "./types";
 
 interface EventData {
   updatedAt: string;
   count: number;
-  data: any[];
+  pagination?: { linkedevents?: PaginationInfo } | null;
+  sources?: SourceHealth[];
+  data: HotspotEvent[];
+  delta?: false;
   error?: string;
 }
 
+// Response to a `since` request: only what changed after the client's last updatedAt
+interface EventDelta {
+  updatedAt: string;
+  delta: true;
+  pagination?: { linkedevents?: PaginationInfo } | null;
+  sources?: SourceHealth[];
+  added: HotspotEvent[];
+  changed: HotspotEvent[];
+  removed: string[];
+  ids: string[]; // Every event in the result now, the same set a full response would have
+  error?: string;
+}
+
+// Where the last successful fetch left off, per query
+interface SyncCursor {
+  query: string; // Query string without `since`
+  updatedAt: string;
+  etag: string | null;
+  ids: string[]; // Events in the result as of updatedAt
+}
+
 interface BBox {
   minLon: number;
   minLat: number;
@@ -22,12 +51,18 @@ interface UseEventsOptions {
   category?: string;
   price?: string;
   q?: string;
+  dateRange?: DateRange | null; // Planning window; defaults to upcoming events from today
+  refreshIntervalMs?: number; // Periodic refetch, e.g. to drop past events
 }
 
 interface UseEventsResult {
-  data: any[] | null;
+  data: HotspotEvent[] | null;
+  pagination: PaginationInfo | null; // LinkedEvents truncation, for "showing N of M"
+  sources: SourceHealth[] | null; // Which sources contributed and which are failing
   loading: boolean;
   error: string | null;
+  offline: boolean; // Browser is offline; data comes from the IndexedDB store
+  lastSync: number | null; // Last successful network fetch (ms)
   refetch: () => void;
 }
 
@@ -39,26 +74,102 @@ const HELSINKI_DEFAULT_BBOX: BBox = {
   maxLat: 60.25,
 };
 
+/**
+ * Apply a delta to the current list; unchanged events keep their identity and order.
+ * Events no longer in the result (removed, or ranked out of the top `limit`) are dropped.
+ */
+function mergeDelta(current: HotspotEvent[], delta: EventDelta, now: number = Date.now()): HotspotEvent[] {
+  const byId = new Map(current.map(e => [e.id, e]));
+  delta.removed.forEach(id => byId.delete(id));
+  [...delta.added, ...delta.changed].forEach(e => byId.set(e.id, e));
+  const inResult = new Set(delta.ids);
+  return Array.from(byId.values()).filter(e => inResult.has(e.id) && !hasEnded(e, now));
+}
+
+/**
+ * events-lite query for the options, without `since`; also the key of its result in the offline store
+ */
+function buildQueryParams(options: UseEventsOptions, bbox: BBox): URLSearchParams {
+  const params = new URLSearchParams();
+  params.set("limit", "400");
+  params.set("bbox", `${bbox.minLon},${bbox.minLat},${bbox.maxLon},${bbox.maxLat}`);
+  if (options.category) params.set("category", options.category);
+  if (options.price) params.set("price", options.price);
+  if (options.q) params.set("q", options.q);
+  if (options.dateRange) {
+    params.set("start", options.dateRange.start);
+    params.set("end", options.dateRange.end);
+  }
+  return params;
+}
+
+/**
+ * Stored events for the query: its last synced result, or if it never synced (e.g. a new search offline)
+ * everything stored that matches the current filters
+ */
+async function loadStoredEvents(query: string, options: UseEventsOptions, bbox: BBox): Promise<HotspotEvent[]> {
+  const synced = await getStoredEvents(query);
+  if (synced.length > 0) return synced;
+
+  let stored = (await getStoredEvents()).filter(
+    e => e.lng >= bbox.minLon && e.lng <= bbox.maxLon && e.lat >= bbox.minLat && e.lat <= bbox.maxLat
+  );
+  if (options.dateRange) {
+    const window = getDateRangeWindow(options.dateRange);
+    stored = stored.filter(e => overlapsWindow(e, window));
+  }
+  if (options.category) stored = stored.filter(e => e.category === options.category);
+  if (options.price) stored = stored.filter(e => e.priceType === options.price);
+  if (options.q) {
+    const hits = new Set(searchIndex(buildSearchIndex(stored), options.q).map(hit => hit.id));
+    stored = stored.filter(e => hits.has(e.id));
+  }
+  return stored;
+}
+
 export function useEvents(options: UseEventsOptions = {}): UseEventsResult {
-  const [data, setData] = useState<any[] | null>(null);
+  const [data, setData] = useState<HotspotEvent[] | null>(null);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [sources, setSources] = useState<SourceHealth[] | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [lastSync, setLastSyncState] = useState<number | null>(null);
+  const online = useOnlineStatus();
+  const syncRef = useRef<SyncCursor | null>(null);
 
   // Debounce bbox changes to avoid too many requests while panning
   const debouncedBBox = useDebounce(options.bbox, 500);
 
-  // Load cached events on mount
+  // Show stored events right away on mount, unless the network beat us to it
   useEffect(() => {
-    const cached = getCachedEvents();
-    if (cached && cached.length > 0) {
-      setData(cached);
+    let cancelled = false;
+    getLastSync().then(at => {
+      if (!cancelled) setLastSyncState(at);
+    });
+    const bbox = options.bbox || HELSINKI_DEFAULT_BBOX;
+    loadStoredEvents(buildQueryParams(options, bbox).toString(), options, bbox).then(stored => {
+      if (cancelled || stored.length === 0) return;
+      setData(prev => prev ?? stored);
       setLoading(false);
-    }
+    });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   useEffect(() => {
+    const recordSync = async () => {
+      const syncedAt = Date.now();
+      await setLastSync(syncedAt);
+      setLastSyncState(syncedAt);
+    };
+
     const fetchEvents = async () => {
+      let syncing = false;
+      const bbox = debouncedBBox || HELSINKI_DEFAULT_BBOX;
+      const params = buildQueryParams(options, bbox);
+      const query = params.toString();
       try {
         // Only show loading spinner if we don't have cached data
         if (!data || data.length === 0) {
@@ -66,53 +177,90 @@ export function useEvents(options: UseEventsOptions = {}): UseEventsResult {
         }
         setError(null);
 
-        // Build query params
-        const params = new URLSearchParams();
-        params.set("limit", "400");
-
-        // Add bbox if provided, otherwise use Helsinki default
-        const bbox = debouncedBBox || HELSINKI_DEFAULT_BBOX;
-        const bboxStr = `${bbox.minLon},${bbox.minLat},${bbox.maxLon},${bbox.maxLat}`;
-        params.set("bbox", bboxStr);
-
-        // Add optional filters
-        if (options.category) params.set("category", options.category);
-        if (options.price) params.set("price", options.price);
-        if (options.q) params.set("q", options.q);
+        // Same query as the last successful sync: ask only for what changed since then
+        const cursor = syncRef.current?.query === query ? syncRef.current : null;
+        syncing = cursor !== null;
+        const headers: Record<string, string> = {};
+        if (cursor) {
+          params.set("since", cursor.updatedAt);
+          if (cursor.etag) headers["If-None-Match"] = cursor.etag;
+        }
 
         const url = `${API_BASE_URL}?${params.toString()}`;
-        const res = await fetch(url);
+        const res = await fetch(url, { headers });
+        
+        // Nothing changed: keep the current array so the map doesn't redraw
+        if (res.status === 304 && cursor) {
+          await recordSync();
+          return;
+        }
         
         if (!res.ok) {
           throw new Error("HTTP " + res.status);
         }
         
-        const json: EventData = await res.json();
+        const json: EventData | EventDelta = await res.json();
         
         // Check if there's an error in the response
         if (json.error) {
           throw new Error(json.error);
         }
         
-        // Extract the data array from the response
-        const events = json.data || [];
-        setData(events);
+        // Unchanged events that moved up into the top `limit` aren't in a delta: start over with a full response
+        if (json.delta && cursor) {
+          const known = new Set([...cursor.ids, ...json.added.map(e => e.id), ...json.changed.map(e => e.id)]);
+          if (json.ids.some(id => !known.has(id))) {
+            syncRef.current = null;
+            setRefreshTrigger(prev => prev + 1);
+            return;
+          }
+        }
+
+        syncRef.current = {
+          query,
+          updatedAt: json.updatedAt,
+          etag: res.headers.get("ETag"),
+          ids: json.delta ? json.ids : (json.data || []).map(e => e.id),
+        };
+        setPagination(json.pagination?.linkedevents ?? null);
+        setSources(json.sources ?? null);
         
-        // Cache the successful response
-        if (events.length > 0) {
-          cacheEvents(events);
+        if (json.delta) {
+          const upserts = [...json.added, ...json.changed];
+          const inResult = new Set(json.ids);
+          if (upserts.length > 0 || json.removed.length > 0 || cursor?.ids.some(id => !inResult.has(id))) {
+            setData(prev => mergeDelta(prev ?? [], json));
+            await deleteEvents(json.removed);
+            await syncQueryEvents(query, json.ids, upserts);
+          }
+        } else {
+          // Full response: replace everything, in the offline store too
+          const events = json.data || [];
+          setData(events);
+          await syncQueryEvents(query, events.map(e => e.id), events);
         }
+        
+        // Drop anything from the offline store that has ended since
+        await recordSync();
+        pruneExpiredEvents();
       } catch (err) {
         const errorMsg = err instanceof Error ? err.message : "Failed to fetch events";
-        setError(errorMsg);
-        
-        // Try to use cached data if fetch fails
-        const cached = getCachedEvents();
-        if (cached && cached.length > 0) {
-          setData(cached);
-          setError(errorMsg + " (showing cached data)");
+
+        // Keep what we already have from the network for this query
+        if (syncing) {
+          setError(navigator.onLine ? errorMsg + " (showing saved events)" : null);
+          return;
+        }
+        syncRef.current = null;
+
+        // Fall back to stored events; being offline is expected, not an error
+        const stored = await loadStoredEvents(query, options, bbox);
+        if (stored.length > 0) {
+          setData(stored);
+          setError(navigator.onLine ? errorMsg + " (showing saved events)" : null);
         } else {
           setData(null);
+          setError(errorMsg);
         }
       } finally {
         setLoading(false);
@@ -120,9 +268,23 @@ export function useEvents(options: UseEventsOptions = {}): UseEventsResult {
     };
 
     fetchEvents();
-  }, [debouncedBBox, options.category, options.price, options.q, refreshTrigger]);
+  }, [debouncedBBox, options.category, options.price, options.q, options.dateRange?.start, options.dateRange?.end, refreshTrigger]);
+
+  // Periodic refresh
+  useEffect(() => {
+    if (!options.refreshIntervalMs) return;
+    const id = setInterval(() => setRefreshTrigger(prev => prev + 1), options.refreshIntervalMs);
+    return () => clearInterval(id);
+  }, [options.refreshIntervalMs]);
+
+  // Catch up as soon as the connection comes back
+  const wasOnline = useRef(online);
+  useEffect(() => {
+    if (online && !wasOnline.current) setRefreshTrigger(prev => prev + 1);
+    wasOnline.current = online;
+  }, [online]);
 
   const refetch = () => setRefreshTrigger(prev => prev + 1);
 
-  return { data, loading, error, refetch };
+  return { data, pagination, sources, loading, error, offline: !online, lastSync, refetch };
 }
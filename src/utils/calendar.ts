@@ -0,0 +1,105 @@
+/**
+ * Calendar export: .ics downloads, Google/Outlook "add event" links and subscribable feed URLs
+ */
+
+import { getEventInterval } from "../../shared/eventTime";
+import { buildIcs, toUtcStamp, CalendarEvent } from "../../shared/ics";
+import { HELSINKI_TZ } from "./helsinkiTime";
+import { API_BASE_URL } from "../constants";
+import type { Bounds, EventCategory } from "../types";
+
+function eventTimes(event: CalendarEvent): { start: number; end: number } | null {
+  const interval = getEventInterval(event);
+  return interval ? { start: interval.start, end: interval.end } : null;
+}
+
+/**
+ * Trigger a browser download of an .ics file
+ */
+export function downloadIcs(events: CalendarEvent[], filename: string, calendarName?: string): void {
+  const blob = new Blob([buildIcs(events, { calendarName })], { type: "text/calendar;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.endsWith(".ics") ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Safe file name from an event title ("Jazz at Kaisa!" -> "jazz-at-kaisa")
+ */
+export function icsFileName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // Drop accents: ä -> a
+    .replace(/[^\w]+/g, "-")
+    .slice(0, 60)
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "event"}.ics`;
+}
+
+/**
+ * Google Calendar "create event" link
+ */
+export function googleCalendarUrl(event: CalendarEvent): string | null {
+  const times = eventTimes(event);
+  if (!times) return null;
+
+  const params = new URLSearchParams({
+    action: "TEMPLATE",
+    text: event.title,
+    dates: `${toUtcStamp(times.start)}/${toUtcStamp(times.end)}`,
+    details: [event.description, event.url].filter(Boolean).join("\n\n"),
+    location: [event.venueName, event.city].filter(Boolean).join(", "),
+    ctz: HELSINKI_TZ,
+  });
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+}
+
+/**
+ * Outlook.com calendar compose link
+ */
+export function outlookCalendarUrl(event: CalendarEvent): string | null {
+  const times = eventTimes(event);
+  if (!times) return null;
+
+  const params = new URLSearchParams({
+    path: "/calendar/action/compose",
+    rru: "addevent",
+    subject: event.title,
+    startdt: new Date(times.start).toISOString(),
+    enddt: new Date(times.end).toISOString(),
+    body: [event.description, event.url].filter(Boolean).join("\n\n"),
+    location: [event.venueName, event.city].filter(Boolean).join(", "),
+  });
+  return `https://outlook.live.com/calendar/0/deeplink/compose?${params.toString()}`;
+}
+
+// Categories the feed endpoint accepts (interest ids like "culture" or "festival" are skipped)
+const FEED_CATEGORIES: EventCategory[] = ["music", "food", "sports", "family", "arts", "tech", "nightlife", "other"];
+
+export interface CalendarFeedFilters {
+  categories: string[];
+  freeOnly: boolean;
+  q: string;
+  bbox: Bounds | null;
+}
+
+/**
+ * webcal:// URL of the live /api/events-ics feed for a filter set, for calendar app subscriptions
+ */
+export function calendarFeedUrl({ categories, freeOnly, q, bbox }: CalendarFeedFilters): string {
+  const url = new URL(API_BASE_URL.replace(/events-lite$/, "events-ics"));
+  const feedCategories = categories.filter(c => FEED_CATEGORIES.includes(c as EventCategory));
+  if (feedCategories.length) url.searchParams.set("category", feedCategories.join(","));
+  if (freeOnly) url.searchParams.set("freeOnly", "true");
+  if (q.trim()) url.searchParams.set("q", q.trim());
+  if (bbox) {
+    url.searchParams.set("bbox", [bbox.minLon, bbox.minLat, bbox.maxLon, bbox.maxLat].map(n => n.toFixed(4)).join(","));
+  }
+  return url.toString().replace(/^https?:/, "webcal:");
+}
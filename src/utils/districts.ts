@@ -0,0 +1,123 @@
+/**
+ * Helsinki districts (kaupunginosat): loading the bundled boundaries, assigning events to
+ * districts by point-in-polygon, and per-district counts for the choropleth
+ */
+
+import type { FeatureCollection, MultiPolygon, Polygon } from "geojson";
+import { hasEnded } from "../../shared/eventTime";
+import type { District, DistrictSummary, HotspotEvent, Language } from "../types";
+
+// Generated by scripts/fetch-districts.mjs
+export const DISTRICTS_URL = "/data/helsinki-districts.geojson";
+
+// Properties written by the fetch script
+type DistrictCollection = FeatureCollection<Polygon | MultiPolygon, { id: string | number; name: string; nameSv?: string }>;
+
+type Ring = [number, number][];
+type BBox = [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+
+/**
+ * Load the district boundaries; null when the file is missing, which hides the district features.
+ * A missing file usually comes back as index.html with a 200 (SPA fallback), so check it is JSON.
+ */
+export async function fetchDistricts(signal?: AbortSignal): Promise<District[] | null> {
+  const res = await fetch(DISTRICTS_URL, { signal });
+  const type = res.headers.get("content-type") ?? "";
+  if (!res.ok || !/json/i.test(type)) return null;
+  let data: DistrictCollection;
+  try {
+    data = await res.json();
+  } catch {
+    return null;
+  }
+  return (data.features ?? []).map(f => ({
+    id: String(f.properties.id),
+    name: f.properties.name,
+    nameSv: f.properties.nameSv ?? f.properties.name,
+    geometry: f.geometry as District["geometry"],
+  }));
+}
+
+/**
+ * District name in the UI language (districts are named in Finnish and Swedish only)
+ */
+export function getDistrictName(district: District, language: Language): string {
+  return language === "sv" ? district.nameSv : district.name;
+}
+
+function polygonsOf(district: District): Ring[][] {
+  return district.geometry.type === "Polygon" ? [district.geometry.coordinates] : district.geometry.coordinates;
+}
+
+function bboxOf(district: District): BBox {
+  const box: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const polygon of polygonsOf(district)) {
+    for (const [lng, lat] of polygon[0]) {
+      box[0] = Math.min(box[0], lng);
+      box[1] = Math.min(box[1], lat);
+      box[2] = Math.max(box[2], lng);
+      box[3] = Math.max(box[3], lat);
+    }
+  }
+  return box;
+}
+
+// Ray casting: count crossings of a ray going east from the point
+function inRing(lng: number, lat: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * True if the point is inside the district (outer ring, outside any holes)
+ */
+export function districtContains(district: District, lng: number, lat: number): boolean {
+  return polygonsOf(district).some(
+    ([outer, ...holes]) => inRing(lng, lat, outer) && !holes.some(hole => inRing(lng, lat, hole))
+  );
+}
+
+/**
+ * District id for each event inside one (event id -> district id); events outside Helsinki are left out
+ */
+export function assignDistricts(events: HotspotEvent[], districts: District[]): Map<string, string> {
+  const boxes = districts.map(bboxOf);
+  const assignments = new Map<string, string>();
+  for (const event of events) {
+    if (event.lat === null || event.lng === null) continue;
+    const index = districts.findIndex((district, i) => {
+      const [minLng, minLat, maxLng, maxLat] = boxes[i];
+      if (event.lng < minLng || event.lng > maxLng || event.lat < minLat || event.lat > maxLat) return false;
+      return districtContains(district, event.lng, event.lat);
+    });
+    if (index !== -1) assignments.set(event.id, districts[index].id);
+  }
+  return assignments;
+}
+
+/**
+ * Upcoming and live events per district, every district included, in name order
+ */
+export function summarizeDistricts(
+  districts: District[],
+  events: HotspotEvent[],
+  assignments: Map<string, string>,
+  language: Language,
+  now = Date.now()
+): DistrictSummary[] {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    const districtId = assignments.get(event.id);
+    if (districtId && !hasEnded(event, now)) counts.set(districtId, (counts.get(districtId) ?? 0) + 1);
+  }
+  return districts
+    .map(district => ({ id: district.id, name: getDistrictName(district, language), count: counts.get(district.id) ?? 0 }))
+    .sort((a, b) => a.name.localeCompare(b.name, language));
+}
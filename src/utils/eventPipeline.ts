@@ -0,0 +1,256 @@
+/**
+ * Event filter/score pipeline behind the sidebar and map. Pure and DOM-free so it can run in
+ * src/eventPipeline.worker.ts; anything read from localStorage is passed in through the options.
+ */
+
+import { getEventStatus, isLiveNow } from "../../shared/eventTime";
+import { getDateRangeWindow, getTonightWindow, getWeekendWindow, overlapsWindow } from "./helsinkiTime";
+import type { Bounds, DateRange, HotspotEvent } from "../types";
+import type { QuickFilter } from "../../components/FilterBar";
+
+export const FILTER_OPTIONS = [
+  { id: "music", label: "🎵 Music", keywords: ["music", "concert", "band", "dj", "jazz", "rock", "pop", "classical"] },
+  { id: "nightlife", label: "🍻 Nightlife", keywords: ["club", "bar", "nightlife", "party", "pub"] },
+  { id: "food", label: "🍔 Food & Drink", keywords: ["food", "restaurant", "cafe", "dining", "brunch", "dinner"] },
+  { id: "arts", label: "🎨 Arts & Culture", keywords: ["art", "museum", "gallery", "exhibition", "culture", "theater", "theatre"] },
+  { id: "sports", label: "⚽ Sports & Outdoors", keywords: ["sport", "fitness", "outdoor", "hiking", "running", "yoga"] },
+  { id: "family", label: "👨‍👩‍👧 Family", keywords: ["family", "kids", "children", "workshop"] },
+];
+
+// OPTIMIZATION: Pre-compute filter lookup map for O(1) access
+const FILTER_MAP = new Map(FILTER_OPTIONS.map(opt => [opt.id, opt]));
+
+export interface EventPipelineOptions {
+  now: number;
+  dateRange: DateRange | null;
+  timelineTime: number | null;
+  quickFilters: QuickFilter[];
+  userLocation: { lat: number; lng: number } | null;
+  maxDistance: number; // km, 100 = no limit
+  districtEventIds: string[] | null; // Events in the picked district; null when not filtering by district
+  searchScores: Record<string, number> | null; // Search relevance by event id; null when not searching
+  price: "" | "free" | "paid";
+  category: string;
+  activeFilters: string[];
+  bounds: Bounds | null;
+  onlyLive: boolean;
+  categoryScores: Record<string, number>; // Personalization boost by category (see getCategoryPreferenceScore)
+}
+
+// Calculate distance between two points using Haversine formula (in km)
+export function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371; // Earth's radius in km
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+// Score events based on: LIVE status, distance, popularity, and category match
+export function scoreEvent(
+  event: HotspotEvent,
+  userLoc: { lat: number; lng: number } | null,
+  activeFilters: Set<string>,
+  currentTime: number,
+  categoryScores: Record<string, number>
+): number {
+  let score = 0;
+
+  // 1. LIVE STATUS (highest priority) - +1000 points
+  if (isLiveNow(event, currentTime)) {
+    score += 1000;
+  }
+
+  // 2. DISTANCE - Up to +500 points (closer is better)
+  if (userLoc && event.lat !== null && event.lng !== null) {
+    const distance = calculateDistance(userLoc.lat, userLoc.lng, event.lat, event.lng);
+    // Events within 1km get max points, scaling down to 0 at 10km+
+    const distanceScore = Math.max(0, 500 - (distance * 50));
+    score += distanceScore;
+  }
+
+  // 3. PERSONALIZATION - Up to +500 points for liked categories
+  score += categoryScores[event.category] ?? 0;
+
+  // 4. CATEGORY MATCH - +200 points per matching filter (OPTIMIZED: use Map lookup)
+  if (activeFilters.size > 0) {
+    const searchText = `${event.category} ${event.title}`.toLowerCase();
+    const matchCount = Array.from(activeFilters).filter(filterId => {
+      const filterOption = FILTER_MAP.get(filterId);
+      if (!filterOption) return false;
+      return filterOption.keywords.some(keyword =>
+        searchText.includes(keyword.toLowerCase())
+      );
+    }).length;
+    score += matchCount * 200;
+  }
+
+  // 5. TIME UNTIL START - Slight bonus for events starting soon
+  if (event.startTime) {
+    const startTime = Date.parse(event.startTime);
+    const hoursUntilStart = (startTime - currentTime) / (1000 * 60 * 60);
+    if (hoursUntilStart > 0 && hoursUntilStart <= 3) {
+      // Events starting in the next 3 hours get a small boost
+      score += (3 - hoursUntilStart) * 50;
+    }
+  }
+
+  return score;
+}
+
+/**
+ * Filter events by query, price, category, bounds, radial filters, and LIVE status,
+ * then score and sort by relevance. Returns the ids of the matching events in display order.
+ */
+export function filterAndScoreEvents(events: HotspotEvent[], options: EventPipelineOptions): string[] {
+  const { now: currentTime, userLocation, maxDistance, searchScores, price, category, bounds, onlyLive, categoryScores } = options;
+  const activeQuickFilters = new Set(options.quickFilters);
+  const activeFilters = new Set(options.activeFilters);
+  let filtered = events;
+
+  // Filter out events that ended more than 24 hours ago
+  const twentyFourHoursAgo = currentTime - (24 * 60 * 60 * 1000);
+  filtered = filtered.filter(e => {
+    if (!e.endTime) return true; // Keep events without end time
+    const endTime = Date.parse(e.endTime);
+    return endTime > twentyFourHoursAgo;
+  });
+
+  // Keep only events overlapping the planning window
+  if (options.dateRange) {
+    const window = getDateRangeWindow(options.dateRange);
+    filtered = filtered.filter(e => overlapsWindow(e, window));
+  }
+
+  // Timeline scrubber: show what is on at the selected moment, exhibitions included
+  const { timelineTime } = options;
+  if (timelineTime !== null) {
+    filtered = filtered.filter(e => {
+      const status = getEventStatus(e, timelineTime);
+      return status === "live" || status === "ongoing";
+    });
+  }
+
+  // Apply Quick Filters
+  if (activeQuickFilters.has("now")) {
+    filtered = filtered.filter(e => isLiveNow(e, currentTime));
+  }
+
+  // Tonight and weekend are Helsinki-local, whatever the browser's timezone
+  if (activeQuickFilters.has("tonight")) {
+    const tonight = getTonightWindow(currentTime);
+    filtered = filtered.filter(e => overlapsWindow(e, tonight));
+  }
+
+  if (activeQuickFilters.has("weekend")) {
+    const weekend = getWeekendWindow(currentTime);
+    filtered = filtered.filter(e => overlapsWindow(e, weekend));
+  }
+
+  if (activeQuickFilters.has("free")) {
+    filtered = filtered.filter(e => e.priceType === "free");
+  }
+
+  if (activeQuickFilters.has("popular")) {
+    // Filter by events with high scores (top 30%)
+    const scoredEvents = filtered.map(event => ({
+      event,
+      score: scoreEvent(event, userLocation, activeFilters, currentTime, categoryScores)
+    }));
+    scoredEvents.sort((a, b) => b.score - a.score);
+    const topThreshold = Math.ceil(scoredEvents.length * 0.3);
+    filtered = scoredEvents.slice(0, topThreshold).map(({ event }) => event);
+  }
+
+  // Filter by distance if user location is available
+  if (userLocation && maxDistance < 100) {
+    filtered = filtered.filter(e => {
+      if (e.lat === null || e.lng === null) return false;
+      const distance = calculateDistance(userLocation.lat, userLocation.lng, e.lat, e.lng);
+      return distance <= maxDistance;
+    });
+  }
+
+  // Filter by district (assigned once per event load, see useDistricts)
+  if (options.districtEventIds) {
+    const inDistrict = new Set(options.districtEventIds);
+    filtered = filtered.filter(e => inDistrict.has(e.id));
+  }
+
+  // Filter by search query
+  if (searchScores) {
+    filtered = filtered.filter(e => e.id in searchScores);
+  }
+
+  // Filter by price
+  if (price) {
+    filtered = filtered.filter(e => e.priceType === price);
+  }
+
+  // Filter by category
+  if (category) {
+    filtered = filtered.filter(e =>
+      e.category.toLowerCase().includes(category.toLowerCase())
+    );
+  }
+
+  // Filter by radial menu filters
+  if (activeFilters.size > 0) {
+    filtered = filtered.filter(e => {
+      // Check if event matches any active filter
+      return Array.from(activeFilters).some(filterId => {
+        const filterOption = FILTER_MAP.get(filterId);
+        if (!filterOption) return false;
+
+        // Special handling for "free" filter
+        if (filterId === "free") {
+          return e.priceType === "free";
+        }
+
+        // Check if any keyword matches the event's category or title
+        const searchText = `${e.category} ${e.title}`.toLowerCase();
+        return filterOption.keywords.some(keyword =>
+          searchText.includes(keyword.toLowerCase())
+        );
+      });
+    });
+  }
+
+  // Filter by bounds
+  if (bounds) {
+    const { minLon, minLat, maxLon, maxLat } = bounds;
+    filtered = filtered.filter(e =>
+      e.lng >= minLon && e.lng <= maxLon &&
+      e.lat >= minLat && e.lat <= maxLat
+    );
+  }
+
+  // Filter by LIVE status if toggle is on
+  if (onlyLive) {
+    filtered = filtered.filter(e => isLiveNow(e, currentTime));
+  }
+
+  // Score and sort events by relevance (skip if "popular" filter already sorted)
+  if (!activeQuickFilters.has("popular")) {
+    const scoredEvents = filtered.map(event => ({
+      event,
+      score: scoreEvent(event, userLocation, activeFilters, currentTime, categoryScores)
+    }));
+
+    // Sort by score (highest first)
+    scoredEvents.sort((a, b) => b.score - a.score);
+
+    filtered = scoredEvents.map(({ event }) => event);
+  }
+
+  // Searching: best matches first (the sort is stable, so ties keep the relevance order)
+  if (searchScores) {
+    filtered = [...filtered].sort((a, b) => searchScores[b.id] - searchScores[a.id]);
+  }
+
+  return filtered.map(e => e.id);
+}
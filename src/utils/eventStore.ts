@@ -0,0 +1,301 @@
+/**
+ * Offline event store in IndexedDB.
+ * Events are upserted one by one (keyed by id) and expire once they have ended,
+ * so the store never grows past what's still relevant and reads don't block on a big JSON blob.
+ * Each event remembers which queries' results it is in, so a sync replaces that query's set
+ * and the offline fallback can show what the current query last returned.
+ * Liked events are also kept apart, whatever query they came from, for the Saved export.
+ */
+
+import type { HotspotEvent } from '../types';
+import { getEventInterval } from '../../shared/eventTime';
+
+const DB_NAME = 'helsinki-hotspots';
+const DB_VERSION = 3; // 2: events tagged with their queries, 3: saved events
+const EVENTS_STORE = 'events';
+const META_STORE = 'meta';
+const SAVED_STORE = 'saved';
+const EXPIRES_INDEX = 'expiresAt';
+
+// Old localStorage blobs this store replaces
+const LEGACY_KEYS = ['helsinki-hotspots-events', 'helsinki-hotspots-events-timestamp', 'helsinki_events_cache'];
+
+interface StoredEvent {
+  id: string;
+  event: HotspotEvent;
+  expiresAt: number; // Event end (or assumed end), ms
+  queries: string[]; // Queries (events-lite params without `since`) whose last synced result has this event
+}
+
+interface SavedEvent {
+  id: string;
+  event: HotspotEvent;
+}
+
+interface MetaRecord {
+  key: string;
+  value: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (e) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+        const store = db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+        store.createIndex(EXPIRES_INDEX, 'expiresAt');
+      } else if (e.oldVersion < 2) {
+        // Untagged events from version 1 can't be told apart by query; the next sync refills the store
+        request.transaction?.objectStore(EVENTS_STORE).clear();
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(SAVED_STORE)) {
+        db.createObjectStore(SAVED_STORE, { keyPath: 'id' });
+      }
+      removeLegacyCaches();
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry on the next call if opening failed (e.g. private mode)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function removeLegacyCaches(): void {
+  try {
+    LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+  } catch (error) {
+    console.warn('Failed to remove legacy event caches:', error);
+  }
+}
+
+// Resolve when a transaction commits
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Make `ids` the stored result of `query`: events that left it lose the tag (and go once no query has them),
+ * `events` are inserted or updated and tagged. For a full response `events` is the whole result;
+ * for a delta it is what was added or changed. Saved copies of `events` are updated too.
+ */
+export async function syncQueryEvents(query: string, ids: string[], events: HotspotEvent[]): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([EVENTS_STORE, SAVED_STORE], 'readwrite');
+    const store = tx.objectStore(EVENTS_STORE);
+    const saved = tx.objectStore(SAVED_STORE);
+    const inResult = new Set(ids);
+    const upserts = new Map(events.map(e => [e.id, e]));
+    const savedKeys = saved.getAllKeys();
+    savedKeys.onsuccess = () => {
+      for (const id of savedKeys.result) {
+        const event = upserts.get(String(id));
+        if (!event) continue;
+        const record: SavedEvent = { id: event.id, event };
+        saved.put(record);
+      }
+    };
+    const request = store.getAll() as IDBRequest<StoredEvent[]>;
+    request.onsuccess = () => {
+      const existing = new Map(request.result.map(record => [record.id, record]));
+
+      for (const record of existing.values()) {
+        if (inResult.has(record.id) || !record.queries.includes(query)) continue;
+        const queries = record.queries.filter(q => q !== query);
+        if (queries.length === 0) store.delete(record.id);
+        else store.put({ ...record, queries });
+      }
+
+      for (const id of inResult) {
+        const record = existing.get(id);
+        const event = upserts.get(id) ?? record?.event;
+        const interval = event && getEventInterval(event);
+        if (!event || !interval) continue;
+        const tagged = record?.queries.includes(query) ?? false;
+        if (tagged && !upserts.has(id)) continue; // Unchanged and already in this query's set
+        const queries = tagged ? record!.queries : [...(record?.queries ?? []), query];
+        const updated: StoredEvent = { id, event, expiresAt: interval.end, queries };
+        store.put(updated);
+      }
+    };
+    await done(tx);
+  } catch (error) {
+    console.warn('Failed to store events:', error);
+  }
+}
+
+/**
+ * Remove events by id (e.g. cancelled or dropped upstream)
+ */
+export async function deleteEvents(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  try {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    const store = tx.objectStore(EVENTS_STORE);
+    ids.forEach(id => store.delete(id));
+    await done(tx);
+  } catch (error) {
+    console.warn('Failed to delete stored events:', error);
+  }
+}
+
+/**
+ * Stored events that haven't ended yet: the last synced result of `query`, or all of them without one
+ */
+export async function getStoredEvents(query?: string, now: number = Date.now()): Promise<HotspotEvent[]> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    const index = tx.objectStore(EVENTS_STORE).index(EXPIRES_INDEX);
+    const records = await requestResult(index.getAll(IDBKeyRange.lowerBound(now, true)) as IDBRequest<StoredEvent[]>);
+    return records.filter(record => query === undefined || record.queries.includes(query)).map(record => record.event);
+  } catch (error) {
+    console.warn('Failed to read stored events:', error);
+    return [];
+  }
+}
+
+/**
+ * Keep a copy of a liked event for the Saved export, independent of any query
+ */
+export async function saveEvent(event: HotspotEvent): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(SAVED_STORE, 'readwrite');
+    const record: SavedEvent = { id: event.id, event };
+    tx.objectStore(SAVED_STORE).put(record);
+    await done(tx);
+  } catch (error) {
+    console.warn('Failed to save event:', error);
+  }
+}
+
+/**
+ * Drop the copy of an unliked event
+ */
+export async function unsaveEvent(id: string): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(SAVED_STORE, 'readwrite');
+    tx.objectStore(SAVED_STORE).delete(id);
+    await done(tx);
+  } catch (error) {
+    console.warn('Failed to unsave event:', error);
+  }
+}
+
+/**
+ * Saved copies of the given events, falling back to the query cache; ids found in neither are left out
+ */
+export async function getSavedEvents(ids: string[]): Promise<HotspotEvent[]> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([SAVED_STORE, EVENTS_STORE], 'readonly');
+    const found = await Promise.all(ids.map(id => Promise.all([
+      requestResult(tx.objectStore(SAVED_STORE).get(id) as IDBRequest<SavedEvent | undefined>),
+      requestResult(tx.objectStore(EVENTS_STORE).get(id) as IDBRequest<StoredEvent | undefined>),
+    ]).then(([saved, stored]) => saved?.event ?? stored?.event ?? null)));
+    return found.filter((event): event is HotspotEvent => event !== null);
+  } catch (error) {
+    console.warn('Failed to read saved events:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete events that have ended; returns how many were removed
+ */
+export async function pruneExpiredEvents(now: number = Date.now()): Promise<number> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    const index = tx.objectStore(EVENTS_STORE).index(EXPIRES_INDEX);
+    let removed = 0;
+    const request = index.openKeyCursor(IDBKeyRange.upperBound(now));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      tx.objectStore(EVENTS_STORE).delete(cursor.primaryKey);
+      removed++;
+      cursor.continue();
+    };
+    await done(tx);
+    return removed;
+  } catch (error) {
+    console.warn('Failed to prune expired events:', error);
+    return 0;
+  }
+}
+
+/**
+ * When events were last synced from the network (ms), or null if never
+ */
+export async function getLastSync(): Promise<number | null> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(META_STORE, 'readonly');
+    const record = await requestResult(tx.objectStore(META_STORE).get('lastSync') as IDBRequest<MetaRecord | undefined>);
+    return record?.value ?? null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Record a successful network sync
+ */
+export async function setLastSync(at: number = Date.now()): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(META_STORE, 'readwrite');
+    const record: MetaRecord = { key: 'lastSync', value: at };
+    tx.objectStore(META_STORE).put(record);
+    await done(tx);
+  } catch (error) {
+    console.warn('Failed to record sync time:', error);
+  }
+}
+
+/**
+ * Remove all stored events and sync metadata
+ */
+export async function clearEventStore(): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([EVENTS_STORE, META_STORE], 'readwrite');
+    tx.objectStore(EVENTS_STORE).clear();
+    tx.objectStore(META_STORE).clear();
+    await done(tx);
+  } catch (error) {
+    console.warn('Failed to clear event store:', error);
+  }
+}
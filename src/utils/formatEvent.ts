@@ -0,0 +1,76 @@
+import type { HotspotEvent, Language } from "../types";
+import { getLocale } from "./i18n";
+import { isMultiDay } from "../../shared/eventTime";
+
+const TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  timeZone: "Europe/Helsinki",
+  hour: "2-digit",
+  minute: "2-digit",
+};
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  timeZone: "Europe/Helsinki",
+  day: "numeric",
+  month: "numeric",
+};
+
+// Locale-independent HH:MM in Helsinki time, used for all-day detection
+const HELSINKI_HM = new Intl.DateTimeFormat("en-GB", { ...TIME_FORMAT, hourCycle: "h23" });
+
+function isAllDay(start: Date, end: Date): boolean {
+  const startHM = HELSINKI_HM.format(start);
+  return (startHM === "00:00" || startHM === "00:01") && HELSINKI_HM.format(end) === "23:59";
+}
+
+/**
+ * Format an event's start/end as a Helsinki-local time range ("18:00 - 21:00").
+ * Returns "All day" for events that span the whole day, and the daily opening
+ * window for multi-day events such as exhibitions ("Open today 10:00–18:00").
+ */
+export function formatEventTime(
+  event: Pick<HotspotEvent, "startTime" | "endTime">,
+  language: Language = "fi",
+  now: number = Date.now()
+): string {
+  const start = new Date(event.startTime);
+  if (isNaN(start.getTime())) return "";
+
+  const locale = getLocale(language);
+  const startStr = start.toLocaleTimeString(locale, TIME_FORMAT);
+  if (!event.endTime) return startStr;
+
+  const end = new Date(event.endTime);
+  if (isNaN(end.getTime())) return startStr;
+
+  if (isMultiDay(event)) {
+    return formatOpeningWindow(start, end, locale, now);
+  }
+
+  // Default all-day format (00:00-23:59 or similar) - don't show time
+  if (isAllDay(start, end)) {
+    return "All day";
+  }
+
+  return `${startStr} - ${end.toLocaleTimeString(locale, TIME_FORMAT)}`;
+}
+
+/**
+ * Multi-day events carry their daily hours in the first day's start and the last day's end
+ * (LinkedEvents exhibitions: 1.10. 10:00 → 1.11. 18:00 means open 10–18 every day)
+ */
+function formatOpeningWindow(start: Date, end: Date, locale: string, now: number): string {
+  const startHM = HELSINKI_HM.format(start);
+  const endHM = HELSINKI_HM.format(end);
+  const hours = !isAllDay(start, end) && startHM < endHM
+    ? `${start.toLocaleTimeString(locale, TIME_FORMAT)}–${end.toLocaleTimeString(locale, TIME_FORMAT)}`
+    : null;
+
+  if (now < start.getTime()) {
+    const from = `From ${start.toLocaleDateString(locale, DATE_FORMAT)}`;
+    return hours ? `${from}, ${hours}` : from;
+  }
+  if (now >= end.getTime()) {
+    return `Until ${end.toLocaleDateString(locale, DATE_FORMAT)}`;
+  }
+  return hours ? `Open today ${hours}` : `Open until ${end.toLocaleDateString(locale, DATE_FORMAT)}`;
+}
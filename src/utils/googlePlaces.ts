@@ -54,16 +54,19 @@ export interface NearbyPlace {
 }
 
 /**
- * Search for a place by name and coordinates, then get its details
+ * Search for a place by name and coordinates, then get its details.
+ * With a venue id the server remembers the match, so later aggregations carry the place id.
  */
 export async function searchPlace(
   name: string,
   lat: number,
-  lng: number
+  lng: number,
+  venueId?: string
 ): Promise<PlaceDetails | null> {
   try {
     // First, search for the place to get its place_id
-    const searchUrl = `${API_BASE}?action=search&query=${encodeURIComponent(name)}&lat=${lat}&lng=${lng}`;
+    const venueParam = venueId ? `&venueId=${encodeURIComponent(venueId)}` : "";
+    const searchUrl = `${API_BASE}?action=search&query=${encodeURIComponent(name)}&lat=${lat}&lng=${lng}${venueParam}`;
     const searchResponse = await fetch(searchUrl);
     
     if (!searchResponse.ok) {
@@ -190,12 +193,17 @@ export function formatPriceLevel(priceLevel?: number): string {
 const placeCache = new Map<string, { data: PlaceDetails; timestamp: number }>();
 const CACHE_DURATION = 60 * 60 * 1000; // 1 hour
 
+/**
+ * Place details for a venue: straight from its Google place id when the aggregator knows it,
+ * otherwise found by name near the coordinates
+ */
 export async function getCachedPlaceDetails(
   venueName: string,
   lat: number,
-  lng: number
+  lng: number,
+  venue?: { id: string; googlePlaceId: string | null }
 ): Promise<PlaceDetails | null> {
-  const cacheKey = `${venueName}_${lat.toFixed(4)}_${lng.toFixed(4)}`;
+  const cacheKey = venue?.id ?? `${venueName}_${lat.toFixed(4)}_${lng.toFixed(4)}`;
   
   // Check cache
   const cached = placeCache.get(cacheKey);
@@ -203,8 +211,10 @@ export async function getCachedPlaceDetails(
     return cached.data;
   }
   
-  // Fetch new data
-  const details = await searchPlace(venueName, lat, lng);
+  // Fetch new data (only aggregator venue ids are remembered server-side)
+  const details = venue?.googlePlaceId
+    ? await getPlaceDetails(venue.googlePlaceId)
+    : await searchPlace(venueName, lat, lng, venue?.id.startsWith("venue_") ? venue.id : undefined);
   
   if (details) {
     placeCache.set(cacheKey, { data: details, timestamp: Date.now() });
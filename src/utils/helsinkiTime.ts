@@ -0,0 +1,70 @@
+/**
+ * Date helpers anchored to Europe/Helsinki, independent of the browser's timezone.
+ * Day and window arithmetic lives in shared/helsinkiTime.js, which the server uses too.
+ */
+
+import { addDays, getHelsinkiDate, getHelsinkiParts, helsinkiTimeOn } from "../../shared/helsinkiTime";
+import type { TimeWindow } from "../../shared/helsinkiTime";
+
+export {
+  HELSINKI_TZ,
+  addDays,
+  getDateRangeWindow,
+  getDayWindow,
+  getHelsinkiDate,
+  getHelsinkiParts,
+  helsinkiTimeOn,
+  overlapsWindow,
+} from "../../shared/helsinkiTime";
+export type { HelsinkiParts, TimeWindow } from "../../shared/helsinkiTime";
+
+// "Tonight" runs from early evening until bars close the next morning
+export const TONIGHT_START_HOUR = 17;
+export const TONIGHT_END_HOUR = 4;
+
+// The heatmap playback steps through the evening proper, ending with "tonight"
+export const EVENING_START_HOUR = 18;
+
+// Weekend starts on Friday evening and runs through Sunday
+const WEEKEND_START_HOUR = 17;
+
+/**
+ * Tonight: 17:00 until 04:00 the next morning.
+ * Before 04:00 we're still in last night's window.
+ */
+export function getTonightWindow(now: number = Date.now()): TimeWindow {
+  const { hour } = getHelsinkiParts(now);
+  const evening = getHelsinkiDate(now, hour < TONIGHT_END_HOUR ? -1 : 0);
+  return {
+    start: helsinkiTimeOn(evening, TONIGHT_START_HOUR),
+    end: helsinkiTimeOn(addDays(evening, 1), TONIGHT_END_HOUR),
+  };
+}
+
+/**
+ * Evening of a day: 18:00 until 04:00 the next morning.
+ * Before 04:00 it's last night's evening.
+ */
+export function getEveningWindow(now: number = Date.now()): TimeWindow {
+  const { hour } = getHelsinkiParts(now);
+  const evening = getHelsinkiDate(now, hour < TONIGHT_END_HOUR ? -1 : 0);
+  return {
+    start: helsinkiTimeOn(evening, EVENING_START_HOUR),
+    end: helsinkiTimeOn(addDays(evening, 1), TONIGHT_END_HOUR),
+  };
+}
+
+/**
+ * Weekend: Friday 17:00 until Monday 00:00.
+ * During the week this is the upcoming weekend; from Friday to Sunday it's the current one.
+ */
+export function getWeekendWindow(now: number = Date.now()): TimeWindow {
+  const { weekday } = getHelsinkiParts(now);
+  // Days from today back (Sat/Sun) or forward (Mon-Fri) to Friday
+  const toFriday = weekday === 6 ? -1 : weekday === 0 ? -2 : 5 - weekday;
+  const friday = getHelsinkiDate(now, toFriday);
+  return {
+    start: helsinkiTimeOn(friday, WEEKEND_START_HOUR),
+    end: helsinkiTimeOn(addDays(friday, 3)),
+  };
+}
@@ -0,0 +1,58 @@
+import type { HotspotEvent, Language, LocalizedText } from "../types";
+
+export const LANGUAGES: { id: Language; label: string; locale: string }[] = [
+  { id: "fi", label: "🇫🇮 Suomi", locale: "fi-FI" },
+  { id: "sv", label: "🇸🇪 Svenska", locale: "sv-FI" },
+  { id: "en", label: "🇬🇧 English", locale: "en-GB" },
+];
+
+// Fallback order when the preferred translation is missing
+const FALLBACK_ORDER: Record<Language, Language[]> = {
+  fi: ["fi", "en", "sv"],
+  sv: ["sv", "fi", "en"],
+  en: ["en", "fi", "sv"],
+};
+
+/**
+ * Locale used for date/time formatting in the given language
+ */
+export function getLocale(language: Language): string {
+  return LANGUAGES.find(l => l.id === language)?.locale ?? "fi-FI";
+}
+
+/**
+ * Guess the user's language from the browser, defaulting to English
+ */
+export function detectBrowserLanguage(): Language {
+  const lang = (typeof navigator !== "undefined" ? navigator.language : "").toLowerCase();
+  if (lang.startsWith("fi")) return "fi";
+  if (lang.startsWith("sv")) return "sv";
+  return "en";
+}
+
+/**
+ * Pick the best translation for a language, falling back to the others
+ */
+export function getLocalizedText(text: LocalizedText | undefined, language: Language): string | undefined {
+  if (!text) return undefined;
+  for (const lang of FALLBACK_ORDER[language]) {
+    const value = text[lang];
+    if (value && value.trim()) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Return a copy of the event with title, description, venue and URL in the preferred language
+ */
+export function localizeEvent(event: HotspotEvent, language: Language): HotspotEvent {
+  if (!event.i18n) return event;
+  const { title, description, venueName, url } = event.i18n;
+  return {
+    ...event,
+    title: getLocalizedText(title, language) ?? event.title,
+    description: getLocalizedText(description, language) ?? event.description,
+    venueName: getLocalizedText(venueName, language) ?? event.venueName,
+    url: getLocalizedText(url, language) ?? event.url,
+  };
+}
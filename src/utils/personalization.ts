@@ -2,9 +2,13 @@
  * Personalization utilities for managing user preferences, liked events, and search history
  */
 
+import type { Language } from '../types';
+import { detectBrowserLanguage } from './i18n';
+
 const LIKED_EVENTS_KEY = 'helsinki-hotspots-liked-events';
 const CATEGORY_PREFS_KEY = 'helsinki-hotspots-category-prefs';
 const RECENT_SEARCHES_KEY = 'helsinki-hotspots-recent-searches';
+const LANGUAGE_KEY = 'helsinki-hotspots-language';
 const MAX_RECENT_SEARCHES = 10;
 
 export interface LikedEvent {
@@ -200,6 +204,18 @@ export function addRecentSearch(query: string): void {
   }
 }
 
+/**
+ * Remove one entry from recent searches
+ */
+export function removeRecentSearch(query: string): void {
+  try {
+    const searches = getRecentSearches().filter(s => s.toLowerCase() !== query.trim().toLowerCase());
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(searches));
+  } catch (error) {
+    console.warn('Failed to remove recent search:', error);
+  }
+}
+
 /**
  * Clear recent searches
  */
@@ -253,6 +269,30 @@ export function getSmartSuggestions(): string[] {
   return suggestions;
 }
 
+/**
+ * Get preferred content language (stored choice, else browser language)
+ */
+export function getLanguagePreference(): Language {
+  try {
+    const stored = localStorage.getItem(LANGUAGE_KEY);
+    if (stored === 'fi' || stored === 'sv' || stored === 'en') return stored;
+  } catch (error) {
+    console.warn('Failed to load language preference:', error);
+  }
+  return detectBrowserLanguage();
+}
+
+/**
+ * Save preferred content language
+ */
+export function setLanguagePreference(language: Language): void {
+  try {
+    localStorage.setItem(LANGUAGE_KEY, language);
+  } catch (error) {
+    console.warn('Failed to save language preference:', error);
+  }
+}
+
 /**
  * Clear all personalization data
  */
@@ -261,6 +301,7 @@ export function clearAllPersonalizationData(): void {
     localStorage.removeItem(LIKED_EVENTS_KEY);
     localStorage.removeItem(CATEGORY_PREFS_KEY);
     localStorage.removeItem(RECENT_SEARCHES_KEY);
+    localStorage.removeItem(LANGUAGE_KEY);
   } catch (error) {
     console.warn('Failed to clear personalization data:', error);
   }
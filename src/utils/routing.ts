@@ -0,0 +1,81 @@
+/**
+ * Route planning to an event (via the /api/route-plan proxy)
+ */
+
+import type { HotspotEvent, RouteItinerary, RouteLeg, RouteMode, RoutePlan } from "../types";
+
+const API_BASE = "/api/route-plan";
+
+// Leg colours on the map and in the leg list, by OTP mode (HSL's line colours)
+export const LEG_COLORS: Record<string, string> = {
+  WALK: "#667eea",
+  BUS: "#007ac9",
+  TRAM: "#00985f",
+  SUBWAY: "#ff6319",
+  RAIL: "#8c4799",
+  FERRY: "#00b9e4",
+};
+
+const LEG_ICONS: Record<string, string> = {
+  WALK: "🚶",
+  BUS: "🚌",
+  TRAM: "🚋",
+  SUBWAY: "🚇",
+  RAIL: "🚆",
+  FERRY: "⛴️",
+};
+
+/**
+ * Itineraries from a point to the event, arriving before it starts when it's still ahead
+ */
+export async function fetchRoutePlan(
+  from: { lat: number; lng: number },
+  event: HotspotEvent,
+  mode: RouteMode,
+  signal?: AbortSignal
+): Promise<RoutePlan> {
+  const params = new URLSearchParams({
+    fromLat: String(from.lat),
+    fromLng: String(from.lng),
+    toLat: String(event.lat),
+    toLng: String(event.lng),
+    mode,
+    startTime: event.startTime,
+  });
+  const response = await fetch(`${API_BASE}?${params.toString()}`, { signal });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Route planning failed (HTTP ${response.status})`);
+  }
+  return response.json();
+}
+
+export function getLegColor(leg: RouteLeg): string {
+  return LEG_COLORS[leg.mode] ?? "#999999";
+}
+
+export function getLegIcon(leg: RouteLeg): string {
+  return LEG_ICONS[leg.mode] ?? "🚍";
+}
+
+/**
+ * Minutes from now until you need to set off for the itinerary (negative once it has left)
+ */
+export function getMinutesUntilDeparture(itinerary: RouteItinerary, now = Date.now()): number {
+  return Math.round((Date.parse(itinerary.departure) - now) / 60000);
+}
+
+/**
+ * "1.2 km" / "350 m"
+ */
+export function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters / 10) * 10} m`;
+}
+
+/**
+ * "1 h 5 min" / "25 min"
+ */
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
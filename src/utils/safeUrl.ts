@@ -0,0 +1,16 @@
+/**
+ * Links from event feeds, checked before they reach an href
+ */
+
+/**
+ * The URL if it's an absolute http(s) link, otherwise null (drops javascript:, data: and junk)
+ */
+export function safeExternalUrl(url: unknown): string | null {
+  if (typeof url !== "string" || !url) return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "https:" || parsed.protocol === "http:" ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
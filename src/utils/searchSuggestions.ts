@@ -0,0 +1,106 @@
+/**
+ * Search box suggestions: recent searches, venues, categories and event titles matching what's typed
+ */
+
+import type { HotspotEvent } from "../types";
+
+export type SuggestionKind = "recent" | "venue" | "category" | "event";
+
+export interface SearchSuggestion {
+  kind: SuggestionKind;
+  label: string;
+  value: string; // Query to search for when picked
+  eventId?: string; // Event suggestions select the event instead
+  detail?: string; // Secondary text, e.g. the venue or number of events
+}
+
+// How many suggestions of each kind to show
+const LIMITS: Record<SuggestionKind, number> = { recent: 5, venue: 3, category: 2, event: 5 };
+
+const CATEGORY_LABELS: Record<string, string> = {
+  music: "Music",
+  food: "Food & Drink",
+  sports: "Sports",
+  family: "Family",
+  arts: "Arts & Culture",
+  tech: "Tech",
+  nightlife: "Nightlife",
+  other: "Other",
+};
+
+/**
+ * Lowercase and fold accents (ä -> a), as the search index does
+ */
+function fold(text: string): string {
+  return text.toLowerCase().normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Whether any word of the text starts with the query, or the whole text does ("kiasma", "savoy t")
+ */
+function matches(text: string, query: string): boolean {
+  const folded = fold(text);
+  return folded.startsWith(query) || folded.split(/[^\p{L}\p{N}]+/u).some(word => word.startsWith(query));
+}
+
+/**
+ * Suggestions for a partial query; with an empty query only recent searches are offered
+ */
+export function getSearchSuggestions(query: string, events: HotspotEvent[], recent: string[]): SearchSuggestion[] {
+  const q = fold(query.trim());
+
+  const recentMatches = recent
+    .filter(search => !q || (fold(search) !== q && matches(search, q)))
+    .slice(0, LIMITS.recent)
+    .map((search): SearchSuggestion => ({ kind: "recent", label: search, value: search }));
+  if (!q) return recentMatches;
+
+  // Venues and categories, most events first
+  const venues = new Map<string, number>();
+  const categories = new Map<string, number>();
+  for (const event of events) {
+    if (event.venueName && event.venueName !== "Unknown Venue" && matches(event.venueName, q)) {
+      venues.set(event.venueName, (venues.get(event.venueName) ?? 0) + 1);
+    }
+    const categoryLabel = CATEGORY_LABELS[event.category] ?? event.category;
+    if (matches(event.category, q) || matches(categoryLabel, q)) {
+      categories.set(event.category, (categories.get(event.category) ?? 0) + 1);
+    }
+  }
+  const byCount = (a: [string, number], b: [string, number]) => b[1] - a[1];
+  const eventCount = (count: number) => `${count} event${count === 1 ? "" : "s"}`;
+
+  const venueMatches = [...venues].sort(byCount).slice(0, LIMITS.venue).map(
+    ([venue, count]): SearchSuggestion => ({ kind: "venue", label: venue, value: venue, detail: eventCount(count) })
+  );
+  const categoryMatches = [...categories].sort(byCount).slice(0, LIMITS.category).map(
+    ([category, count]): SearchSuggestion => ({
+      kind: "category",
+      label: CATEGORY_LABELS[category] ?? category,
+      value: category,
+      detail: eventCount(count),
+    })
+  );
+
+  // Titles starting with the query first, then titles with a word starting with it
+  const seenTitles = new Set<string>();
+  const eventMatches = events
+    .filter(event => matches(event.title, q))
+    .sort((a, b) => Number(fold(b.title).startsWith(q)) - Number(fold(a.title).startsWith(q)))
+    .filter(event => {
+      const key = fold(event.title);
+      if (seenTitles.has(key)) return false;
+      seenTitles.add(key);
+      return true;
+    })
+    .slice(0, LIMITS.event)
+    .map((event): SearchSuggestion => ({
+      kind: "event",
+      label: event.title,
+      value: event.title,
+      eventId: event.id,
+      detail: event.venueName,
+    }));
+
+  return [...recentMatches, ...venueMatches, ...categoryMatches, ...eventMatches];
+}
@@ -0,0 +1,26 @@
+/**
+ * Share a link with the native share sheet, falling back to the clipboard
+ */
+
+export type ShareResult = "shared" | "copied" | "failed";
+
+export async function shareLink(title: string, url: string): Promise<ShareResult> {
+  if (typeof navigator.share === "function") {
+    try {
+      await navigator.share({ title, url });
+      return "shared";
+    } catch (error) {
+      // User closed the share sheet - don't fall through to the clipboard
+      if (error instanceof DOMException && error.name === "AbortError") return "failed";
+      console.warn("Native share failed, copying instead:", error);
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(url);
+    return "copied";
+  } catch (error) {
+    console.warn("Failed to copy link:", error);
+    return "failed";
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Spiderfy geometry: fans out events stacked on one map point so each can be clicked
+ */
+
+// Up to this many events fan out; larger stacks open a list popup instead
+export const SPIDER_MAX_LEGS = 12;
+
+// Below this count legs sit on a circle, above it on a spiral so pins don't overlap
+const CIRCLE_MAX_LEGS = 8;
+const CIRCLE_RADIUS_PX = 40;
+const SPIRAL_START_PX = 28;
+const SPIRAL_STEP_PX = 5;
+const SPIRAL_LEG_GAP_PX = 30;
+
+/**
+ * Key for "the same place": coordinates rounded to ~1 m
+ */
+export function locationKey(lng: number, lat: number): string {
+  return `${lng.toFixed(5)},${lat.toFixed(5)}`;
+}
+
+/**
+ * Screen-space offsets (px) of the leg ends around the stacked point, first leg at 12 o'clock
+ */
+export function spiderLegOffsets(count: number): [number, number][] {
+  if (count <= CIRCLE_MAX_LEGS) {
+    const step = (2 * Math.PI) / count;
+    return Array.from({ length: count }, (_, i) => {
+      const angle = i * step - Math.PI / 2;
+      return [CIRCLE_RADIUS_PX * Math.cos(angle), CIRCLE_RADIUS_PX * Math.sin(angle)];
+    });
+  }
+
+  // Archimedean spiral with roughly even spacing between neighbouring legs
+  const offsets: [number, number][] = [];
+  let radius = SPIRAL_START_PX;
+  let angle = -Math.PI / 2;
+  for (let i = 0; i < count; i++) {
+    offsets.push([radius * Math.cos(angle), radius * Math.sin(angle)]);
+    angle += SPIRAL_LEG_GAP_PX / radius;
+    radius += (SPIRAL_STEP_PX * SPIRAL_LEG_GAP_PX) / radius;
+  }
+  return offsets;
+}
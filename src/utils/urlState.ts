@@ -0,0 +1,105 @@
+/**
+ * Shareable view state <-> URL.
+ * Filters and the selected event or venue live in the query string, the map camera in the
+ * hash (#map=zoom/lat/lng), e.g. ?quick=tonight,free&cat=music#map=14/60.1841/24.9503
+ */
+
+import type { DateRange, MapCamera } from "../types";
+import type { QuickFilter } from "../../components/FilterBar";
+
+export interface UrlState {
+  query: string;
+  price: "" | "free" | "paid";
+  activeFilters: string[]; // Category interest chips
+  quickFilters: QuickFilter[];
+  maxDistance: number; // 100 = no limit
+  district: string | null; // District id (kaupunginosa tunnus)
+  onlyLive: boolean;
+  dateRange: DateRange | null;
+  selectedId: string | null;
+  venueId: string | null; // Venue page open in the sidebar
+  view: MapCamera | null;
+}
+
+const QUICK_FILTERS: QuickFilter[] = ["now", "tonight", "weekend", "free", "popular"];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseList(value: string | null): string[] {
+  return value ? value.split(",").map(v => v.trim()).filter(Boolean) : [];
+}
+
+function parseView(hash: string): MapCamera | null {
+  const match = hash.match(/map=([\d.]+)\/(-?[\d.]+)\/(-?[\d.]+)/);
+  if (!match) return null;
+  const [zoom, lat, lng] = match.slice(1).map(Number);
+  if (![zoom, lat, lng].every(isFinite) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { zoom: Math.min(Math.max(zoom, 0), 22), lat, lng };
+}
+
+/**
+ * Read view state from a location; unknown or malformed values fall back to defaults
+ */
+export function parseUrlState(location: { search: string; hash: string } = window.location): UrlState {
+  const params = new URLSearchParams(location.search);
+
+  const price = params.get("price");
+  const distance = Number(params.get("dist"));
+  const from = params.get("from");
+  const to = params.get("to") || from;
+
+  return {
+    query: params.get("q") ?? "",
+    price: price === "free" || price === "paid" ? price : "",
+    activeFilters: parseList(params.get("cat")),
+    quickFilters: parseList(params.get("quick")).filter((f): f is QuickFilter => QUICK_FILTERS.includes(f as QuickFilter)),
+    maxDistance: distance > 0 && distance < 100 ? distance : 100,
+    district: params.get("district"),
+    onlyLive: params.get("live") === "1",
+    dateRange: from && to && DATE_RE.test(from) && DATE_RE.test(to) && from <= to ? { start: from, end: to } : null,
+    selectedId: params.get("event"),
+    venueId: params.get("venue"),
+    view: parseView(location.hash),
+  };
+}
+
+/**
+ * Serialize the filter part of the state (everything except the camera) to a query string
+ */
+export function buildUrlSearch(state: UrlState): string {
+  const params = new URLSearchParams();
+  if (state.query.trim()) params.set("q", state.query.trim());
+  if (state.price) params.set("price", state.price);
+  if (state.activeFilters.length) params.set("cat", state.activeFilters.join(","));
+  if (state.quickFilters.length) params.set("quick", state.quickFilters.join(","));
+  if (state.maxDistance < 100) params.set("dist", String(state.maxDistance));
+  if (state.district) params.set("district", state.district);
+  if (state.onlyLive) params.set("live", "1");
+  if (state.dateRange) {
+    params.set("from", state.dateRange.start);
+    params.set("to", state.dateRange.end);
+  }
+  if (state.selectedId) params.set("event", state.selectedId);
+  if (state.venueId) params.set("venue", state.venueId);
+
+  // Keep commas readable in shared links
+  const search = params.toString().replace(/%2C/g, ",");
+  return search ? `?${search}` : "";
+}
+
+/**
+ * Serialize the map camera to a hash
+ */
+export function buildUrlHash(view: MapCamera | null): string {
+  if (!view) return "";
+  return `#map=${view.zoom.toFixed(2)}/${view.lat.toFixed(4)}/${view.lng.toFixed(4)}`;
+}
+
+/**
+ * Absolute link to a single event, centred on it, without the sharer's other filters
+ */
+export function buildEventLink(event: { id: string; lat: number; lng: number }): string {
+  const url = new URL(window.location.pathname, window.location.origin);
+  url.searchParams.set("event", event.id);
+  url.hash = buildUrlHash({ lat: event.lat, lng: event.lng, zoom: 16 });
+  return url.toString();
+}
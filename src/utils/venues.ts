@@ -0,0 +1,54 @@
+/**
+ * Venues on the client: events carry the aggregator's venue; events without one
+ * (demo data, events stored before venues existed) get a venue derived from their position and name.
+ */
+
+import type { HotspotEvent, Language, Venue } from "../types";
+import { getLocalizedText } from "./i18n";
+
+export interface VenueGroup {
+  venue: Venue;
+  events: HotspotEvent[]; // Sorted by start time
+}
+
+/**
+ * The event's venue, or one derived from its position and venue name
+ */
+export function getEventVenue(event: HotspotEvent): Venue {
+  if (event.venue) return event.venue;
+  return {
+    id: `geo:${event.lat.toFixed(4)},${event.lng.toFixed(4)}:${event.venueName.toLowerCase()}`,
+    name: event.venueName,
+    names: event.i18n?.venueName ?? {},
+    address: null,
+    city: event.city,
+    lat: event.lat,
+    lng: event.lng,
+    sourceIds: {},
+    googlePlaceId: null,
+  };
+}
+
+/**
+ * Venue name in the preferred language
+ */
+export function getVenueName(venue: Venue, language: Language): string {
+  return getLocalizedText(venue.names, language) ?? venue.name;
+}
+
+/**
+ * Events grouped by venue id, each group sorted by start time
+ */
+export function groupEventsByVenue(events: HotspotEvent[]): Map<string, VenueGroup> {
+  const groups = new Map<string, VenueGroup>();
+  for (const event of events) {
+    const venue = getEventVenue(event);
+    const group = groups.get(venue.id);
+    if (group) group.events.push(event);
+    else groups.set(venue.id, { venue, events: [event] });
+  }
+  for (const group of groups.values()) {
+    group.events.sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime));
+  }
+  return groups;
+}